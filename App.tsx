@@ -1,139 +1,852 @@
-import React, { useState, useEffect } from 'react';
-import { AspectRatio, CameraPerspective, LightingStyle } from './types';
-import { ASPECT_RATIO_OPTIONS, LIGHTING_STYLE_OPTIONS, CAMERA_PERSPECTIVE_OPTIONS } from './constants';
-import { fileToBase64, generateDescriptivePrompt, editProductImage } from './services/geminiService';
+import React, { useState, useEffect, useRef } from 'react';
+import { AspectRatio, Base64Image, BrandKit, CameraPerspective, CompositeLayout, CompositeSource, CropOptions, Dimensions, ExportMetadata, FidelityReport, GeneratedVariation, GenerationStrategy, HistoryEntry, LightingStyle, OverlayLayer, SceneSettings, StudioMode, StylePreset, StyleReference, StyleSettings } from './types';
+import { DEFAULT_CROP_OPTIONS, DEFAULT_CUSTOM_ASPECT_RATIO, DEFAULT_SCENE_SETTINGS, GENERATION_STRATEGY_OPTIONS, LIGHTING_STYLE_OPTIONS, MAX_STYLE_REFERENCES, CAMERA_PERSPECTIVE_OPTIONS, VARIATION_COUNT_OPTIONS, describeAspectRatio, getAspectRatioValue } from './constants';
+import { checkProductFidelity, createProductCutout, generateComposites, generateDescriptivePrompt, generateVariations, getProviderInfo, inpaintImage, refineImage, retryForFidelity } from './services/geminiService';
+import { dataUrlToBase64Image, fitImageToSize, loadImage, toDataUrl } from './services/imageUtils';
+import { matchesAspect } from './services/cropService';
+import { createHistoryEntryId, saveHistoryEntry, saveHistoryResultOverlays } from './services/historyService';
+import { buildRefinementPrompt, describeBrandGuidelines } from './services/promptTemplates';
+import { buildConstraintsSection } from './services/promptSections';
+import { appendVersion, createVariation, getActiveVersion, setVersionComposite, setVersionFidelity, setVersionOverlays } from './services/variationUtils';
+import { compositeProduct } from './services/compositeService';
+import { flattenOverlays } from './services/overlayService';
+import { createStyleReference } from './services/styleReferenceService';
+import { runWithConcurrency } from './services/concurrency';
+import { isAbortError } from './services/abortUtils';
+import { canRetryRequest } from './services/studioErrors';
+import { adviseOnFailure, GenerationFailureAdvice } from './services/generationAdvice';
+import { loadPersonalApiKey } from './services/apiKeyStorage';
+import { FidelitySettings, loadFidelitySettings, saveFidelitySettings } from './services/fidelityService';
+import { applyBrandOverlays, BrandPaletteReport, checkBrandPalette, hasBrandOverlays, hasBrandPalette, loadBrandKit, saveBrandKit } from './services/brandKitService';
+import { getBaseName } from './services/downloadUtils';
+import { getClipboardImageFiles, hasTransferFiles } from './services/imageImportService';
+import { InputImageSettings, INPUT_FILE_ACCEPT, INPUT_FORMATS_LABEL, isSupportedInputFile, loadInputImageSettings, MAX_EDGE_OPTIONS, MAX_INPUT_FILE_SIZE_MB, prepareInputImage, saveInputImageSettings } from './services/inputImageService';
+import { useBatchQueue, BatchRunOptions } from './hooks/useBatchQueue';
+import { usePromptGenerator } from './hooks/usePromptGenerator';
 import FileUpload from './components/FileUpload';
 import SelectControl from './components/SelectControl';
+import AspectRatioControl, { AspectRatioSettings } from './components/AspectRatioControl';
 import Spinner from './components/Spinner';
 import Icon from './components/Icon';
 import ImageCropModal from './components/ImageCropModal';
+import BatchQueue from './components/BatchQueue';
+import VariationGrid from './components/VariationGrid';
+import HistoryGalleryModal from './components/HistoryGalleryModal';
+import ApiKeySettingsModal from './components/ApiKeySettingsModal';
+import RefinementPanel from './components/RefinementPanel';
+import MaskEditorModal from './components/MaskEditorModal';
+import OverlayEditorModal from './components/OverlayEditorModal';
+import ExportModal from './components/ExportModal';
+import ChannelPackModal from './components/ChannelPackModal';
+import PresetPanel from './components/PresetPanel';
+import SceneControls from './components/SceneControls';
+import PromptEditor from './components/PromptEditor';
+import PromptDiffView from './components/PromptDiffView';
+import FidelityReportView from './components/FidelityReportView';
+import FidelitySettingsControl from './components/FidelitySettingsControl';
+import CutoutStudio from './components/CutoutStudio';
+import CompositeControls from './components/CompositeControls';
+import StyleReferenceBoard from './components/StyleReferenceBoard';
+import BrandKitPanel from './components/BrandKitPanel';
+import BrandPaletteWarning from './components/BrandPaletteWarning';
+import GenerationFailureDetails from './components/GenerationFailureDetails';
 
-const MAX_FILE_SIZE_MB = 10;
-const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
-const SUPPORTED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const FIDELITY_CHECK_CONCURRENCY = 2;
+const MAX_FILE_SIZE_BYTES = MAX_INPUT_FILE_SIZE_MB * 1024 * 1024;
+
+/**
+ * Returns a user-facing error message if the file cannot be used as an input image.
+ */
+const validateImageFile = (file: File): string | null => {
+  if (!isSupportedInputFile(file)) {
+    return `Unsupported file type. Please upload a JPEG, PNG, WebP, HEIC, AVIF or TIFF image.`;
+  }
+  if (file.size > MAX_FILE_SIZE_BYTES) {
+    return `File is too large. Please upload an image smaller than ${MAX_INPUT_FILE_SIZE_MB}MB.`;
+  }
+  return null;
+};
+
+interface UploadReport {
+  /** One per upload, since pasted images often share a name such as image.png. */
+  uploadId: string;
+  fileName: string;
+  error: string | null;
+  /** What was done to the photo on the way in (turned upright, converted, scaled down). */
+  changes: string[];
+}
+
+interface GenerationInputs {
+  productImage: Base64Image;
+  prompt: string;
+  styleReferences: StyleReference[];
+  settings: StyleSettings;
+}
 
 export default function App() {
+  const [mode, setMode] = useState<StudioMode>('single');
+
   const [productImage, setProductImage] = useState<{ base64: string, mimeType: string } | null>(null);
   const [originalProductImage, setOriginalProductImage] = useState<{ dataUrl: string, mimeType: string } | null>(null);
+  const [productName, setProductName] = useState('');
   const [isCropModalOpen, setIsCropModalOpen] = useState(false);
+  // How the current crop was framed, so a recrop at a new aspect ratio starts from the same choices.
+  const [cropOptions, setCropOptions] = useState<CropOptions>(DEFAULT_CROP_OPTIONS);
+  const [productSize, setProductSize] = useState<Dimensions | null>(null);
 
-  const [styleReferenceImage, setStyleReferenceImage] = useState<{ base64: string, mimeType: string } | null>(null);
+  const [styleReferences, setStyleReferences] = useState<StyleReference[]>([]);
 
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>(AspectRatio.SQUARE);
+  const [customAspectRatio, setCustomAspectRatio] = useState<Dimensions>(DEFAULT_CUSTOM_ASPECT_RATIO);
+  const [outputSize, setOutputSize] = useState<Dimensions | null>(null);
   const [lightingStyle, setLightingStyle] = useState<LightingStyle>(LightingStyle.STUDIO);
   const [cameraPerspective, setCameraPerspective] = useState<CameraPerspective>(CameraPerspective.EYE_LEVEL);
 
-  const [prompt, setPrompt] = useState('');
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+  const [scene, setScene] = useState<SceneSettings>(DEFAULT_SCENE_SETTINGS);
+
+  const styleSettings: StyleSettings = { aspectRatio, customAspectRatio, outputSize, lightingStyle, cameraPerspective, scene };
+  // The "do not" list is rendered locally, so only the other scene fields need a new prompt.
+  const { doNotList, ...generatedSceneFields } = scene;
+  const sceneKey = JSON.stringify(generatedSceneFields);
+  const doNotKey = doNotList.join('\n');
+  const aspectValue = getAspectRatioValue(aspectRatio, customAspectRatio);
+  // The saved crop no longer matches after the aspect ratio changes; offer a recrop.
+  const needsRecrop = productImage !== null && productSize !== null && !matchesAspect(productSize, aspectValue);
+
+  const [variationCount, setVariationCount] = useState(1);
+  const [generationStrategy, setGenerationStrategy] = useState<GenerationStrategy>('edit');
+  // The transparent cut-out of `source`; only valid while that is still the product photo.
+  const [productCutout, setProductCutout] = useState<{ source: Base64Image, url: string } | null>(null);
+  const [isCompositing, setIsCompositing] = useState(false);
+  const [variations, setVariations] = useState<GeneratedVariation[]>([]);
+  const [selectedVariationId, setSelectedVariationId] = useState<string | null>(null);
+  const selectedVariation = variations.find(variation => variation.id === selectedVariationId) ?? null;
+  const selectedVersion = selectedVariation ? getActiveVersion(selectedVariation) : null;
+  const generatedImage = selectedVersion?.imageUrl ?? null;
+  // The selected result with its text and badge layers drawn on, for display only.
+  const [displayedImage, setDisplayedImage] = useState<string | null>(null);
+
+  // Generation inputs per variation, so a flagged result can be regenerated later.
+  const variationInputsRef = useRef(new Map<string, GenerationInputs>());
+  const [inputImageSettings, setInputImageSettings] = useState<InputImageSettings>(loadInputImageSettings);
+  // Per-file upload outcomes: why a file was refused, or what was done to it on the way in.
+  const [uploadReports, setUploadReports] = useState<UploadReport[]>([]);
+  const pendingStyleUploadsRef = useRef(0);
+  const [fidelitySettings, setFidelitySettings] = useState<FidelitySettings>(loadFidelitySettings);
+  const [fidelityRetryIds, setFidelityRetryIds] = useState<string[]>([]);
+  const [brandKit, setBrandKit] = useState<BrandKit>(loadBrandKit);
+  const activeBrandKit = brandKit.enabled ? brandKit : null;
+  // Only the parts of the kit that reach the prompt should trigger a regeneration.
+  const brandGuidelines = describeBrandGuidelines(activeBrandKit);
+  const [paletteReport, setPaletteReport] = useState<BrandPaletteReport | null>(null);
 
-  const [isGeneratingPrompt, setIsGeneratingPrompt] = useState(false);
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
+  const [isRefining, setIsRefining] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Repeats the request behind `message`; only offered while that error is the one shown.
+  const [errorRetry, setErrorRetry] = useState<{ message: string, run: () => void } | null>(null);
+  // The model's explanation of the failure behind `message`, shown under that error.
+  const [errorAdvice, setErrorAdvice] = useState<{ message: string, advice: GenerationFailureAdvice } | null>(null);
+  const generationControllerRef = useRef<AbortController | null>(null);
+  const refineControllerRef = useRef<AbortController | null>(null);
+
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isApiKeySettingsOpen, setIsApiKeySettingsOpen] = useState(false);
+  const [hasPersonalKey, setHasPersonalKey] = useState(() => loadPersonalApiKey() !== null);
+  const [maskTarget, setMaskTarget] = useState<'product' | 'result' | null>(null);
+  const [exportImageSrc, setExportImageSrc] = useState<string | null>(null);
+  const [channelPackImage, setChannelPackImage] = useState<string | null>(null);
+  const [isOverlayEditorOpen, setIsOverlayEditorOpen] = useState(false);
+  // Inputs restored from history or a locked preset; the prompt effect must not overwrite the restored prompt for them.
+  const restoredPromptInputsRef = useRef<{ settings: StyleSettings, styleReferences: StyleReference[] } | null>(null);
 
-  const handleFileUpload = async (file: File, type: 'product' | 'style') => {
+  const batch = useBatchQueue();
+  const promptGenerator = usePromptGenerator(setError);
+  const { prompt } = promptGenerator;
+  const providerInfo = getProviderInfo();
+  const uploadErrors = uploadReports.filter(report => report.error);
+  const uploadNotes = uploadReports.filter(report => !report.error);
+
+  const handleFileUpload = async (file: File, type: 'product' | 'style' | 'batch') => {
     setError(null);
 
-    if (!SUPPORTED_MIME_TYPES.includes(file.type)) {
-      setError(`Unsupported file type. Please upload a JPEG, PNG, or WEBP image.`);
+    const uploadId = crypto.randomUUID();
+    // Only errors and changes are worth showing.
+    const reportUpload = (error: string | null, changes: string[] = []) => {
+      if (!error && changes.length === 0) return;
+      setUploadReports(prev => [...prev, { uploadId, fileName: file.name, error, changes }]);
+    };
+
+    const validationError = validateImageFile(file);
+    if (validationError) {
+      reportUpload(validationError);
       return;
     }
 
-    if (file.size > MAX_FILE_SIZE_BYTES) {
-      setError(`File is too large. Please upload an image smaller than ${MAX_FILE_SIZE_MB}MB.`);
+    // Several files can be added at once, so count the ones still loading against the limit.
+    if (type === 'style' && styleReferences.length + pendingStyleUploadsRef.current >= MAX_STYLE_REFERENCES) {
+      reportUpload(`The style board is full (${MAX_STYLE_REFERENCES} images), so this image was not added. Remove one to add another.`);
       return;
     }
+    if (type === 'style') pendingStyleUploadsRef.current += 1;
 
     try {
-      if (type === 'product') {
-        const { base64, mimeType } = await fileToBase64(file);
+      const { image, changes } = await prepareInputImage(file, inputImageSettings);
+      reportUpload(null, changes);
+      if (type === 'batch') {
+        batch.addImage(file.name, image);
+      } else if (type === 'product') {
         setOriginalProductImage({
-            dataUrl: `data:${mimeType};base64,${base64}`,
-            mimeType: mimeType
+            dataUrl: toDataUrl(image),
+            mimeType: image.mimeType
         });
+        setProductName(getBaseName(file.name));
         setProductImage(null); // Clear previous crop
         setIsCropModalOpen(true);
       } else {
-        const { base64, mimeType } = await fileToBase64(file);
-        setStyleReferenceImage({ base64, mimeType });
+        setStyleReferences(prev => (prev.length < MAX_STYLE_REFERENCES ? [...prev, createStyleReference(image)] : prev));
       }
     } catch (err) {
       const error = err as Error;
       console.error(`Failed to process ${type} image:`, error);
-      setError(`Error loading ${type} image: ${error.message}. Please try a different file.`);
+      reportUpload(`Could not load this ${type} image: ${error.message} Please try a different file.`);
+    } finally {
+      if (type === 'style') pendingStyleUploadsRef.current -= 1;
     }
   };
   
-  const handleCropSave = (croppedImage: { base64: string, mimeType: string }) => {
+  const handleInputImageSettingsChange = (settings: InputImageSettings) => {
+    setInputImageSettings(settings);
+    saveInputImageSettings(settings);
+  };
+
+  // Pasted images go to the main upload: the batch in batch mode, the product photo otherwise.
+  const pasteHandlerRef = useRef<(files: File[]) => void>(() => {});
+  pasteHandlerRef.current = (files) => {
+    if (mode === 'batch') {
+      files.forEach(file => handleFileUpload(file, 'batch'));
+    } else {
+      handleFileUpload(files[0], 'product');
+    }
+  };
+
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      // Upload zones handle their own pastes, and an open dialog is working on something else.
+      if (event.defaultPrevented || document.querySelector('[role="dialog"]')) return;
+      // Text copied from documents may carry a picture too; in a text field, paste the text.
+      const target = event.target as HTMLElement | null;
+      const isTextField = target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target?.isContentEditable;
+      if (isTextField && event.clipboardData?.types.includes('text/plain')) return;
+      const files = getClipboardImageFiles(event.clipboardData);
+      if (files.length === 0) return;
+      event.preventDefault();
+      pasteHandlerRef.current(files);
+    };
+    // A file dropped beside an upload zone would otherwise be opened by the browser,
+    // leaving the studio and losing the session.
+    const preventFileDrop = (event: DragEvent) => {
+      if (hasTransferFiles(event.dataTransfer)) event.preventDefault();
+    };
+    document.addEventListener('paste', handlePaste);
+    window.addEventListener('dragover', preventFileDrop);
+    window.addEventListener('drop', preventFileDrop);
+    return () => {
+      document.removeEventListener('paste', handlePaste);
+      window.removeEventListener('dragover', preventFileDrop);
+      window.removeEventListener('drop', preventFileDrop);
+    };
+  }, []);
+
+  const handleCropSave = (croppedImage: Base64Image, options: CropOptions) => {
     setProductImage(croppedImage);
+    setCropOptions(options);
     setIsCropModalOpen(false);
   };
 
-  const handleClearStyleImage = () => {
-    setStyleReferenceImage(null);
-  };
+  // A rotation belongs to one photo; keep the other framing choices for the next.
+  useEffect(() => {
+    setCropOptions(prev => ({ ...prev, rotation: 0 }));
+  }, [originalProductImage]);
 
   useEffect(() => {
-    const updatePrompt = async () => {
-      setIsGeneratingPrompt(true);
-      setError(null);
-      try {
-        const newPrompt = await generateDescriptivePrompt({
-          aspectRatio,
-          lightingStyle,
-          cameraPerspective
-        }, styleReferenceImage);
-        setPrompt(newPrompt);
-      } catch (err) {
-        const error = err as Error;
-        setError(error.message || 'An unknown error occurred while generating the prompt.');
-        console.error("Prompt generation failed:", error);
-      } finally {
-        setIsGeneratingPrompt(false);
+    setProductSize(null);
+    if (!productImage) return;
+    let isCurrent = true;
+    loadImage(toDataUrl(productImage))
+      .then(image => {
+        if (isCurrent) setProductSize({ width: image.naturalWidth, height: image.naturalHeight });
+      })
+      .catch(err => console.error('Failed to measure the product image:', err));
+    return () => {
+      isCurrent = false;
+    };
+  }, [productImage]);
+
+  useEffect(() => {
+    const restored = restoredPromptInputsRef.current;
+    if (restored) {
+      restoredPromptInputsRef.current = null;
+      if (
+        describeAspectRatio(restored.settings) === describeAspectRatio(styleSettings) &&
+        restored.settings.lightingStyle === lightingStyle &&
+        restored.settings.cameraPerspective === cameraPerspective &&
+        JSON.stringify({ ...(restored.settings.scene ?? DEFAULT_SCENE_SETTINGS), doNotList: undefined }) === JSON.stringify({ ...scene, doNotList: undefined }) &&
+        restored.styleReferences === styleReferences
+      ) {
+        return;
       }
+    }
+
+    setError(null);
+    promptGenerator.schedule(styleSettings, styleReferences, activeBrandKit);
+  }, [aspectRatio, customAspectRatio, outputSize, lightingStyle, cameraPerspective, sceneKey, styleReferences, brandGuidelines]);
+
+  useEffect(() => {
+    promptGenerator.updateSection('constraints', buildConstraintsSection(scene));
+  }, [doNotKey]);
+
+  const handleFidelitySettingsChange = (settings: FidelitySettings) => {
+    setFidelitySettings(settings);
+    saveFidelitySettings(settings);
+  };
+
+  /**
+   * Draws what sits on top of a result: the brand kit's logo and watermark, then the
+   * version's text and badge layers. Versions keep the model's image underneath, so
+   * refining, checking and reusing a result never work on these.
+   */
+  const renderFinalImage = async (imageUrl: string, overlays: OverlayLayer[]): Promise<string> =>
+    flattenOverlays(await applyBrandOverlays(imageUrl, brandKit), overlays);
+
+  useEffect(() => {
+    setDisplayedImage(generatedImage);
+    const overlays = selectedVersion?.overlays ?? [];
+    if (!generatedImage || (overlays.length === 0 && !hasBrandOverlays(brandKit))) return;
+    let isCurrent = true;
+    renderFinalImage(generatedImage, overlays)
+      .then(url => {
+        if (isCurrent) setDisplayedImage(url);
+      })
+      .catch(err => console.error('Failed to draw overlay layers:', err));
+    return () => {
+      isCurrent = false;
+    };
+  }, [generatedImage, selectedVersion?.overlays, brandKit]);
+
+  const handleBrandKitChange = (kit: BrandKit) => {
+    setBrandKit(kit);
+    saveBrandKit(kit);
+  };
+
+  useEffect(() => {
+    setPaletteReport(null);
+    if (!generatedImage || !hasBrandPalette(brandKit)) return;
+    let isCurrent = true;
+    checkBrandPalette(generatedImage, brandKit)
+      .then(report => {
+        if (isCurrent) setPaletteReport(report);
+      })
+      .catch(err => console.error('Brand palette check failed:', err));
+    return () => {
+      isCurrent = false;
     };
-    
-    updatePrompt();
-  }, [aspectRatio, lightingStyle, cameraPerspective, styleReferenceImage]);
+  }, [generatedImage, brandKit]);
+
+  /**
+   * Shows why a request failed, with a retry button when sending it again could help and
+   * the model's own explanation when it gave one.
+   * @param prompt The wording the user controls, checked for terms that trigger safety blocks.
+   */
+  const reportRequestError = (err: unknown, fallback: string, retry: () => void, prompt = '') => {
+    const message = (err as Error).message || fallback;
+    const advice = adviseOnFailure(err, prompt);
+    setError(message);
+    setErrorRetry(canRetryRequest(err) ? { message, run: retry } : null);
+    setErrorAdvice(advice ? { message, advice } : null);
+  };
+
+  const handleRetryFailedRequest = () => {
+    const retry = errorRetry;
+    setError(null);
+    setErrorRetry(null);
+    retry?.run();
+  };
+
+  const updateVariation = (id: string, update: (variation: GeneratedVariation) => GeneratedVariation) => {
+    setVariations(prev => prev.map(variation => (variation.id === id ? update(variation) : variation)));
+  };
+
+  /**
+   * Runs the fidelity check for one version and records the report on it. A failed
+   * check is logged and leaves the version unchecked rather than blocking the result.
+   */
+  const checkVersionFidelity = async (variationId: string, versionId: string, imageUrl: string, productImage: Base64Image): Promise<FidelityReport | null> => {
+    updateVariation(variationId, variation => setVersionFidelity(variation, versionId, null));
+    try {
+      const report = await checkProductFidelity(productImage, imageUrl, fidelitySettings.threshold);
+      updateVariation(variationId, variation => setVersionFidelity(variation, versionId, report));
+      return report;
+    } catch (err) {
+      console.error("Fidelity check failed:", err);
+      updateVariation(variationId, variation => setVersionFidelity(variation, versionId, undefined));
+      return null;
+    }
+  };
+
+  /**
+   * Regenerates a flagged variation with the differences spelled out to the model. The
+   * retry is kept as a new version only if it scores higher than the flagged result.
+   */
+  const retryVariationFidelity = async (variationId: string, report: FidelityReport) => {
+    const inputs = variationInputsRef.current.get(variationId);
+    if (!inputs) {
+      setError('The inputs for this result are no longer available, so it cannot be regenerated.');
+      return;
+    }
+    setFidelityRetryIds(prev => [...prev, variationId]);
+    try {
+      const imageUrl = await retryForFidelity(inputs.productImage, inputs.prompt, inputs.styleReferences, report);
+      const retryReport = await checkProductFidelity(inputs.productImage, imageUrl, fidelitySettings.threshold);
+      if (retryReport.score > report.score) {
+        const label = `Fidelity retry (${Math.round(report.score * 100)}% → ${Math.round(retryReport.score * 100)}%)`;
+        updateVariation(variationId, variation => appendVersion(variation, imageUrl, label, retryReport));
+      } else {
+        setError(`The retry scored ${Math.round(retryReport.score * 100)}% for product fidelity, no better than before, so the original result was kept.`);
+      }
+    } catch (err) {
+      const error = err as Error;
+      setError(error.message || 'An unknown error occurred while regenerating the image.');
+      console.error("Fidelity retry failed:", error);
+    } finally {
+      setFidelityRetryIds(prev => prev.filter(id => id !== variationId));
+    }
+  };
+
+  const runFidelityChecks = async (newVariations: GeneratedVariation[], productImage: Base64Image) => {
+    if (!fidelitySettings.enabled) return;
+    // Composites contain the original product pixels, so there is nothing to check.
+    const drawnByModel = newVariations.filter(variation => !getActiveVersion(variation).composite);
+    await runWithConcurrency(drawnByModel, FIDELITY_CHECK_CONCURRENCY, async (variation) => {
+      const version = getActiveVersion(variation);
+      const report = await checkVersionFidelity(variation.id, version.id, version.imageUrl, productImage);
+      if (report?.isFlagged && fidelitySettings.autoRetry) {
+        await retryVariationFidelity(variation.id, report);
+      }
+    });
+  };
+
+  const handleRetryFidelity = () => {
+    if (!selectedVariation) return;
+    const report = getActiveVersion(selectedVariation).fidelity;
+    if (report) {
+      retryVariationFidelity(selectedVariation.id, report);
+    }
+  };
+
+  /**
+   * Returns the cut-out of the product photo, making one with the default edge
+   * refinement if the user has not prepared one in cut-out mode.
+   */
+  const getProductCutout = async (image: Base64Image, signal?: AbortSignal): Promise<string> => {
+    if (productCutout?.source === image) {
+      return productCutout.url;
+    }
+    const url = await createProductCutout(image, signal);
+    setProductCutout({ source: image, url });
+    return url;
+  };
+
+  /**
+   * Runs the selected generation strategy, returning each result with what it was composited
+   * from, if anything. The brand kit's logo and watermark are not drawn in; they are added
+   * when the result is shown or exported, so refinement and checks see the model's pixels.
+   */
+  const generateResults = async (
+    { productImage, prompt, styleReferences }: GenerationInputs,
+    signal: AbortSignal
+  ): Promise<{ imageUrl: string, composite?: CompositeSource, modelNote?: string }[]> => {
+    if (generationStrategy === 'composite') {
+      const cutoutUrl = await getProductCutout(productImage, signal);
+      return generateComposites(productImage, cutoutUrl, prompt, styleReferences, variationCount, signal);
+    }
+    const images = await generateVariations(productImage, prompt, styleReferences, variationCount, signal);
+    return images.map(({ imageUrl, diagnostics }) => ({ imageUrl, modelNote: diagnostics.modelText ?? undefined }));
+  };
+
+  const runGeneration = async (inputs: GenerationInputs) => {
+    const { productImage, prompt, styleReferences, settings } = inputs;
+    const controller = new AbortController();
+    generationControllerRef.current = controller;
+    setIsGeneratingImage(true);
+    setError(null);
+    try {
+      const results = await generateResults(inputs, controller.signal);
+      const resultImages = results.map(result => result.imageUrl);
+      const createdAt = Date.now();
+      const historyEntryId = createHistoryEntryId();
+      const newVariations = results.map((result, index) => createVariation(`variation-${createdAt}-${index}`, result.imageUrl, createdAt, {
+        composite: result.composite,
+        modelNote: result.modelNote,
+        historyRef: { entryId: historyEntryId, index },
+      }));
+      // Newest results go first; earlier variations are kept for comparison.
+      setVariations(prev => [...newVariations, ...prev]);
+      setSelectedVariationId(newVariations[0].id);
+      newVariations.forEach(variation => variationInputsRef.current.set(variation.id, inputs));
+      if (resultImages.length < variationCount) {
+        setError(`${variationCount - resultImages.length} of ${variationCount} variations failed to generate.`);
+      }
+
+      const { id: providerId, promptModel, imageModel } = getProviderInfo();
+      saveHistoryEntry({
+        id: historyEntryId,
+        createdAt,
+        productImage,
+        settings,
+        styleReferences,
+        prompt,
+        resultImages,
+        providerId,
+        promptModel,
+        imageModel,
+      }).catch(err => console.error('Failed to save generation to history:', err));
+
+      runFidelityChecks(newVariations, productImage);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      reportRequestError(err, 'An unknown error occurred while generating the image.', () => runGeneration(inputs), prompt);
+      console.error("Image generation failed:", err);
+    } finally {
+      if (generationControllerRef.current === controller) {
+        generationControllerRef.current = null;
+      }
+      setIsGeneratingImage(false);
+    }
+  };
 
   const handleGenerateImage = async () => {
     if (!productImage || !prompt) {
       setError('Please upload and crop a product image, and ensure a prompt is generated.');
       return;
     }
-    setIsGeneratingImage(true);
+    await runGeneration({
+      productImage,
+      prompt,
+      styleReferences,
+      settings: styleSettings,
+    });
+  };
+
+  /**
+   * Loads a saved generation back into the editor, including its results.
+   */
+  const handleRestoreHistoryEntry = (entry: HistoryEntry) => {
+    restoredPromptInputsRef.current = { settings: entry.settings, styleReferences: entry.styleReferences };
+    setMode('single');
+    setProductImage(entry.productImage);
+    setOriginalProductImage({ dataUrl: toDataUrl(entry.productImage), mimeType: entry.productImage.mimeType });
+    setStyleReferences(entry.styleReferences);
+    setAspectRatio(entry.settings.aspectRatio);
+    setCustomAspectRatio(entry.settings.customAspectRatio ?? DEFAULT_CUSTOM_ASPECT_RATIO);
+    setOutputSize(entry.settings.outputSize ?? null);
+    setLightingStyle(entry.settings.lightingStyle);
+    setCameraPerspective(entry.settings.cameraPerspective);
+    setScene(entry.settings.scene ?? DEFAULT_SCENE_SETTINGS);
+    promptGenerator.resetPrompt(entry.prompt);
+
+    const restoredVariations = entry.resultImages.map((imageUrl, index) => createVariation(`${entry.id}-${index}`, imageUrl, entry.createdAt, {
+      overlays: entry.resultOverlays?.[index],
+      historyRef: { entryId: entry.id, index },
+    }));
+    const inputs: GenerationInputs = { productImage: entry.productImage, prompt: entry.prompt, styleReferences: entry.styleReferences, settings: entry.settings };
+    restoredVariations.forEach(variation => variationInputsRef.current.set(variation.id, inputs));
+    setVariations(prev => [...restoredVariations, ...prev.filter(variation => !variation.id.startsWith(entry.id))]);
+    setSelectedVariationId(restoredVariations[0]?.id ?? null);
+    setIsHistoryOpen(false);
+  };
+
+  /**
+   * Loads a saved house style into the controls. A locked prompt is used as-is;
+   * otherwise the prompt is regenerated for the new settings as usual.
+   */
+  const handleApplyPreset = (preset: StylePreset) => {
+    if (preset.lockedPrompt) {
+      restoredPromptInputsRef.current = { settings: preset.settings, styleReferences: preset.styleReferences };
+      promptGenerator.resetPrompt(preset.lockedPrompt, true);
+    }
+    setStyleReferences(preset.styleReferences);
+    setAspectRatio(preset.settings.aspectRatio);
+    setCustomAspectRatio(preset.settings.customAspectRatio ?? DEFAULT_CUSTOM_ASPECT_RATIO);
+    setOutputSize(preset.settings.outputSize ?? null);
+    setLightingStyle(preset.settings.lightingStyle);
+    setCameraPerspective(preset.settings.cameraPerspective);
+    setScene(preset.settings.scene ?? DEFAULT_SCENE_SETTINGS);
+  };
+
+  const handleRerunHistoryEntry = async (entry: HistoryEntry) => {
+    handleRestoreHistoryEntry(entry);
+    await runGeneration({
+      productImage: entry.productImage,
+      prompt: entry.prompt,
+      styleReferences: entry.styleReferences,
+      settings: entry.settings,
+    });
+  };
+
+  /**
+   * Sends the selected variation's current version back to the image model with a
+   * follow-up instruction and chains the result as a new version.
+   */
+  const handleRefine = async (instruction: string) => {
+    if (!selectedVariation || !generatedImage) return;
+    const variationId = selectedVariation.id;
+    const controller = new AbortController();
+    refineControllerRef.current = controller;
+    setIsRefining(true);
     setError(null);
-    setGeneratedImage(null);
+    // The refined version carries the current layers over, so they are saved with it.
+    const overlays = selectedVersion?.overlays ?? [];
+    try {
+      const { imageUrl: refinedImage, diagnostics } = await refineImage(generatedImage, instruction, controller.signal);
+      const historyEntryId = createHistoryEntryId();
+      setVariations(prev => prev.map(variation => (
+        variation.id === variationId
+          ? appendVersion(variation, refinedImage, instruction, undefined, diagnostics.modelText ?? undefined, { entryId: historyEntryId, index: 0 })
+          : variation
+      )));
+
+      const { id: providerId, promptModel, imageModel } = getProviderInfo();
+      saveHistoryEntry({
+        id: historyEntryId,
+        createdAt: Date.now(),
+        productImage: dataUrlToBase64Image(generatedImage),
+        settings: styleSettings,
+        styleReferences: [],
+        prompt: buildRefinementPrompt(instruction),
+        resultImages: [refinedImage],
+        resultOverlays: [overlays],
+        providerId,
+        promptModel,
+        imageModel,
+      }).catch(err => console.error('Failed to save refinement to history:', err));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      reportRequestError(err, 'An unknown error occurred while refining the image.', () => handleRefine(instruction), instruction);
+      console.error("Image refinement failed:", err);
+    } finally {
+      if (refineControllerRef.current === controller) {
+        refineControllerRef.current = null;
+      }
+      setIsRefining(false);
+    }
+  };
+
+  const handleSelectVersion = (index: number) => {
+    if (!selectedVariationId) return;
+    setVariations(prev => prev.map(variation => (
+      variation.id === selectedVariationId && index >= 0 && index < variation.versions.length
+        ? { ...variation, activeVersionIndex: index }
+        : variation
+    )));
+  };
+
+  /**
+   * Runs a masked edit on the product photo or the selected result. Failures close the
+   * editor and are reported like other requests, with a retry of the same edit.
+   */
+  const applyMaskEdit = async (target: 'product' | 'result', mask: Base64Image, instruction: string) => {
+    const variationId = selectedVariation?.id;
+    const sourceImage = target === 'product' ? productImage : generatedImage && dataUrlToBase64Image(generatedImage);
+    if (!sourceImage || (target === 'result' && !variationId)) return;
+    setError(null);
+    try {
+      const editedImage = await inpaintImage(sourceImage, mask, instruction);
+      if (target === 'product') {
+        setProductImage(dataUrlToBase64Image(editedImage));
+        setOriginalProductImage({ dataUrl: editedImage, mimeType: 'image/png' });
+      } else {
+        setVariations(prev => prev.map(variation => (
+          variation.id === variationId ? appendVersion(variation, editedImage, `Masked edit: ${instruction}`) : variation
+        )));
+      }
+    } catch (err) {
+      if (isAbortError(err)) return;
+      reportRequestError(err, 'An unknown error occurred while editing the masked area.', () => applyMaskEdit(target, mask, instruction), instruction);
+      console.error('Masked edit failed:', err);
+    }
+  };
+
+  const handleApplyMask = async (mask: Base64Image, instruction: string) => {
+    if (maskTarget) {
+      await applyMaskEdit(maskTarget, mask, instruction);
+    }
+    setMaskTarget(null);
+  };
+
+  const handleToggleFavorite = (id: string) => {
+    setVariations(prev => prev.map(variation => (variation.id === id ? { ...variation, isFavorite: !variation.isFavorite } : variation)));
+  };
+
+  const handleClearUnstarred = () => {
+    const kept = variations.filter(variation => variation.isFavorite || variation.id === selectedVariationId);
+    setVariations(kept);
+  };
+
+  /**
+   * Feeds the selected variation back in as the product image for another round.
+   */
+  const handleUseAsInput = () => {
+    if (!generatedImage) return;
+    const image = dataUrlToBase64Image(generatedImage);
+    setOriginalProductImage({ dataUrl: generatedImage, mimeType: image.mimeType });
+    setProductImage(image);
+  };
+
+  /**
+   * Swaps the product photo for a cut-out and returns to scene generation with it.
+   */
+  const handleUseCutoutAsProduct = (image: Base64Image, cutoutUrl: string) => {
+    setOriginalProductImage({ dataUrl: toDataUrl(image), mimeType: image.mimeType });
+    setProductImage(image);
+    setProductCutout({ source: image, url: cutoutUrl });
+    setMode('single');
+  };
+
+  /**
+   * Re-composites the selected version with a new product placement, in place.
+   */
+  const handleCompositeLayoutChange = async (layout: CompositeLayout) => {
+    if (!selectedVariation) return;
+    const variationId = selectedVariation.id;
+    const { id: versionId, composite } = getActiveVersion(selectedVariation);
+    if (!composite) return;
+    setIsCompositing(true);
     try {
-      const resultImage = await editProductImage(productImage, prompt, styleReferenceImage);
-      setGeneratedImage(resultImage);
+      const imageUrl = await compositeProduct(composite.backgroundUrl, composite.cutoutUrl, layout);
+      updateVariation(variationId, variation => setVersionComposite(variation, versionId, imageUrl, { ...composite, layout }));
     } catch (err) {
       const error = err as Error;
-      setError(error.message || 'An unknown error occurred while generating the image.');
-      console.error("Image generation failed:", error);
+      setError(error.message || 'An unknown error occurred while placing the product.');
+      console.error("Compositing failed:", error);
     } finally {
-      setIsGeneratingImage(false);
+      setIsCompositing(false);
     }
   };
 
-  const handleDownloadImage = () => {
+  const handleAspectRatioChange = (settings: AspectRatioSettings) => {
+    setAspectRatio(settings.aspectRatio);
+    setCustomAspectRatio(settings.customAspectRatio);
+    setOutputSize(settings.outputSize);
+  };
+
+  const handleSaveOverlays = (overlays: OverlayLayer[]) => {
+    if (selectedVariation && selectedVersion) {
+      updateVariation(selectedVariation.id, variation => setVersionOverlays(variation, selectedVersion.id, overlays));
+      if (selectedVersion.historyRef) {
+        saveHistoryResultOverlays(selectedVersion.historyRef, overlays)
+          .catch(err => console.error('Failed to save overlays to history:', err));
+      }
+    }
+    setIsOverlayEditorOpen(false);
+  };
+
+  /**
+   * Opens the export dialog with the selected result, its overlay layers flattened into
+   * it and resized to the exact output size.
+   */
+  const handleDownloadImage = async () => {
     if (!generatedImage) return;
-    const link = document.createElement('a');
-    link.href = generatedImage;
-    link.download = 'ai-photo-studio-result.png';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    try {
+      const flattenedImage = await renderFinalImage(generatedImage, selectedVersion?.overlays ?? []);
+      const finalImage = outputSize ? await fitImageToSize(flattenedImage, outputSize) : flattenedImage;
+      setExportImageSrc(finalImage);
+    } catch (err) {
+      const error = err as Error;
+      console.error("Preparing the download failed:", error);
+      setError(`Could not prepare the image for download: ${error.message}`);
+    }
   };
-  
-  const getAspectRatioValue = (ar: AspectRatio): number => {
-    switch (ar) {
-      case AspectRatio.SQUARE: return 1 / 1;
-      case AspectRatio.PORTRAIT: return 3 / 4;
-      case AspectRatio.LANDSCAPE: return 16 / 9;
-      default: return 1;
+
+  /**
+   * Describes the selected result by the inputs that produced it, followed by the edits
+   * leading to its active version, since the controls may have changed since.
+   */
+  const getExportMetadata = (): ExportMetadata => {
+    const inputs = selectedVariation ? variationInputsRef.current.get(selectedVariation.id) : undefined;
+    const edits = selectedVariation
+      ? selectedVariation.versions.slice(1, selectedVariation.activeVersionIndex + 1).map(version => version.instruction).filter(Boolean)
+      : [];
+    return {
+      sku: productName,
+      prompt: [inputs?.prompt ?? prompt, ...edits.map(instruction => `Edit: ${instruction}`)].join('\n\n'),
+      settings: inputs?.settings ?? styleSettings,
+      model: providerInfo.imageModel,
+    };
+  };
+
+  /**
+   * Opens the channel pack with the same image the export dialog gets, overlays included.
+   */
+  const handleOpenChannelPack = async () => {
+    if (!generatedImage) return;
+    try {
+      setChannelPackImage(await renderFinalImage(generatedImage, selectedVersion?.overlays ?? []));
+    } catch (err) {
+      const error = err as Error;
+      console.error("Preparing the channel pack failed:", error);
+      setError(`Could not prepare the image for the channel pack: ${error.message}`);
     }
   };
 
+  /**
+   * Resolves the settings shared by every item in the batch, generating the prompt first if needed.
+   */
+  const getBatchRunOptions = async (): Promise<BatchRunOptions | null> => {
+    let batchPrompt = prompt;
+    if (!batchPrompt) {
+      try {
+        batchPrompt = await generateDescriptivePrompt(styleSettings, styleReferences, activeBrandKit);
+        promptGenerator.resetPrompt(batchPrompt);
+      } catch (err) {
+        const error = err as Error;
+        setError(error.message || 'An unknown error occurred while generating the prompt.');
+        return null;
+      }
+    }
+    return { aspect: aspectValue, outputSize, prompt: batchPrompt, styleReferences };
+  };
+
+  const handleStartBatch = async () => {
+    setError(null);
+    const options = await getBatchRunOptions();
+    if (options) await batch.start(options);
+  };
+
+  const handleRetryBatchItem = async (id: string) => {
+    const options = await getBatchRunOptions();
+    if (options) await batch.retryItem(id, options);
+  };
+
+  const handleRetryFailedBatchItems = async () => {
+    const options = await getBatchRunOptions();
+    if (options) await batch.retryFailed(options);
+  };
+
+  const handleDownloadBatch = async () => {
+    try {
+      await batch.downloadAll(brandKit);
+    } catch (err) {
+      const error = err as Error;
+      console.error("Preparing the batch download failed:", error);
+      setError(`Could not prepare the batch download: ${error.message}`);
+    }
+  };
+
+  const maskImageSrc = maskTarget === 'product' ? (productImage && toDataUrl(productImage)) : generatedImage;
+
+  const queuedBatchCount = batch.items.filter(item => item.status === 'queued').length;
+
   return (
     <div className="min-h-screen bg-gray-900 text-gray-200 flex flex-col items-center p-4 sm:p-6 lg:p-8">
       <div className="w-full max-w-7xl">
@@ -143,18 +856,112 @@ export default function App() {
             AI Photo Studio
           </h1>
           <p className="mt-2 text-lg text-gray-400">Transform your product photos with Gemini</p>
+          {providerInfo.id === 'mock' && (
+            <p className="mt-2 inline-block text-xs font-semibold uppercase tracking-wide bg-yellow-900/50 text-yellow-200 border border-yellow-700 rounded-full px-3 py-1">
+              {providerInfo.label} provider: results are placeholders
+            </p>
+          )}
+          {hasPersonalKey && (
+            <p className="mt-2 inline-block text-xs font-semibold uppercase tracking-wide bg-indigo-900/50 text-indigo-200 border border-indigo-700 rounded-full px-3 py-1">
+              Using your personal API key
+            </p>
+          )}
+          <div className="mt-6 flex items-center justify-center gap-3">
+            <div className="inline-flex bg-gray-800 rounded-lg p-1" role="tablist" aria-label="Studio mode">
+              {([['single', 'Single Shot'], ['cutout', 'Cut-out'], ['batch', 'Batch Catalog']] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  role="tab"
+                  aria-selected={mode === value}
+                  onClick={() => setMode(value)}
+                  className={`px-4 py-2 rounded-md text-sm font-semibold transition-colors ${mode === value ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => setIsHistoryOpen(true)}
+              className="px-4 py-3 bg-gray-800 rounded-lg text-sm font-semibold text-gray-400 hover:text-white flex items-center gap-2 transition-colors"
+            >
+              <Icon type="clock" className="w-5 h-5" /> History
+            </button>
+            <button
+              onClick={() => setIsApiKeySettingsOpen(true)}
+              className="px-4 py-3 bg-gray-800 rounded-lg text-sm font-semibold text-gray-400 hover:text-white flex items-center gap-2 transition-colors"
+            >
+              <Icon type="key" className="w-5 h-5" /> API Key
+            </button>
+          </div>
         </header>
 
         {error && (
-            <div className="w-full bg-red-900/50 border border-red-700 text-red-200 p-4 rounded-lg flex items-center justify-between gap-4 mb-8" role="alert">
-                <div className="flex items-center gap-3">
+            <div className="w-full bg-red-900/50 border border-red-700 text-red-200 p-4 rounded-lg flex items-start justify-between gap-4 mb-8" role="alert">
+                <div className="flex items-start gap-3">
+                    <Icon type="alert" className="w-6 h-6 flex-shrink-0" />
+                    <div>
+                        <span className="font-medium">{error}</span>
+                        {errorAdvice?.message === error && <GenerationFailureDetails advice={errorAdvice.advice} />}
+                    </div>
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                    {errorRetry?.message === error && (
+                        <button
+                            onClick={handleRetryFailedRequest}
+                            className="flex items-center gap-1 font-semibold text-red-100 hover:text-white transition-colors"
+                        >
+                            <Icon type="retry" className="w-5 h-5" /> Retry
+                        </button>
+                    )}
+                    <button
+                        onClick={() => setError(null)}
+                        className="text-red-200 hover:text-white transition-colors"
+                        aria-label="Dismiss error message"
+                    >
+                        <Icon type="close" className="w-5 h-5" />
+                    </button>
+                </div>
+            </div>
+        )}
+
+        {uploadErrors.length > 0 && (
+            <div className="w-full bg-red-900/50 border border-red-700 text-red-200 p-4 rounded-lg flex items-start justify-between gap-4 mb-8" role="alert">
+                <div className="flex items-start gap-3">
                     <Icon type="alert" className="w-6 h-6 flex-shrink-0" />
-                    <span className="font-medium">{error}</span>
+                    <ul className="space-y-1 text-sm">
+                        {uploadErrors.map(report => (
+                            <li key={report.uploadId}>
+                                <span className="font-medium">{report.fileName}:</span> {report.error}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+                <button
+                    onClick={() => setUploadReports(prev => prev.filter(report => !report.error))}
+                    className="text-red-200 hover:text-white transition-colors flex-shrink-0"
+                    aria-label="Dismiss upload errors"
+                >
+                    <Icon type="close" className="w-5 h-5" />
+                </button>
+            </div>
+        )}
+
+        {uploadNotes.length > 0 && (
+            <div className="w-full bg-indigo-900/40 border border-indigo-700 text-indigo-100 p-4 rounded-lg flex items-start justify-between gap-4 mb-8" role="status">
+                <div className="flex items-start gap-3">
+                    <Icon type="image" className="w-6 h-6 flex-shrink-0" />
+                    <ul className="space-y-1 text-sm">
+                        {uploadNotes.map(note => (
+                            <li key={note.uploadId}>
+                                <span className="font-medium">{note.fileName}:</span> {note.changes.join('; ')}.
+                            </li>
+                        ))}
+                    </ul>
                 </div>
                 <button
-                    onClick={() => setError(null)}
-                    className="text-red-200 hover:text-white transition-colors"
-                    aria-label="Dismiss error message"
+                    onClick={() => setUploadReports(prev => prev.filter(report => report.error))}
+                    className="text-indigo-200 hover:text-white transition-colors flex-shrink-0"
+                    aria-label="Dismiss upload notes"
                 >
                     <Icon type="close" className="w-5 h-5" />
                 </button>
@@ -164,118 +971,395 @@ export default function App() {
         <main className="grid grid-cols-1 lg:grid-cols-12 gap-8">
           {/* Left: Inputs */}
           <div className="lg:col-span-4 space-y-6">
+            {mode === 'batch' ? (
+              <div className="bg-gray-800 p-6 rounded-2xl shadow-lg">
+                <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2"><Icon type="stack" />Product Photos</h2>
+                <FileUpload id="batch-upload" multiple onFileUpload={(file) => handleFileUpload(file, 'batch')} label="Add Product Images" accept={INPUT_FILE_ACCEPT} formatsLabel={INPUT_FORMATS_LABEL} allowUrlImport />
+                <div className="mt-3">
+                  <SelectControl
+                    label="Scale Uploads Down To"
+                    value={inputImageSettings.maxEdge === null ? '' : String(inputImageSettings.maxEdge)}
+                    onChange={(e) => handleInputImageSettingsChange({ ...inputImageSettings, maxEdge: e.target.value ? Number(e.target.value) : null })}
+                    options={MAX_EDGE_OPTIONS}
+                  />
+                </div>
+                <p className="mt-3 text-xs text-gray-500">
+                  Each image is center-cropped to the selected aspect ratio and shot with the shared style, reference and prompt.
+                </p>
+              </div>
+            ) : (
             <div className="bg-gray-800 p-6 rounded-2xl shadow-lg">
               <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2"><Icon type="image" />Product Photo</h2>
-              <FileUpload id="product-upload" onFileUpload={(file) => handleFileUpload(file, 'product')} label="Upload Main Image" />
+              <FileUpload id="product-upload" onFileUpload={(file) => handleFileUpload(file, 'product')} label="Upload Main Image" accept={INPUT_FILE_ACCEPT} formatsLabel={INPUT_FORMATS_LABEL} allowUrlImport />
+              <div className="mt-3">
+                <SelectControl
+                  label="Scale Uploads Down To"
+                  value={inputImageSettings.maxEdge === null ? '' : String(inputImageSettings.maxEdge)}
+                  onChange={(e) => handleInputImageSettingsChange({ ...inputImageSettings, maxEdge: e.target.value ? Number(e.target.value) : null })}
+                  options={MAX_EDGE_OPTIONS}
+                />
+              </div>
               {productImage && (
                  <div className="mt-4">
                     <div className="rounded-lg overflow-hidden border-2 border-gray-700 h-64 flex items-center justify-center bg-gray-900/50">
                         <img src={`data:${productImage.mimeType};base64,${productImage.base64}`} alt="Product Preview" className="max-w-full max-h-full object-contain"/>
                     </div>
-                     <button
-                        onClick={() => setIsCropModalOpen(true)}
-                        className="w-full mt-2 text-sm text-indigo-400 hover:text-indigo-300 font-semibold py-1 rounded"
-                        aria-label="Change image crop"
-                    >
-                        Change Crop
-                    </button>
+                    {needsRecrop && productSize && (
+                      <div className="mt-2 rounded-lg border border-yellow-700 bg-yellow-900/30 p-3 text-sm" role="status">
+                        <p className="flex items-start gap-2 text-yellow-200">
+                          <Icon type="alert" className="w-5 h-5 flex-shrink-0" />
+                          This crop is {productSize.width} × {productSize.height} px and does not match the {describeAspectRatio(styleSettings)} aspect ratio, so the model would get a different shape.
+                        </p>
+                        <button
+                          onClick={() => setIsCropModalOpen(true)}
+                          className="mt-2 px-3 py-1 bg-yellow-700 text-white text-sm font-semibold rounded-lg hover:bg-yellow-600 transition-colors"
+                        >
+                          Recrop Photo
+                        </button>
+                      </div>
+                    )}
+                    <div className="grid grid-cols-2 gap-2 mt-2">
+                      <button
+                          onClick={() => setIsCropModalOpen(true)}
+                          className="text-sm text-indigo-400 hover:text-indigo-300 font-semibold py-1 rounded"
+                          aria-label="Change image crop"
+                      >
+                          Change Crop
+                      </button>
+                      <button
+                          onClick={() => setMaskTarget('product')}
+                          className="text-sm text-indigo-400 hover:text-indigo-300 font-semibold py-1 rounded"
+                          aria-label="Edit a region of the product image"
+                      >
+                          Edit Region
+                      </button>
+                      {mode === 'single' && (
+                        <button
+                            onClick={() => setMode('cutout')}
+                            className="col-span-2 text-sm text-indigo-400 hover:text-indigo-300 font-semibold py-1 rounded"
+                            aria-label="Remove the product image background"
+                        >
+                            Remove Background
+                        </button>
+                      )}
+                    </div>
                 </div>
               )}
             </div>
+            )}
 
-             <div className="bg-gray-800 p-6 rounded-2xl shadow-lg">
-              <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2"><Icon type="palette" />Style Reference (Optional)</h2>
-              <FileUpload id="style-upload" onFileUpload={(file) => handleFileUpload(file, 'style')} label="Upload Style Image" />
-               {styleReferenceImage && (
-                <div className="relative mt-4">
-                  <div className="rounded-lg overflow-hidden border-2 border-gray-700 h-64 flex items-center justify-center bg-gray-900/50">
-                    <img src={`data:${styleReferenceImage.mimeType};base64,${styleReferenceImage.base64}`} alt="Style Reference Preview" className="max-w-full max-h-full object-contain"/>
-                  </div>
-                  <button
-                    onClick={handleClearStyleImage}
-                    className="absolute top-2 right-2 bg-gray-900 bg-opacity-60 text-white rounded-full p-1 hover:bg-opacity-80 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-white transition-colors"
-                    aria-label="Remove style reference image"
-                  >
-                    <Icon type="close" className="w-4 h-4" />
-                  </button>
-                </div>
-              )}
-            </div>
+            {mode !== 'cutout' && (
+              <div className="bg-gray-800 p-6 rounded-2xl shadow-lg">
+                <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2"><Icon type="palette" />Style References (Optional)</h2>
+                <StyleReferenceBoard
+                  references={styleReferences}
+                  onAddFile={(file) => handleFileUpload(file, 'style')}
+                  onChange={setStyleReferences}
+                />
+              </div>
+            )}
           </div>
           
-          {/* Middle: Controls */}
-          <div className="lg:col-span-4 space-y-6">
-            <div className="bg-gray-800 p-6 rounded-2xl shadow-lg h-full">
-              <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2"><Icon type="sliders" />Controls</h2>
-              <div className="space-y-4">
-                <SelectControl label="Aspect Ratio" value={aspectRatio} onChange={(e) => setAspectRatio(e.target.value as AspectRatio)} options={ASPECT_RATIO_OPTIONS} />
-                <SelectControl label="Lighting Style" value={lightingStyle} onChange={(e) => setLightingStyle(e.target.value as LightingStyle)} options={LIGHTING_STYLE_OPTIONS} />
-                <SelectControl label="Camera Perspective" value={cameraPerspective} onChange={(e) => setCameraPerspective(e.target.value as CameraPerspective)} options={CAMERA_PERSPECTIVE_OPTIONS} />
-              </div>
-              <div className="mt-6">
-                <h3 className="text-lg font-semibold text-white mb-2 flex items-center gap-2">
-                    <Icon type="sparkles" /> Generated Prompt
-                </h3>
-                 <div className="relative">
-                  <textarea
-                    value={prompt}
-                    onChange={(e) => setPrompt(e.target.value)}
-                    placeholder="Prompt will be generated here..."
-                    className="w-full h-48 p-3 bg-gray-900 border-2 border-gray-700 rounded-lg text-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+          {mode === 'cutout' ? (
+            <div className="lg:col-span-8">
+              <CutoutStudio
+                productImage={productImage}
+                productName={productName}
+                onUseAsProduct={handleUseCutoutAsProduct}
+                onError={setError}
+              />
+            </div>
+          ) : (
+            <>
+              {/* Middle: Controls */}
+              <div className="lg:col-span-4 space-y-6">
+                <div className="bg-gray-800 p-6 rounded-2xl shadow-lg h-full">
+                  <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2"><Icon type="sliders" />Controls</h2>
+                  <PresetPanel
+                    settings={styleSettings}
+                    styleReferences={styleReferences}
+                    prompt={prompt}
+                    onApply={handleApplyPreset}
                   />
-                  {isGeneratingPrompt && <Spinner className="absolute top-3 right-3" />}
+                  <div className="space-y-4">
+                    <AspectRatioControl
+                      aspectRatio={aspectRatio}
+                      customAspectRatio={customAspectRatio}
+                      outputSize={outputSize}
+                      onChange={handleAspectRatioChange}
+                    />
+                    <SelectControl label="Lighting Style" value={lightingStyle} onChange={(e) => setLightingStyle(e.target.value as LightingStyle)} options={LIGHTING_STYLE_OPTIONS} />
+                    <SelectControl label="Camera Perspective" value={cameraPerspective} onChange={(e) => setCameraPerspective(e.target.value as CameraPerspective)} options={CAMERA_PERSPECTIVE_OPTIONS} />
+                    {mode === 'single' && (
+                      <>
+                        <SelectControl label="Generation Strategy" value={generationStrategy} onChange={(e) => setGenerationStrategy(e.target.value as GenerationStrategy)} options={GENERATION_STRATEGY_OPTIONS} />
+                        <SelectControl label="Variations" value={String(variationCount)} onChange={(e) => setVariationCount(Number(e.target.value))} options={VARIATION_COUNT_OPTIONS} />
+                        {generationStrategy === 'edit' && (
+                          <FidelitySettingsControl settings={fidelitySettings} onChange={handleFidelitySettingsChange} />
+                        )}
+                      </>
+                    )}
+                  </div>
+                  <details className="mt-6 group">
+                    <summary className="cursor-pointer text-lg font-semibold text-white flex items-center gap-2 select-none">
+                      <Icon type="palette" /> Scene Details
+                      <span className="text-xs font-normal text-gray-500 group-open:hidden">background, palette, props, mood, lens…</span>
+                    </summary>
+                    <div className="mt-4">
+                      <SceneControls scene={scene} onChange={setScene} />
+                    </div>
+                  </details>
+                  <BrandKitPanel kit={brandKit} onChange={handleBrandKitChange} onError={setError} />
+                  <div className="mt-6">
+                    <h3 className="text-lg font-semibold text-white mb-2 flex items-center gap-2">
+                        <Icon type="sparkles" /> Generated Prompt
+                        {promptGenerator.isGenerating && <Spinner size="sm" />}
+                        <span className="ml-auto flex items-center gap-3 text-sm font-normal">
+                          <button
+                            onClick={() => promptGenerator.regenerate(styleSettings, styleReferences, activeBrandKit)}
+                            disabled={promptGenerator.isGenerating}
+                            className="text-indigo-400 hover:text-indigo-300 disabled:text-gray-600 disabled:cursor-not-allowed flex items-center gap-1"
+                            title="Generate a new prompt for the current settings"
+                          >
+                            <Icon type="retry" className="w-4 h-4" /> Regenerate
+                          </button>
+                          <button
+                            onClick={promptGenerator.isLocked ? promptGenerator.unlock : promptGenerator.lock}
+                            className={`flex items-center gap-1 ${promptGenerator.isLocked ? 'text-yellow-300 hover:text-yellow-200' : 'text-gray-400 hover:text-white'}`}
+                            aria-pressed={promptGenerator.isLocked}
+                            title={promptGenerator.isLocked ? 'Locked: new prompts wait for your review. Click to unlock.' : 'Lock the prompt so setting changes do not overwrite it'}
+                          >
+                            <Icon type={promptGenerator.isLocked ? 'lockClosed' : 'lockOpen'} className="w-4 h-4" />
+                            {promptGenerator.isLocked ? 'Locked' : 'Lock'}
+                          </button>
+                        </span>
+                    </h3>
+                    <PromptEditor prompt={prompt} generatedPrompt={promptGenerator.generatedPrompt} onChange={promptGenerator.editPrompt} />
+                    {promptGenerator.pendingPrompt !== null && (
+                      <PromptDiffView
+                        currentPrompt={prompt}
+                        pendingPrompt={promptGenerator.pendingPrompt}
+                        onAccept={promptGenerator.acceptPending}
+                        onMerge={promptGenerator.mergePending}
+                        onReject={promptGenerator.rejectPending}
+                      />
+                    )}
+                  </div>
+                  {mode === 'batch' ? (
+                    <button
+                      onClick={handleStartBatch}
+                      disabled={batch.isRunning || queuedBatchCount === 0}
+                      className="w-full mt-6 bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-indigo-700 disabled:bg-gray-500 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-all duration-300 transform hover:scale-105"
+                    >
+                      {batch.isRunning ? <><Spinner /> Processing batch...</> : <><Icon type="generate" /> Generate Batch ({queuedBatchCount})</>}
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleGenerateImage}
+                      disabled={isGeneratingImage || isRefining || !productImage}
+                      className="w-full mt-6 bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-indigo-700 disabled:bg-gray-500 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-all duration-300 transform hover:scale-105"
+                    >
+                      {isGeneratingImage ? <><Spinner /> Generating...</> : <><Icon type="generate" /> {variationCount > 1 ? `Generate ${variationCount} Variations` : 'Generate Image'}</>}
+                    </button>
+                  )}
                 </div>
               </div>
-              <button
-                onClick={handleGenerateImage}
-                disabled={isGeneratingImage || !productImage}
-                className="w-full mt-6 bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-indigo-700 disabled:bg-gray-500 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-all duration-300 transform hover:scale-105"
-              >
-                {isGeneratingImage ? <><Spinner /> Generating...</> : <><Icon type="generate" /> Generate Image</>}
-              </button>
-            </div>
-          </div>
 
-          {/* Right: Output */}
-          <div className="lg:col-span-4">
-            <div className="bg-gray-800 p-6 rounded-2xl shadow-lg h-full flex flex-col">
-               <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2"><Icon type="photo" />Result</h2>
-              <div className="w-full aspect-square bg-gray-900 rounded-lg flex items-center justify-center border-2 border-dashed border-gray-700 flex-grow">
-                {isGeneratingImage && (
-                  <div className="text-center">
-                    <Spinner size="lg" />
-                    <p className="mt-2 text-gray-400">Conjuring pixels... this can take a moment.</p>
+              {/* Right: Output */}
+              <div className="lg:col-span-4">
+                {mode === 'batch' ? (
+                  <div className="bg-gray-800 p-6 rounded-2xl shadow-lg h-full flex flex-col">
+                    <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2"><Icon type="stack" />Batch Queue</h2>
+                    <BatchQueue
+                      items={batch.items}
+                      isRunning={batch.isRunning}
+                      onRetryItem={handleRetryBatchItem}
+                      onRetryFailed={handleRetryFailedBatchItems}
+                      onRemoveItem={batch.removeItem}
+                      onClear={batch.clear}
+                      onDownloadAll={handleDownloadBatch}
+                      onCancel={batch.cancel}
+                    />
                   </div>
-                )}
-                {!isGeneratingImage && generatedImage && (
-                  <img src={generatedImage} alt="Generated result" className="w-full h-full object-contain rounded-lg"/>
-                )}
-                {!isGeneratingImage && !generatedImage && (
-                   <div className="text-center text-gray-500">
-                     <Icon type="photo" className="w-16 h-16 mx-auto mb-2" />
-                     Your generated image will appear here.
-                   </div>
+                ) : (
+                <div className="bg-gray-800 p-6 rounded-2xl shadow-lg h-full flex flex-col">
+                   <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2"><Icon type="photo" />Result</h2>
+                  <div className="w-full aspect-square bg-gray-900 rounded-lg flex items-center justify-center border-2 border-dashed border-gray-700 flex-grow">
+                    {isGeneratingImage && (
+                      <div className="text-center">
+                        <Spinner size="lg" />
+                        <p className="mt-2 text-gray-400">Conjuring pixels... this can take a moment.</p>
+                        <button
+                          onClick={() => generationControllerRef.current?.abort()}
+                          className="mt-4 px-4 py-2 bg-gray-700 text-gray-200 font-semibold rounded-lg hover:bg-gray-600 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    )}
+                    {!isGeneratingImage && generatedImage && (
+                      <div className="relative w-full h-full">
+                        <img src={displayedImage ?? generatedImage} alt="Generated result" className="w-full h-full object-contain rounded-lg"/>
+                        {isRefining && (
+                          <div className="absolute inset-0 bg-gray-900/70 rounded-lg flex flex-col items-center justify-center">
+                            <Spinner size="lg" />
+                            <p className="mt-2 text-gray-300">Applying your refinement...</p>
+                            <button
+                              onClick={() => refineControllerRef.current?.abort()}
+                              className="mt-4 px-4 py-2 bg-gray-700 text-gray-200 font-semibold rounded-lg hover:bg-gray-600 transition-colors"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    {!isGeneratingImage && !generatedImage && (
+                       <div className="text-center text-gray-500">
+                         <Icon type="photo" className="w-16 h-16 mx-auto mb-2" />
+                         Your generated image will appear here.
+                       </div>
+                    )}
+                  </div>
+                  {selectedVersion?.composite && !isGeneratingImage && (
+                    <CompositeControls
+                      key={selectedVersion.id}
+                      layout={selectedVersion.composite.layout}
+                      isRendering={isCompositing}
+                      onChange={handleCompositeLayoutChange}
+                    />
+                  )}
+                  {paletteReport && !isGeneratingImage && <BrandPaletteWarning report={paletteReport} />}
+                  {selectedVersion?.modelNote && !isGeneratingImage && (
+                    <p className="mt-3 text-sm text-gray-400 whitespace-pre-line">
+                      <span className="font-semibold text-gray-300">Model note:</span> {selectedVersion.modelNote}
+                    </p>
+                  )}
+                  {selectedVariation && !isGeneratingImage && (
+                    <FidelityReportView
+                      report={getActiveVersion(selectedVariation).fidelity}
+                      isRetrying={fidelityRetryIds.includes(selectedVariation.id)}
+                      onRetry={handleRetryFidelity}
+                    />
+                  )}
+                  {selectedVariation && !isGeneratingImage && (
+                    <RefinementPanel
+                      key={selectedVariation.id}
+                      variation={selectedVariation}
+                      isRefining={isRefining}
+                      onRefine={handleRefine}
+                      onSelectVersion={handleSelectVersion}
+                    />
+                  )}
+                  <VariationGrid
+                    variations={variations}
+                    selectedId={selectedVariationId}
+                    onSelect={setSelectedVariationId}
+                    onToggleFavorite={handleToggleFavorite}
+                    onClearUnstarred={handleClearUnstarred}
+                  />
+                   {generatedImage && !isGeneratingImage && (
+                    <div className="grid grid-cols-2 gap-2 mt-4">
+                      <button
+                        onClick={handleUseAsInput}
+                        className="bg-gray-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-gray-500 flex items-center justify-center gap-2 transition-colors"
+                        aria-label="Use selected result as the product image"
+                      >
+                        <Icon type="image" className="w-5 h-5" />
+                        <span>Use as Input</span>
+                      </button>
+                      <button
+                        onClick={() => setMaskTarget('result')}
+                        disabled={isRefining}
+                        className="bg-gray-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors"
+                        aria-label="Edit a region of the selected result"
+                      >
+                        <Icon type="brush" className="w-5 h-5" />
+                        <span>Edit Region</span>
+                      </button>
+                      <button
+                        onClick={() => setIsOverlayEditorOpen(true)}
+                        className="col-span-2 bg-gray-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-gray-500 flex items-center justify-center gap-2 transition-colors"
+                        aria-label="Add text and badges to the selected result"
+                      >
+                        <Icon type="tag" className="w-5 h-5" />
+                        <span>Text &amp; Badges{selectedVersion?.overlays?.length ? ` (${selectedVersion.overlays.length})` : ''}</span>
+                      </button>
+                      <button
+                        onClick={handleOpenChannelPack}
+                        className="col-span-2 bg-gray-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-gray-500 flex items-center justify-center gap-2 transition-colors"
+                        aria-label="Export marketplace channel pack"
+                      >
+                        <Icon type="stack" className="w-5 h-5" />
+                        <span>Channel Pack (Amazon, Shopify, Etsy)</span>
+                      </button>
+                      <button
+                        onClick={handleDownloadImage}
+                        className="col-span-2 bg-green-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-green-700 flex items-center justify-center gap-2 transition-colors"
+                        aria-label="Download generated image"
+                      >
+                        <Icon type="download" className="w-5 h-5" />
+                        <span>Export Image</span>
+                      </button>
+                    </div>
+                  )}
+                </div>
                 )}
               </div>
-               {generatedImage && !isGeneratingImage && (
-                <button
-                  onClick={handleDownloadImage}
-                  className="w-full mt-4 bg-green-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-green-700 flex items-center justify-center gap-2 transition-colors"
-                  aria-label="Download generated image"
-                >
-                  <Icon type="download" className="w-5 h-5" />
-                  <span>Download Image</span>
-                </button>
-              )}
-            </div>
-          </div>
+            </>
+          )}
         </main>
       </div>
+      {isHistoryOpen && (
+        <HistoryGalleryModal
+          onRestore={handleRestoreHistoryEntry}
+          onRerun={handleRerunHistoryEntry}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+      {isApiKeySettingsOpen && (
+        <ApiKeySettingsModal
+          onChange={setHasPersonalKey}
+          onClose={() => setIsApiKeySettingsOpen(false)}
+        />
+      )}
+      {maskTarget && maskImageSrc && (
+        <MaskEditorModal
+          imageSrc={maskImageSrc}
+          title={maskTarget === 'product' ? 'Edit Product Region' : 'Edit Result Region'}
+          onApply={handleApplyMask}
+          onClose={() => setMaskTarget(null)}
+        />
+      )}
+      {isOverlayEditorOpen && generatedImage && (
+        <OverlayEditorModal
+          imageSrc={generatedImage}
+          layers={selectedVersion?.overlays ?? []}
+          onSave={handleSaveOverlays}
+          onClose={() => setIsOverlayEditorOpen(false)}
+        />
+      )}
+      {exportImageSrc && (
+        <ExportModal
+          imageSrc={exportImageSrc}
+          metadata={getExportMetadata()}
+          onClose={() => setExportImageSrc(null)}
+        />
+      )}
+      {channelPackImage && (
+        <ChannelPackModal
+          resultImage={channelPackImage}
+          productImage={productImage && toDataUrl(productImage)}
+          productName={productName}
+          onClose={() => setChannelPackImage(null)}
+        />
+      )}
       {isCropModalOpen && originalProductImage && (
         <ImageCropModal
           imageSrc={originalProductImage.dataUrl}
           mimeType={originalProductImage.mimeType}
-          aspect={getAspectRatioValue(aspectRatio)}
+          aspect={aspectValue}
+          initialOptions={cropOptions}
           onSave={handleCropSave}
           onClose={() => setIsCropModalOpen(false)}
         />
@@ -0,0 +1,327 @@
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { basename, join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { StyleReference, StyleSettings } from '../types';
+import { getAspectRatioValue } from '../constants';
+import { generateDescriptivePrompt, generateVariations, getProviderInfo } from '../services/geminiService';
+import { parsePresetFile, parseStyleSettings, PRESET_FILE_FORMAT } from '../services/presetService';
+import { setImageProvider } from '../services/providers';
+import { createGeminiProvider } from '../services/providers/geminiProvider';
+import { createDirectTransport } from '../services/providers/geminiTransport';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { runWithConcurrency } from '../services/concurrency';
+import { BATCH_CONCURRENCY } from '../services/batchService';
+import { dataUrlToBase64Image } from '../services/imageUtils';
+import { getBaseName, getExtensionForMimeType } from '../services/downloadUtils';
+import { getErrorDiagnostics } from '../services/studioErrors';
+import { fitToOutputSize, getCenterCrop, listProductImages, needsCrop, prepareForAspect, readImageFile, readImageSize, toBase64Image, turnUpright } from './imageFiles';
+import { CliManifest, createManifestItem, loadManifest, MANIFEST_FILE_NAME, MANIFEST_FORMAT, MANIFEST_VERSION, saveManifest } from './manifest';
+
+/*
+ * Generates product shots for a folder of images without the studio UI, using the same
+ * prompts and edit requests. Build and run it with `npm run generate -- <options>`; see
+ * the README for the options and the manifest it writes.
+ */
+
+const MAX_VARIATIONS = 8;
+
+const USAGE = `Usage: npm run generate -- --input <dir> --settings <file> --output <dir> [options]
+
+  -i, --input <dir>         Folder of PNG, JPEG or WebP product images.
+  -s, --settings <file>     A preset file exported from the studio, or a JSON file of style settings.
+  -o, --output <dir>        Folder for the results and ${MANIFEST_FILE_NAME}.
+  -p, --preset <name>       Which preset to use when the file holds several. Defaults to the first.
+  -n, --variations <count>  Images per product, 1 to ${MAX_VARIATIONS}. Defaults to 1.
+      --provider <id>       gemini (needs GEMINI_API_KEY) or mock. Defaults to gemini.
+      --no-crop             Send images uncropped instead of cropping them to the aspect ratio.
+      --resume              Continue a run in the output folder, skipping finished images.
+      --dry-run             Check the inputs and show what would run, without calling the model.
+  -h, --help                Show this help.`;
+
+/**
+ * A problem with the command line itself, reported with the usage text.
+ */
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+interface CliOptions {
+    inputDir: string;
+    settingsFile: string;
+    outputDir: string;
+    presetName: string | null;
+    variations: number;
+    providerId: 'gemini' | 'mock';
+    crop: boolean;
+    resume: boolean;
+    dryRun: boolean;
+}
+
+interface LoadedStyle {
+    presetName: string | null;
+    settings: StyleSettings;
+    styleReferences: StyleReference[];
+    lockedPrompt: string | null;
+}
+
+const parseOptions = (args: string[]): CliOptions | null => {
+    const { values } = parseArgs({
+        args,
+        options: {
+            input: { type: 'string', short: 'i' },
+            settings: { type: 'string', short: 's' },
+            output: { type: 'string', short: 'o' },
+            preset: { type: 'string', short: 'p' },
+            variations: { type: 'string', short: 'n', default: '1' },
+            provider: { type: 'string', default: 'gemini' },
+            'no-crop': { type: 'boolean', default: false },
+            resume: { type: 'boolean', default: false },
+            'dry-run': { type: 'boolean', default: false },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+    if (values.help) return null;
+
+    const missing = (['input', 'settings', 'output'] as const).filter(name => !values[name]);
+    if (missing.length > 0) {
+        throw new UsageError(`Missing ${missing.map(name => `--${name}`).join(', ')}.`);
+    }
+    const variations = Number(values.variations);
+    if (!Number.isInteger(variations) || variations < 1 || variations > MAX_VARIATIONS) {
+        throw new UsageError(`--variations must be a whole number from 1 to ${MAX_VARIATIONS}.`);
+    }
+    if (values.provider !== 'gemini' && values.provider !== 'mock') {
+        throw new UsageError(`Unknown provider "${values.provider}". Expected gemini or mock.`);
+    }
+    return {
+        inputDir: resolve(values.input!),
+        settingsFile: resolve(values.settings!),
+        outputDir: resolve(values.output!),
+        presetName: values.preset ?? null,
+        variations,
+        providerId: values.provider,
+        crop: !values['no-crop'],
+        resume: values.resume,
+        dryRun: values['dry-run'],
+    };
+};
+
+/**
+ * Reads the style from a preset file, picking the named preset, or from a bare settings
+ * object such as the `settings` of a single preset.
+ */
+const loadStyle = async (settingsFile: string, presetName: string | null): Promise<LoadedStyle> => {
+    const text = await readFile(settingsFile, 'utf8');
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new UsageError(`${settingsFile} is not valid JSON.`);
+    }
+    if ((data as { format?: unknown } | null)?.format !== PRESET_FILE_FORMAT) {
+        if (presetName) {
+            throw new UsageError(`--preset was given, but ${settingsFile} is not a preset file.`);
+        }
+        return { presetName: null, settings: parseStyleSettings(data, basename(settingsFile)), styleReferences: [], lockedPrompt: null };
+    }
+    const presets = parsePresetFile(text);
+    if (presets.length === 0) {
+        throw new UsageError(`${settingsFile} does not contain any presets.`);
+    }
+    const preset = presetName ? presets.find(candidate => candidate.name === presetName) : presets[0];
+    if (!preset) {
+        throw new UsageError(`No preset named "${presetName}". The file has: ${presets.map(candidate => `"${candidate.name}"`).join(', ')}.`);
+    }
+    if (!presetName && presets.length > 1) {
+        console.warn(`${settingsFile} holds ${presets.length} presets; using "${preset.name}". Pick another with --preset.`);
+    }
+    return { presetName: preset.name, settings: preset.settings, styleReferences: preset.styleReferences, lockedPrompt: preset.lockedPrompt };
+};
+
+/**
+ * The CLI calls Google directly with the caller's own key; the studio proxy and its
+ * request limits are for browsers.
+ */
+const installProvider = (providerId: CliOptions['providerId'], required: boolean): string | null => {
+    if (providerId === 'mock') {
+        setImageProvider(createMockProvider(0));
+        return null;
+    }
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+        const problem = 'GEMINI_API_KEY is not set. Export it, or pass --provider mock.';
+        if (required) throw new UsageError(problem);
+        return problem;
+    }
+    setImageProvider(createGeminiProvider(createDirectTransport(apiKey)));
+    return null;
+};
+
+const getOutputName = (source: string, index: number, count: number, mimeType: string): string =>
+    `${getBaseName(source)}${count > 1 ? `-${index + 1}` : ''}.${getExtensionForMimeType(mimeType)}`;
+
+const isFinished = (outputDir: string, item: CliManifest['items'][number]): boolean =>
+    item.status === 'succeeded' && item.outputs.every(output => existsSync(join(outputDir, output)));
+
+/**
+ * Shows the crop each input would get and whether the run could start, without calling
+ * the model or writing anything.
+ */
+const dryRun = async (options: CliOptions, style: LoadedStyle, sources: string[]): Promise<number> => {
+    const aspect = getAspectRatioValue(style.settings.aspectRatio, style.settings.customAspectRatio);
+    const existing = loadManifest(options.outputDir);
+    let problems = 0;
+    console.log(`Style: ${style.presetName ? `preset "${style.presetName}"` : basename(options.settingsFile)}`);
+    console.log(`Prompt: ${existing ? 'reused from the existing manifest' : style.lockedPrompt ? 'locked in the preset' : 'written by the prompt model'}`);
+    const providerProblem = installProvider(options.providerId, false);
+    if (providerProblem) {
+        console.log(`Provider: ${providerProblem}`);
+        problems++;
+    } else {
+        const { id, imageModel } = getProviderInfo();
+        console.log(`Provider: ${id} (${imageModel}), ${options.variations} image(s) per product`);
+    }
+    const { outputSize } = style.settings;
+    if (outputSize) {
+        console.log(`Output size: ${outputSize.width}x${outputSize.height}`);
+    }
+    if (existing && !options.resume) {
+        console.log(`Output: ${options.outputDir} already has a manifest; pass --resume to continue it.`);
+        problems++;
+    }
+
+    for (const source of sources) {
+        const previous = existing?.items.find(item => item.source === source);
+        if (options.resume && previous && isFinished(options.outputDir, previous)) {
+            console.log(`  ${source}: already done`);
+            continue;
+        }
+        const file = await readImageFile(join(options.inputDir, source));
+        const size = await readImageSize(file);
+        if (!size) {
+            console.log(`  ${source}: could not read the image size`);
+            problems++;
+        } else if (!options.crop || !needsCrop(size, aspect)) {
+            console.log(`  ${source}: ${size.width}x${size.height}, sent as is`);
+        } else {
+            const crop = getCenterCrop(size, aspect);
+            console.log(`  ${source}: ${size.width}x${size.height}, cropped to ${crop.width}x${crop.height}`);
+        }
+    }
+    return problems > 0 ? 1 : 0;
+};
+
+const run = async (options: CliOptions): Promise<number> => {
+    const style = await loadStyle(options.settingsFile, options.presetName);
+    const sources = await listProductImages(options.inputDir);
+    if (sources.length === 0) {
+        throw new UsageError(`${options.inputDir} has no PNG, JPEG or WebP images.`);
+    }
+    if (options.dryRun) {
+        return dryRun(options, style, sources);
+    }
+
+    installProvider(options.providerId, true);
+    const existing = loadManifest(options.outputDir);
+    if (existing && !options.resume) {
+        throw new UsageError(`${options.outputDir} already has a manifest. Pass --resume to continue it, or pick another folder.`);
+    }
+    if (existing && JSON.stringify(existing.settings) !== JSON.stringify(style.settings)) {
+        throw new UsageError(`The style settings differ from the ones ${options.outputDir} was started with; use a new output folder.`);
+    }
+    if (existing && existing.variations !== options.variations) {
+        throw new UsageError(`${options.outputDir} was started with --variations ${existing.variations}.`);
+    }
+    mkdirSync(options.outputDir, { recursive: true });
+
+    const { id, promptModel, imageModel } = getProviderInfo();
+    let prompt = existing?.prompt ?? style.lockedPrompt;
+    if (!prompt) {
+        console.log('Writing the prompt...');
+        prompt = await generateDescriptivePrompt(style.settings, style.styleReferences, null);
+    }
+    const now = new Date().toISOString();
+    const manifest: CliManifest = {
+        format: MANIFEST_FORMAT,
+        version: MANIFEST_VERSION,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        inputDir: options.inputDir,
+        settingsFile: options.settingsFile,
+        presetName: style.presetName,
+        settings: style.settings,
+        prompt,
+        variations: options.variations,
+        provider: { id, promptModel, imageModel },
+        items: sources.map(source =>
+            existing?.items.find(item => item.source === source) ?? createManifestItem(source, prompt!, imageModel)
+        ),
+    };
+    saveManifest(options.outputDir, manifest);
+
+    const aspect = getAspectRatioValue(style.settings.aspectRatio, style.settings.customAspectRatio);
+    const todo = manifest.items.filter(item => !isFinished(options.outputDir, item));
+    const skipped = manifest.items.length - todo.length;
+    console.log(`Generating ${todo.length} product(s)${skipped > 0 ? `, ${skipped} already done` : ''}.`);
+
+    await runWithConcurrency(todo, BATCH_CONCURRENCY, async (item) => {
+        Object.assign(item, createManifestItem(item.source, prompt!, imageModel));
+        try {
+            const file = await readImageFile(join(options.inputDir, item.source));
+            const prepared = options.crop
+                ? await prepareForAspect(file, aspect)
+                : { image: toBase64Image(await turnUpright(file)), crop: null };
+            item.crop = prepared.crop;
+            const results = await generateVariations(prepared.image, prompt!, style.styleReferences, options.variations);
+            const outputSize = style.settings.outputSize;
+            item.outputs = await Promise.all(results.map(async ({ imageUrl }, index) => {
+                const generated = dataUrlToBase64Image(imageUrl);
+                const image = outputSize ? await fitToOutputSize(generated, outputSize) : generated;
+                const output = getOutputName(item.source, index, options.variations, image.mimeType);
+                writeFileSync(join(options.outputDir, output), Buffer.from(image.base64, 'base64'));
+                return output;
+            }));
+            item.modelNote = results.map(result => result.diagnostics.modelText).filter(Boolean).join('\n\n') || null;
+            item.status = 'succeeded';
+            if (results.length < options.variations) {
+                item.error = `${options.variations - results.length} of ${options.variations} variations failed.`;
+            }
+            console.log(`  ${item.source}: ${item.outputs.join(', ')}`);
+        } catch (error) {
+            item.status = 'failed';
+            item.error = error instanceof Error ? error.message : String(error);
+            item.diagnostics = getErrorDiagnostics(error);
+            console.error(`  ${item.source}: failed: ${item.error}`);
+        }
+        item.finishedAt = new Date().toISOString();
+        saveManifest(options.outputDir, manifest);
+    });
+
+    const failed = manifest.items.filter(item => item.status === 'failed').length;
+    console.log(`Done: ${manifest.items.length - failed} succeeded, ${failed} failed. See ${join(options.outputDir, MANIFEST_FILE_NAME)}.`);
+    return failed > 0 ? 1 : 0;
+};
+
+const main = async () => {
+    try {
+        const options = parseOptions(process.argv.slice(2));
+        if (!options) {
+            console.log(USAGE);
+            return;
+        }
+        process.exitCode = await run(options);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(message);
+        if (error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+            console.error(`\n${USAGE}`);
+        }
+        process.exitCode = 2;
+    }
+};
+
+void main();
@@ -0,0 +1,191 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import sharp, { Sharp } from 'sharp';
+import { Base64Image, Dimensions } from '../types';
+import { getBaseName } from '../services/downloadUtils';
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.webp': 'image/webp',
+};
+
+/** Images within this relative distance of the target aspect ratio are not cropped. */
+const ASPECT_TOLERANCE = 0.01;
+/** Matches the studio's `fitImageToSize`. */
+const ENCODE_QUALITY = 95;
+/** Side of the thumbnail whose edge pixels give the padding color, as in the studio. */
+const BORDER_SAMPLE_SIZE = 32;
+
+export interface ImageFile {
+    bytes: Uint8Array;
+    mimeType: string;
+}
+
+/**
+ * The region kept by a centered crop, in source pixels.
+ */
+export interface CropRegion extends Dimensions {
+    x: number;
+    y: number;
+}
+
+export interface PreparedImage {
+    image: Base64Image;
+    /** The size the source was cropped to; null when it already had the right shape. */
+    crop: Dimensions | null;
+}
+
+/**
+ * Lists the PNG, JPEG and WebP files directly inside `dir`, sorted by name. Results are
+ * named after their source, so two sources differing only in extension are refused.
+ */
+export const listProductImages = async (dir: string): Promise<string[]> => {
+    const entries = await readdir(dir, { withFileTypes: true });
+    const names = entries
+        .filter(entry => entry.isFile() && MIME_TYPES_BY_EXTENSION[extname(entry.name).toLowerCase()])
+        .map(entry => entry.name)
+        .sort((a, b) => a.localeCompare(b));
+    const seen = new Map<string, string>();
+    names.forEach(name => {
+        const base = getBaseName(name).toLowerCase();
+        const other = seen.get(base);
+        if (other) {
+            throw new Error(`"${other}" and "${name}" would write the same result files; rename one of them.`);
+        }
+        seen.set(base, name);
+    });
+    return names;
+};
+
+export const readImageFile = async (path: string): Promise<ImageFile> => {
+    const mimeType = MIME_TYPES_BY_EXTENSION[extname(path).toLowerCase()];
+    if (!mimeType) {
+        throw new Error(`${path} is not a PNG, JPEG or WebP image.`);
+    }
+    return { bytes: new Uint8Array(await readFile(path)), mimeType };
+};
+
+export const toBase64Image = (file: ImageFile): Base64Image => ({
+    base64: Buffer.from(file.bytes).toString('base64'),
+    mimeType: file.mimeType,
+});
+
+/**
+ * The largest centered region with the given aspect ratio (width / height), matching the
+ * studio's `cropImageToAspect`.
+ */
+export const getCenterCrop = ({ width, height }: Dimensions, aspect: number): CropRegion => {
+    let cropWidth = width;
+    let cropHeight = Math.round(width / aspect);
+    if (cropHeight > height) {
+        cropHeight = height;
+        cropWidth = Math.round(height * aspect);
+    }
+    return { x: Math.floor((width - cropWidth) / 2), y: Math.floor((height - cropHeight) / 2), width: cropWidth, height: cropHeight };
+};
+
+export const needsCrop = (size: Dimensions, aspect: number): boolean =>
+    Math.abs(size.width / size.height - aspect) / aspect > ASPECT_TOLERANCE;
+
+/**
+ * Reads the pixel size, turned upright as the model will see it, without decoding the
+ * image. Returns null when the file cannot be read as an image.
+ */
+export const readImageSize = async (file: ImageFile): Promise<Dimensions | null> => {
+    try {
+        const { width, height, orientation } = await sharp(file.bytes).metadata();
+        if (!width || !height) return null;
+        // EXIF orientations 5 to 8 swap width and height.
+        return (orientation ?? 1) >= 5 ? { width: height, height: width } : { width, height };
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Encodes in the format the image came in, so cropping and resizing do not change its type.
+ */
+const encodeAs = async (pipeline: Sharp, mimeType: string): Promise<ImageFile> => {
+    if (mimeType === 'image/jpeg') {
+        return { bytes: new Uint8Array(await pipeline.jpeg({ quality: ENCODE_QUALITY }).toBuffer()), mimeType };
+    }
+    if (mimeType === 'image/webp') {
+        return { bytes: new Uint8Array(await pipeline.webp({ quality: ENCODE_QUALITY }).toBuffer()), mimeType };
+    }
+    return { bytes: new Uint8Array(await pipeline.png().toBuffer()), mimeType: 'image/png' };
+};
+
+/**
+ * The average color along the image's edge, sampled the way the studio pads resized results.
+ */
+const getBorderColor = async (bytes: Uint8Array): Promise<{ r: number, g: number, b: number }> => {
+    const data = await sharp(bytes)
+        .rotate()
+        .resize(BORDER_SAMPLE_SIZE, BORDER_SAMPLE_SIZE, { fit: 'fill' })
+        .removeAlpha()
+        .raw()
+        .toBuffer();
+    const total = [0, 0, 0];
+    let count = 0;
+    for (let y = 0; y < BORDER_SAMPLE_SIZE; y++) {
+        for (let x = 0; x < BORDER_SAMPLE_SIZE; x++) {
+            if (x !== 0 && y !== 0 && x !== BORDER_SAMPLE_SIZE - 1 && y !== BORDER_SAMPLE_SIZE - 1) continue;
+            const i = (y * BORDER_SAMPLE_SIZE + x) * 3;
+            total[0] += data[i];
+            total[1] += data[i + 1];
+            total[2] += data[i + 2];
+            count++;
+        }
+    }
+    const [r, g, b] = total.map(sum => Math.round(sum / count));
+    return { r, g, b };
+};
+
+/**
+ * Applies the EXIF orientation, so the model gets the photo the right way up.
+ */
+export const turnUpright = (file: ImageFile): Promise<ImageFile> => encodeAs(sharp(file.bytes).rotate(), file.mimeType);
+
+/**
+ * Turns the image upright, then center-crops it to the aspect ratio as the studio does
+ * before generating. One that already has the right shape is only turned upright.
+ */
+export const prepareForAspect = async (file: ImageFile, aspect: number): Promise<PreparedImage> => {
+    // Decode once, upright, so the crop is measured on the pixels the model will see.
+    const { data, info } = await sharp(file.bytes).rotate().raw().toBuffer({ resolveWithObject: true });
+    const upright = () => sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } });
+    const size = { width: info.width, height: info.height };
+    if (!needsCrop(size, aspect)) {
+        return { image: toBase64Image(await encodeAs(upright(), file.mimeType)), crop: null };
+    }
+    const region = getCenterCrop(size, aspect);
+    const cropped = await encodeAs(
+        upright().extract({ left: region.x, top: region.y, width: region.width, height: region.height }),
+        file.mimeType
+    );
+    return { image: toBase64Image(cropped), crop: { width: region.width, height: region.height } };
+};
+
+/**
+ * Resizes a result to exact pixel dimensions, as the studio's `fitImageToSize` does:
+ * near-matching ratios are filled edge to edge, others are fitted inside and padded with
+ * the image's own border color.
+ */
+export const fitToOutputSize = async (image: Base64Image, size: Dimensions): Promise<Base64Image> => {
+    const bytes = new Uint8Array(Buffer.from(image.base64, 'base64'));
+    const current = await readImageSize({ bytes, mimeType: image.mimeType });
+    if (!current) {
+        throw new Error('Could not read the size of the generated image.');
+    }
+    if (current.width === size.width && current.height === size.height) {
+        return image;
+    }
+    const aspectDelta = Math.abs((current.width / current.height) / (size.width / size.height) - 1);
+    const shouldPad = aspectDelta >= ASPECT_TOLERANCE;
+    const pipeline = sharp(bytes).rotate().resize(size.width, size.height, shouldPad
+        ? { fit: 'contain', background: await getBorderColor(bytes) }
+        : { fit: 'cover' });
+    return toBase64Image(await encodeAs(pipeline, image.mimeType));
+};
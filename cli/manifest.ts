@@ -0,0 +1,88 @@
+import { readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { Dimensions, GenerationDiagnostics, StyleSettings } from '../types';
+
+export const MANIFEST_FILE_NAME = 'manifest.json';
+export const MANIFEST_FORMAT = 'ai-photo-studio/cli-manifest';
+export const MANIFEST_VERSION = 1;
+
+export type ManifestItemStatus = 'pending' | 'succeeded' | 'failed';
+
+/**
+ * The record of one product image: what was sent, what came back and why it failed.
+ */
+export interface ManifestItem {
+    /** File name in the input directory. */
+    source: string;
+    status: ManifestItemStatus;
+    /** File names in the output directory. */
+    outputs: string[];
+    prompt: string;
+    model: string;
+    /** The size the source was cropped to; null when it was sent as it was. */
+    crop: Dimensions | null;
+    error: string | null;
+    /** The model's own diagnostics for a failed request, when it gave any. */
+    diagnostics: GenerationDiagnostics | null;
+    /** Text the model returned alongside the image. */
+    modelNote: string | null;
+    finishedAt: string | null;
+}
+
+export interface CliManifest {
+    format: typeof MANIFEST_FORMAT;
+    version: number;
+    createdAt: string;
+    updatedAt: string;
+    inputDir: string;
+    settingsFile: string;
+    presetName: string | null;
+    settings: StyleSettings;
+    /** Shared by every item, so a resumed run matches the images made before it stopped. */
+    prompt: string;
+    variations: number;
+    provider: { id: string, promptModel: string, imageModel: string };
+    items: ManifestItem[];
+}
+
+export const createManifestItem = (source: string, prompt: string, model: string): ManifestItem => ({
+    source,
+    status: 'pending',
+    outputs: [],
+    prompt,
+    model,
+    crop: null,
+    error: null,
+    diagnostics: null,
+    modelNote: null,
+    finishedAt: null,
+});
+
+/**
+ * Reads the manifest left in `outputDir` by an earlier run, or null if there is none.
+ */
+export const loadManifest = (outputDir: string): CliManifest | null => {
+    let text: string;
+    try {
+        text = readFileSync(join(outputDir, MANIFEST_FILE_NAME), 'utf8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+    }
+    const manifest = JSON.parse(text) as CliManifest;
+    if (manifest.format !== MANIFEST_FORMAT || manifest.version > MANIFEST_VERSION) {
+        throw new Error(`${join(outputDir, MANIFEST_FILE_NAME)} is not a manifest this version of the CLI can resume.`);
+    }
+    return manifest;
+};
+
+/**
+ * Writes the manifest through a temporary file, so an interrupted run never leaves a
+ * half-written one behind.
+ */
+export const saveManifest = (outputDir: string, manifest: CliManifest) => {
+    manifest.updatedAt = new Date().toISOString();
+    const path = join(outputDir, MANIFEST_FILE_NAME);
+    writeFileSync(`${path}.tmp`, JSON.stringify(manifest, null, 2));
+    renameSync(`${path}.tmp`, path);
+};
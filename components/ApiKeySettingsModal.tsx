@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { clearPersonalApiKey, loadPersonalApiKey, savePersonalApiKey } from '../services/apiKeyStorage';
+import { getProviderInfo } from '../services/geminiService';
+import { resetImageProvider } from '../services/providers';
+import Icon from './Icon';
+
+interface ApiKeySettingsModalProps {
+  /** Called after the personal key was saved or forgotten. */
+  onChange: (hasPersonalKey: boolean) => void;
+  onClose: () => void;
+}
+
+/**
+ * Lets a user run the studio locally with their own Gemini key instead of the shared
+ * proxy. The key is kept in session storage only and sent straight to Google.
+ */
+const ApiKeySettingsModal: React.FC<ApiKeySettingsModalProps> = ({ onChange, onClose }) => {
+  const [hasPersonalKey, setHasPersonalKey] = useState(() => loadPersonalApiKey() !== null);
+  const [draft, setDraft] = useState('');
+  const provider = getProviderInfo();
+
+  const applyChange = (hasKey: boolean) => {
+    resetImageProvider();
+    setHasPersonalKey(hasKey);
+    setDraft('');
+    onChange(hasKey);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    savePersonalApiKey(draft);
+    applyChange(true);
+  };
+
+  const handleForget = () => {
+    clearPersonalApiKey();
+    applyChange(false);
+  };
+
+  const status = hasPersonalKey
+    ? 'Requests go straight to Google with your personal key.'
+    : provider.id === 'gemini'
+      ? 'Requests go through the studio proxy, which keeps the shared key on the server.'
+      : `No proxy is configured, so the ${provider.label.toLowerCase()} provider is in use.`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="api-key-modal-title">
+      <div className="bg-gray-800 rounded-2xl shadow-xl w-full max-w-lg flex flex-col">
+        <header className="p-4 flex items-center justify-between border-b border-gray-700">
+          <h2 id="api-key-modal-title" className="text-xl font-semibold text-white flex items-center gap-2">
+            <Icon type="key" className="w-5 h-5" /> API Key
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Close API key settings">
+            <Icon type="close" />
+          </button>
+        </header>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-300">{status}</p>
+          <form onSubmit={handleSave} className="space-y-2">
+            <label htmlFor="personal-api-key" className="block text-sm font-medium text-gray-400">
+              {hasPersonalKey ? 'Replace your personal Gemini key' : 'Use your own Gemini key'}
+            </label>
+            <div className="flex gap-2">
+              <input
+                id="personal-api-key"
+                type="password"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                autoComplete="off"
+                spellCheck={false}
+                placeholder="AIza..."
+                className="flex-grow p-2 bg-gray-700 border border-gray-600 text-white rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
+              />
+              <button
+                type="submit"
+                disabled={!draft.trim()}
+                className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+              >
+                Save
+              </button>
+            </div>
+          </form>
+          <p className="text-xs text-gray-500">
+            For local use only. The key is kept in this tab's session storage, never sent to the proxy, and forgotten when the tab closes. Anything running on this page can read it.
+          </p>
+          {hasPersonalKey && (
+            <button
+              onClick={handleForget}
+              className="flex items-center gap-2 text-sm font-semibold text-red-300 hover:text-red-200 transition-colors"
+            >
+              <Icon type="trash" className="w-4 h-4" /> Forget my key
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeySettingsModal;
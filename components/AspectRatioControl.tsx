@@ -0,0 +1,143 @@
+import React from 'react';
+import { AspectRatio, Dimensions } from '../types';
+import {
+  ASPECT_RATIO_OPTIONS,
+  OUTPUT_SIZE_PRESETS,
+  findAspectRatioPreset,
+  getAspectRatioValue,
+  reduceDimensions,
+} from '../constants';
+import SelectControl from './SelectControl';
+
+export interface AspectRatioSettings {
+  aspectRatio: AspectRatio;
+  customAspectRatio: Dimensions;
+  outputSize: Dimensions | null;
+}
+
+interface AspectRatioControlProps extends AspectRatioSettings {
+  onChange: (settings: AspectRatioSettings) => void;
+}
+
+const NATIVE_SIZE = 'native';
+const CUSTOM_SIZE = 'custom';
+const MAX_OUTPUT_EDGE = 8000;
+
+const OUTPUT_SIZE_OPTIONS = [
+  { label: 'Model output (no resize)', value: NATIVE_SIZE },
+  ...OUTPUT_SIZE_PRESETS.map(({ label, size }) => ({ label, value: `${size.width}x${size.height}` })),
+  { label: 'Custom size…', value: CUSTOM_SIZE },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(value) || min));
+
+interface DimensionInputsProps {
+  value: Dimensions;
+  max: number;
+  separator: string;
+  label: string;
+  onChange: (value: Dimensions) => void;
+}
+
+const DimensionInputs: React.FC<DimensionInputsProps> = ({ value, max, separator, label, onChange }) => (
+  <div className="flex items-center gap-2 mt-2" role="group" aria-label={label}>
+    <input
+      type="number"
+      min={1}
+      max={max}
+      value={value.width}
+      onChange={(e) => onChange({ ...value, width: clamp(Number(e.target.value), 1, max) })}
+      className="w-full p-2 bg-gray-700 border border-gray-600 text-white rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+      aria-label={`${label} width`}
+    />
+    <span className="text-gray-400">{separator}</span>
+    <input
+      type="number"
+      min={1}
+      max={max}
+      value={value.height}
+      onChange={(e) => onChange({ ...value, height: clamp(Number(e.target.value), 1, max) })}
+      className="w-full p-2 bg-gray-700 border border-gray-600 text-white rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+      aria-label={`${label} height`}
+    />
+  </div>
+);
+
+/**
+ * Aspect ratio preset/custom entry plus an optional exact output size. Choosing an
+ * output size also sets the matching ratio so the crop and prompt stay consistent.
+ */
+const AspectRatioControl: React.FC<AspectRatioControlProps> = ({ aspectRatio, customAspectRatio, outputSize, onChange }) => {
+  const outputSizeValue = outputSize
+    ? OUTPUT_SIZE_OPTIONS.find(option => option.value === `${outputSize.width}x${outputSize.height}`)?.value ?? CUSTOM_SIZE
+    : NATIVE_SIZE;
+
+  /**
+   * Drops the output size if it no longer matches the chosen ratio.
+   */
+  const withCompatibleOutputSize = (next: AspectRatio, nextCustom: Dimensions): AspectRatioSettings => {
+    const keepSize = outputSize && Math.abs(outputSize.width / outputSize.height - getAspectRatioValue(next, nextCustom)) < 0.001;
+    return { aspectRatio: next, customAspectRatio: nextCustom, outputSize: keepSize ? outputSize : null };
+  };
+
+  const applyOutputSize = (size: Dimensions) => {
+    const preset = findAspectRatioPreset(size);
+    onChange({
+      aspectRatio: preset,
+      customAspectRatio: preset === AspectRatio.CUSTOM ? reduceDimensions(size) : customAspectRatio,
+      outputSize: size,
+    });
+  };
+
+  const handleOutputSizeChange = (value: string) => {
+    if (value === NATIVE_SIZE) {
+      onChange({ aspectRatio, customAspectRatio, outputSize: null });
+    } else if (value === CUSTOM_SIZE) {
+      applyOutputSize(outputSize ?? { width: 2000, height: 2000 });
+    } else {
+      const [width, height] = value.split('x').map(Number);
+      applyOutputSize({ width, height });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <SelectControl
+          label="Aspect Ratio"
+          value={aspectRatio}
+          onChange={(e) => onChange(withCompatibleOutputSize(e.target.value as AspectRatio, customAspectRatio))}
+          options={ASPECT_RATIO_OPTIONS}
+        />
+        {aspectRatio === AspectRatio.CUSTOM && (
+          <DimensionInputs
+            value={customAspectRatio}
+            max={100}
+            separator=":"
+            label="Custom aspect ratio"
+            onChange={(ratio) => onChange(withCompatibleOutputSize(AspectRatio.CUSTOM, ratio))}
+          />
+        )}
+      </div>
+      <div>
+        <SelectControl
+          label="Output Size"
+          value={outputSizeValue}
+          onChange={(e) => handleOutputSizeChange(e.target.value)}
+          options={OUTPUT_SIZE_OPTIONS}
+        />
+        {outputSizeValue === CUSTOM_SIZE && outputSize && (
+          <DimensionInputs
+            value={outputSize}
+            max={MAX_OUTPUT_EDGE}
+            separator="×"
+            label="Output size in pixels"
+            onChange={applyOutputSize}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AspectRatioControl;
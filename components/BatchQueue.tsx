@@ -0,0 +1,122 @@
+import React from 'react';
+import { BatchItem, BatchItemStatus } from '../types';
+import { toDataUrl } from '../services/imageUtils';
+import Icon from './Icon';
+import Spinner from './Spinner';
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  isRunning: boolean;
+  onRetryItem: (id: string) => void;
+  onRetryFailed: () => void;
+  onRemoveItem: (id: string) => void;
+  onClear: () => void;
+  onDownloadAll: () => void;
+  onCancel: () => void;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, { label: string, className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-700 text-gray-300' },
+  processing: { label: 'Generating', className: 'bg-indigo-900/70 text-indigo-200' },
+  done: { label: 'Done', className: 'bg-green-900/70 text-green-200' },
+  error: { label: 'Failed', className: 'bg-red-900/70 text-red-200' },
+};
+
+const BatchQueue: React.FC<BatchQueueProps> = ({ items, isRunning, onRetryItem, onRetryFailed, onRemoveItem, onClear, onDownloadAll, onCancel }) => {
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const failedCount = items.filter(item => item.status === 'error').length;
+
+  if (items.length === 0) {
+    return (
+      <div className="w-full bg-gray-900 rounded-lg flex items-center justify-center border-2 border-dashed border-gray-700 flex-grow p-8">
+        <div className="text-center text-gray-500">
+          <Icon type="stack" className="w-16 h-16 mx-auto mb-2" />
+          Add product photos to build your batch.
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col flex-grow min-h-0">
+      <div className="flex items-center justify-between text-sm text-gray-400 mb-3">
+        <span>{doneCount} of {items.length} done{failedCount > 0 && `, ${failedCount} failed`}</span>
+        <button
+          onClick={onClear}
+          disabled={isRunning}
+          className="text-gray-400 hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed transition-colors"
+        >
+          Clear
+        </button>
+      </div>
+      <ul className="space-y-2 overflow-y-auto max-h-[32rem] pr-1">
+        {items.map(item => {
+          const status = STATUS_STYLES[item.status];
+          return (
+            <li key={item.id} className="flex items-center gap-3 bg-gray-900/60 border border-gray-700 rounded-lg p-2">
+              <img src={toDataUrl(item.sourceImage)} alt={item.fileName} className="w-12 h-12 object-cover rounded flex-shrink-0" />
+              <div className="w-12 h-12 rounded flex-shrink-0 bg-gray-800 flex items-center justify-center overflow-hidden">
+                {item.status === 'processing' && <Spinner size="sm" />}
+                {item.resultImage && item.status !== 'processing' && (
+                  <img src={item.resultImage} alt={`Result for ${item.fileName}`} className="w-full h-full object-cover" />
+                )}
+              </div>
+              <div className="flex-grow min-w-0">
+                <p className="text-sm text-gray-200 truncate" title={item.fileName}>{item.fileName}</p>
+                <span className={`inline-block mt-1 text-xs font-semibold px-2 py-0.5 rounded ${status.className}`}>{status.label}</span>
+                {item.error && <p className="text-xs text-red-300 truncate mt-1" title={item.error}>{item.error}</p>}
+              </div>
+              {item.status === 'error' && (
+                <button
+                  onClick={() => onRetryItem(item.id)}
+                  disabled={isRunning}
+                  className="text-indigo-400 hover:text-indigo-300 disabled:text-gray-600 disabled:cursor-not-allowed"
+                  aria-label={`Retry ${item.fileName}`}
+                >
+                  <Icon type="retry" className="w-5 h-5" />
+                </button>
+              )}
+              <button
+                onClick={() => onRemoveItem(item.id)}
+                disabled={item.status === 'processing'}
+                className="text-gray-400 hover:text-red-300 disabled:text-gray-600 disabled:cursor-not-allowed"
+                aria-label={`Remove ${item.fileName}`}
+              >
+                <Icon type="trash" className="w-5 h-5" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      {isRunning && (
+        <button
+          onClick={onCancel}
+          className="w-full mt-4 px-4 py-2 bg-gray-700 text-gray-200 font-semibold rounded-lg hover:bg-gray-600 transition-colors"
+        >
+          Cancel Batch
+        </button>
+      )}
+      <div className="grid grid-cols-2 gap-2 mt-4">
+        <button
+          onClick={onRetryFailed}
+          disabled={isRunning || failedCount === 0}
+          className="bg-gray-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors"
+        >
+          <Icon type="retry" className="w-5 h-5" />
+          <span>Retry Failed</span>
+        </button>
+        <button
+          onClick={onDownloadAll}
+          disabled={doneCount === 0}
+          className="bg-green-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-green-700 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors"
+          aria-label="Download all generated images as a ZIP archive"
+        >
+          <Icon type="download" className="w-5 h-5" />
+          <span>Download ZIP</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BatchQueue;
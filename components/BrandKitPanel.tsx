@@ -0,0 +1,187 @@
+import React from 'react';
+import { BrandKit, LogoOverlaySettings, OverlayCorner, WatermarkSettings } from '../types';
+import { fileToBase64 } from '../services/geminiService';
+import { toDataUrl } from '../services/imageUtils';
+import ColorListControl from './ColorListControl';
+import CommitTextInput from './CommitTextInput';
+import FileUpload from './FileUpload';
+import Icon from './Icon';
+import SelectControl from './SelectControl';
+
+interface BrandKitPanelProps {
+  kit: BrandKit;
+  onChange: (kit: BrandKit) => void;
+  onError: (message: string) => void;
+}
+
+const CORNER_OPTIONS: { value: OverlayCorner, label: string }[] = [
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-right', label: 'Bottom right' },
+];
+
+const WATERMARK_POSITION_OPTIONS: { value: WatermarkSettings['position'], label: string }[] = [
+  { value: 'tiled', label: 'Tiled across the image' },
+  ...CORNER_OPTIONS,
+];
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+/**
+ * Edits the brand kit: palette and backgrounds steer the prompt, while the logo and
+ * watermark are drawn onto every result.
+ */
+const BrandKitPanel: React.FC<BrandKitPanelProps> = ({ kit, onChange, onError }) => {
+  const update = (changes: Partial<BrandKit>) => onChange({ ...kit, ...changes });
+  const updateLogo = (changes: Partial<LogoOverlaySettings>) => update({ logo: { ...kit.logo, ...changes } });
+  const updateWatermark = (changes: Partial<WatermarkSettings>) => update({ watermark: { ...kit.watermark, ...changes } });
+
+  const handleLogoUpload = async (file: File) => {
+    if (!file.type.startsWith('image/')) {
+      onError('Please choose an image file for the logo.');
+      return;
+    }
+    try {
+      updateLogo({ image: await fileToBase64(file) });
+    } catch (err) {
+      console.error('Failed to read logo:', err);
+      onError('Could not read the logo file. Please try a different file.');
+    }
+  };
+
+  return (
+    <details className="mt-6 group">
+      <summary className="cursor-pointer text-lg font-semibold text-white flex items-center gap-2 select-none">
+        <Icon type="swatch" /> Brand Kit
+        <span className="text-xs font-normal text-gray-500">{kit.enabled ? 'on' : 'off'}</span>
+      </summary>
+      <div className="mt-4 space-y-4">
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={kit.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            className="rounded bg-gray-700 border-gray-600"
+          />
+          Apply the brand kit to prompts and results
+        </label>
+        <fieldset disabled={!kit.enabled} className="space-y-4 disabled:opacity-50">
+          <ColorListControl label="Primary colors" colors={kit.primaryColors} onChange={(primaryColors) => update({ primaryColors })} />
+          <ColorListControl label="Secondary colors" colors={kit.secondaryColors} onChange={(secondaryColors) => update({ secondaryColors })} />
+          <ColorListControl label="Forbidden colors" colors={kit.forbiddenColors} onChange={(forbiddenColors) => update({ forbiddenColors })} />
+          <CommitTextInput
+            label="Approved backgrounds"
+            value={kit.approvedBackgrounds.join(', ')}
+            placeholder="e.g. white marble, light oak, seamless paper"
+            onCommit={(value) => update({ approvedBackgrounds: splitList(value) })}
+          />
+          <CommitTextInput
+            label="Typeface"
+            value={kit.typeface}
+            placeholder="e.g. Helvetica Neue"
+            onCommit={(typeface) => update({ typeface })}
+          />
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={kit.logo.enabled}
+                onChange={(e) => updateLogo({ enabled: e.target.checked })}
+                className="rounded bg-gray-700 border-gray-600"
+              />
+              Place the logo on results
+            </label>
+            {kit.logo.image ? (
+              <div className="flex items-center gap-3">
+                <img src={toDataUrl(kit.logo.image)} alt="Brand logo" className="h-12 max-w-[8rem] object-contain bg-gray-700 rounded p-1" />
+                <button onClick={() => updateLogo({ image: null })} className="text-sm text-red-400 hover:text-red-300 font-semibold">
+                  Remove logo
+                </button>
+              </div>
+            ) : (
+              <FileUpload id="brand-logo-upload" onFileUpload={handleLogoUpload} label="Upload Logo" />
+            )}
+            {kit.logo.enabled && kit.logo.image && (
+              <div className="pl-6 space-y-2">
+                <SelectControl
+                  label="Logo corner"
+                  value={kit.logo.corner}
+                  onChange={(e) => updateLogo({ corner: e.target.value as OverlayCorner })}
+                  options={CORNER_OPTIONS}
+                />
+                <label className="block text-sm text-gray-400">
+                  Size: {Math.round(kit.logo.size * 100)}% of the width
+                  <input
+                    type="range"
+                    min="0.05"
+                    max="0.4"
+                    step="0.01"
+                    value={kit.logo.size}
+                    onChange={(e) => updateLogo({ size: Number(e.target.value) })}
+                    className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+                  />
+                </label>
+                <label className="block text-sm text-gray-400">
+                  Opacity: {Math.round(kit.logo.opacity * 100)}%
+                  <input
+                    type="range"
+                    min="0.1"
+                    max="1"
+                    step="0.05"
+                    value={kit.logo.opacity}
+                    onChange={(e) => updateLogo({ opacity: Number(e.target.value) })}
+                    className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+                  />
+                </label>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={kit.watermark.enabled}
+                onChange={(e) => updateWatermark({ enabled: e.target.checked })}
+                className="rounded bg-gray-700 border-gray-600"
+              />
+              Watermark results
+            </label>
+            {kit.watermark.enabled && (
+              <div className="pl-6 space-y-2">
+                <CommitTextInput
+                  label="Watermark text"
+                  value={kit.watermark.text}
+                  placeholder="e.g. © Acme Co. — proof"
+                  onCommit={(text) => updateWatermark({ text })}
+                />
+                <SelectControl
+                  label="Watermark position"
+                  value={kit.watermark.position}
+                  onChange={(e) => updateWatermark({ position: e.target.value as WatermarkSettings['position'] })}
+                  options={WATERMARK_POSITION_OPTIONS}
+                />
+                <label className="block text-sm text-gray-400">
+                  Opacity: {Math.round(kit.watermark.opacity * 100)}%
+                  <input
+                    type="range"
+                    min="0.05"
+                    max="1"
+                    step="0.05"
+                    value={kit.watermark.opacity}
+                    onChange={(e) => updateWatermark({ opacity: Number(e.target.value) })}
+                    className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+                  />
+                </label>
+              </div>
+            )}
+          </div>
+        </fieldset>
+      </div>
+    </details>
+  );
+};
+
+export default BrandKitPanel;
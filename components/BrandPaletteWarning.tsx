@@ -0,0 +1,51 @@
+import React from 'react';
+import { BrandPaletteReport, DominantColor } from '../services/brandKitService';
+import Icon from './Icon';
+
+interface BrandPaletteWarningProps {
+  report: BrandPaletteReport;
+}
+
+const toPercent = (share: number) => `${Math.round(share * 100)}%`;
+
+const Swatch: React.FC<{ color: DominantColor }> = ({ color }) => (
+  <span className="inline-flex items-center gap-1 text-xs text-gray-300" title={`${color.hex} covers ${toPercent(color.share)} of the image`}>
+    <span className="w-4 h-4 rounded border border-gray-500" style={{ backgroundColor: color.hex }} />
+    {color.hex} · {toPercent(color.share)}
+  </span>
+);
+
+/**
+ * Warns when a result's dominant colors break the brand palette. Renders nothing for
+ * on-brand results.
+ */
+const BrandPaletteWarning: React.FC<BrandPaletteWarningProps> = ({ report }) => {
+  if (report.forbidden.length === 0 && report.offPalette.length === 0) return null;
+
+  return (
+    <div className="mt-3 rounded-lg border border-yellow-700 bg-yellow-900/30 p-3 text-sm space-y-2">
+      <p className="flex items-center gap-2 font-semibold text-yellow-200">
+        <Icon type="alert" className="w-5 h-5" /> Off-brand colors in this result
+      </p>
+      {report.forbidden.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-gray-400">Forbidden:</span>
+          {report.forbidden.map(({ color, forbiddenHex }) => (
+            <span key={color.hex} className="inline-flex items-center gap-1">
+              <Swatch color={color} />
+              <span className="text-xs text-gray-500">matches {forbiddenHex}</span>
+            </span>
+          ))}
+        </div>
+      )}
+      {report.offPalette.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-gray-400">Outside the palette:</span>
+          {report.offPalette.map(color => <Swatch key={color.hex} color={color} />)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BrandPaletteWarning;
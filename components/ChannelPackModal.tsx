@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { MARKETPLACE_RULES, MarketplaceId, ValidationIssue, buildChannelPack } from '../services/marketplaceService';
+import { downloadBlob } from '../services/downloadUtils';
+import Icon from './Icon';
+import Spinner from './Spinner';
+
+interface ChannelPackModalProps {
+  resultImage: string;
+  productImage: string | null;
+  productName: string;
+  onClose: () => void;
+}
+
+const toFileSlug = (value: string) => value.trim().replace(/[^a-z0-9-_]+/gi, '-').replace(/^-+|-+$/g, '') || 'product';
+
+const ChannelPackModal: React.FC<ChannelPackModalProps> = ({ resultImage, productImage, productName, onClose }) => {
+  const [selected, setSelected] = useState<MarketplaceId[]>(MARKETPLACE_RULES.map(rules => rules.id));
+  const [useProductImage, setUseProductImage] = useState(productImage !== null);
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [report, setReport] = useState<ValidationIssue[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleMarketplace = (id: MarketplaceId) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]));
+    setReport(null);
+  };
+
+  const handleBuildClick = async () => {
+    setIsBuilding(true);
+    setError(null);
+    setReport(null);
+    try {
+      const pack = await buildChannelPack(resultImage, useProductImage ? productImage : null, selected);
+      downloadBlob(pack.zip, `${toFileSlug(productName)}-channel-pack.zip`);
+      setReport(pack.report);
+    } catch (err) {
+      const error = err as Error;
+      console.error('Channel pack export failed', error);
+      setError(`Channel pack export failed: ${error.message}`);
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  const failedCount = report?.filter(issue => !issue.passed).length ?? 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="channel-pack-modal-title">
+      <div className="bg-gray-800 rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <header className="p-4 flex items-center justify-between border-b border-gray-700 flex-shrink-0">
+          <h2 id="channel-pack-modal-title" className="text-xl font-semibold text-white flex items-center gap-2">
+            <Icon type="stack" /> Channel Pack
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Close channel pack dialog">
+            <Icon type="close" />
+          </button>
+        </header>
+
+        <main className="p-6 flex-grow overflow-auto space-y-5">
+          <fieldset className="space-y-3">
+            <legend className="block text-sm font-medium text-gray-400 mb-2">Marketplaces</legend>
+            {MARKETPLACE_RULES.map(rules => (
+              <label key={rules.id} className="flex items-start gap-3 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(rules.id)}
+                  onChange={() => toggleMarketplace(rules.id)}
+                  className="mt-0.5 rounded bg-gray-700 border-gray-600"
+                />
+                <span>
+                  <span className="font-semibold text-white">{rules.label}</span>
+                  <span className="block text-xs text-gray-500">
+                    {rules.variants.map(variant => `${variant.name} ${variant.size.width}×${variant.size.height}`).join(', ')}
+                  </span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+          <label className={`flex items-center gap-2 text-sm ${productImage ? 'text-gray-300' : 'text-gray-500'}`}>
+            <input
+              type="checkbox"
+              checked={useProductImage && productImage !== null}
+              disabled={!productImage}
+              onChange={(e) => setUseProductImage(e.target.checked)}
+              className="rounded bg-gray-700 border-gray-600"
+            />
+            Use the original cropped product photo for white-background main images
+          </label>
+
+          {report && (
+            <div>
+              <h3 className={`text-sm font-semibold mb-2 ${failedCount ? 'text-yellow-300' : 'text-green-400'}`}>
+                {failedCount ? `${failedCount} rule${failedCount === 1 ? '' : 's'} failed` : 'All rules passed'}
+              </h3>
+              <ul className="space-y-1 text-xs">
+                {report.map((issue, index) => (
+                  <li key={index} className={issue.passed ? 'text-gray-400' : 'text-yellow-300'}>
+                    {issue.passed ? '✓' : '✗'} {issue.marketplace}{issue.variant ? ` / ${issue.variant}` : ''}: {issue.rule} — {issue.detail}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </main>
+
+        <footer className="p-4 flex justify-between items-center gap-4 border-t border-gray-700 flex-shrink-0">
+          <p className="text-sm text-red-300" role={error ? 'alert' : undefined}>{error}</p>
+          <div className="flex gap-4 flex-shrink-0">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-500 transition-colors"
+            >
+              {report ? 'Done' : 'Cancel'}
+            </button>
+            <button
+              onClick={handleBuildClick}
+              disabled={isBuilding || selected.length === 0}
+              className="px-6 py-2 bg-green-600 text-white font-bold rounded-lg hover:bg-green-700 disabled:bg-gray-500 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors"
+            >
+              {isBuilding ? <><Spinner size="sm" /> Building...</> : <><Icon type="download" className="w-5 h-5" /> Download ZIP</>}
+            </button>
+          </div>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default ChannelPackModal;
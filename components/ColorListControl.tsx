@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import Icon from './Icon';
+
+interface ColorListControlProps {
+  label: string;
+  colors: string[];
+  onChange: (colors: string[]) => void;
+}
+
+/**
+ * An editable row of hex color swatches.
+ */
+const ColorListControl: React.FC<ColorListControlProps> = ({ label, colors, onChange }) => {
+  const [draft, setDraft] = useState('#000000');
+
+  const addColor = () => {
+    const color = draft.toLowerCase();
+    if (!colors.includes(color)) onChange([...colors, color]);
+  };
+
+  return (
+    <div>
+      <span className="block text-sm font-medium text-gray-400 mb-1">{label}</span>
+      <div className="flex flex-wrap items-center gap-2">
+        {colors.map(color => (
+          <span key={color} className="flex items-center gap-1 bg-gray-700 rounded-full pl-1 pr-2 py-0.5 text-xs text-gray-300">
+            <span className="w-4 h-4 rounded-full border border-gray-500" style={{ backgroundColor: color }} />
+            {color}
+            <button
+              onClick={() => onChange(colors.filter(existing => existing !== color))}
+              className="text-gray-500 hover:text-white"
+              aria-label={`Remove ${color}`}
+            >
+              <Icon type="close" className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          type="color"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          className="w-7 h-7 bg-transparent cursor-pointer"
+          aria-label={`${label}: color to add`}
+        />
+        <button onClick={addColor} className="text-sm text-indigo-400 hover:text-indigo-300 font-semibold">
+          Add
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ColorListControl;
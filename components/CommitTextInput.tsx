@@ -0,0 +1,38 @@
+import React, { useEffect, useState } from 'react';
+
+interface CommitTextInputProps {
+  label: string;
+  value: string;
+  placeholder: string;
+  onCommit: (value: string) => void;
+}
+
+/**
+ * A text field that only reports its value on blur or Enter, so typing doesn't
+ * trigger a prompt regeneration per keystroke.
+ */
+const CommitTextInput: React.FC<CommitTextInputProps> = ({ label, value, placeholder, onCommit }) => {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+
+  const commit = () => {
+    if (draft.trim() !== value.trim()) onCommit(draft.trim());
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-400 mb-1">{label}</label>
+      <input
+        type="text"
+        value={draft}
+        placeholder={placeholder}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && commit()}
+        className="w-full p-2.5 bg-gray-700 border border-gray-600 text-white rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
+      />
+    </div>
+  );
+};
+
+export default CommitTextInput;
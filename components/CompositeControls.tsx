@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { CompositeLayout } from '../types';
+import { DEFAULT_COMPOSITE_LAYOUT } from '../services/compositeService';
+import Icon from './Icon';
+import Spinner from './Spinner';
+
+interface CompositeControlsProps {
+  layout: CompositeLayout;
+  isRendering: boolean;
+  onChange: (layout: CompositeLayout) => void;
+}
+
+interface SliderSpec {
+  key: keyof CompositeLayout;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const SLIDERS: SliderSpec[] = [
+  { key: 'x', label: 'Horizontal position', min: 0, max: 1, step: 0.01, format: percent },
+  { key: 'y', label: 'Base height', min: 0.2, max: 1, step: 0.01, format: percent },
+  { key: 'scale', label: 'Size', min: 0.1, max: 1, step: 0.01, format: percent },
+  { key: 'rotation', label: 'Rotation', min: -45, max: 45, step: 1, format: value => `${value}°` },
+  { key: 'shadow', label: 'Contact shadow', min: 0, max: 1, step: 0.05, format: percent },
+  { key: 'reflection', label: 'Reflection', min: 0, max: 1, step: 0.05, format: percent },
+  { key: 'colorMatch', label: 'Color match', min: 0, max: 1, step: 0.05, format: percent },
+];
+
+// Each change re-renders the full-resolution composite, so slider drags are coalesced.
+const LAYOUT_DEBOUNCE_MS = 200;
+
+/**
+ * Adjusts how the product cut-out sits on a generated background.
+ */
+const CompositeControls: React.FC<CompositeControlsProps> = ({ layout, isRendering, onChange }) => {
+  const [draft, setDraft] = useState(layout);
+
+  useEffect(() => {
+    if (SLIDERS.every(({ key }) => draft[key] === layout[key])) return;
+    const timer = setTimeout(() => onChange(draft), LAYOUT_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [draft]);
+
+  return (
+    <details className="mt-4 bg-gray-900/50 border border-gray-700 rounded-lg p-3 group" open>
+      <summary className="cursor-pointer text-sm font-semibold text-white flex items-center gap-2 select-none">
+        <Icon type="sliders" className="w-4 h-4" /> Product Placement
+        {isRendering && <Spinner size="sm" />}
+      </summary>
+      <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-3">
+        {SLIDERS.map(({ key, label, min, max, step, format }) => (
+          <label key={key} className="block text-sm text-gray-300">
+            <span className="flex justify-between">
+              {label} <span className="text-gray-500">{format(draft[key])}</span>
+            </span>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={step}
+              value={draft[key]}
+              onChange={(e) => setDraft(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+              className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+            />
+          </label>
+        ))}
+      </div>
+      <button
+        onClick={() => setDraft(DEFAULT_COMPOSITE_LAYOUT)}
+        className="mt-3 text-sm text-indigo-400 hover:text-indigo-300 font-semibold"
+      >
+        Reset placement
+      </button>
+    </details>
+  );
+};
+
+export default CompositeControls;
@@ -0,0 +1,304 @@
+import React, { useEffect, useState } from 'react';
+import { Base64Image } from '../types';
+import { createProductMask } from '../services/geminiService';
+import {
+  CutoutMask,
+  CutoutMaskSource,
+  CutoutRefinement,
+  DEFAULT_CUTOUT_REFINEMENT,
+  MAX_FEATHER_PX,
+  MAX_GROW_PX,
+  flattenCutout,
+  renderCutout,
+} from '../services/cutoutService';
+import { dataUrlToBase64Image, toDataUrl } from '../services/imageUtils';
+import { triggerDownload } from '../services/downloadUtils';
+import FileUpload from './FileUpload';
+import Icon from './Icon';
+import Spinner from './Spinner';
+
+type PreviewBackground = 'checkerboard' | 'color' | 'backdrop';
+
+interface CutoutStudioProps {
+  productImage: Base64Image | null;
+  productName: string;
+  /**
+   * Receives the cut-out flattened onto white, to generate scenes around, and the
+   * transparent cut-out itself for compositing.
+   */
+  onUseAsProduct: (image: Base64Image, cutoutUrl: string) => void;
+  onError: (message: string) => void;
+}
+
+const MASK_SOURCE_OPTIONS: { value: CutoutMaskSource, label: string, description: string }[] = [
+  { value: 'ai', label: 'AI segmentation', description: 'Works on any photo' },
+  { value: 'backdrop', label: 'Backdrop key', description: 'Offline, for plain backdrops' },
+];
+
+const PREVIEW_COLORS = ['#ffffff', '#000000', '#f3f4f6', '#fde68a', '#bfdbfe'];
+
+// Re-rendering a full-resolution cut-out is not free, so slider drags are coalesced.
+const RENDER_DEBOUNCE_MS = 150;
+
+const CHECKERBOARD_STYLE: React.CSSProperties = {
+  backgroundImage: 'conic-gradient(#9ca3af 25%, #e5e7eb 0 50%, #9ca3af 0 75%, #e5e7eb 0)',
+  backgroundSize: '20px 20px',
+};
+
+/**
+ * Removes the background from the product photo: builds a mask, refines its edges,
+ * previews the transparent result on several backgrounds and exports it as a PNG.
+ */
+const CutoutStudio: React.FC<CutoutStudioProps> = ({ productImage, productName, onUseAsProduct, onError }) => {
+  const [source, setSource] = useState<CutoutMaskSource>('ai');
+  const [mask, setMask] = useState<CutoutMask | null>(null);
+  const [isMasking, setIsMasking] = useState(false);
+  const [refinement, setRefinement] = useState<CutoutRefinement>(DEFAULT_CUTOUT_REFINEMENT);
+  const [cutoutUrl, setCutoutUrl] = useState<string | null>(null);
+  const [previewBackground, setPreviewBackground] = useState<PreviewBackground>('checkerboard');
+  const [previewColor, setPreviewColor] = useState(PREVIEW_COLORS[0]);
+  const [backdropUrl, setBackdropUrl] = useState<string | null>(null);
+
+  // A mask belongs to one photo; start over when the photo changes.
+  useEffect(() => {
+    setMask(null);
+    setCutoutUrl(null);
+  }, [productImage]);
+
+  useEffect(() => {
+    if (!productImage || !mask) return;
+    let isCurrent = true;
+    const timer = setTimeout(() => {
+      renderCutout(toDataUrl(productImage), mask, refinement)
+        .then(url => {
+          if (isCurrent) setCutoutUrl(url);
+        })
+        .catch(err => {
+          console.error('Failed to render cut-out:', err);
+          if (isCurrent) onError('Could not render the cut-out. Please try again.');
+        });
+    }, RENDER_DEBOUNCE_MS);
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [productImage, mask, refinement]);
+
+  const handleRemoveBackground = async () => {
+    if (!productImage) return;
+    setIsMasking(true);
+    try {
+      setMask(await createProductMask(productImage, source));
+    } catch (err) {
+      const error = err as Error;
+      onError(error.message || 'An unknown error occurred while removing the background.');
+      console.error("Background removal failed:", error);
+    } finally {
+      setIsMasking(false);
+    }
+  };
+
+  const updateRefinement = (changes: Partial<CutoutRefinement>) => setRefinement(prev => ({ ...prev, ...changes }));
+
+  const handleBackdropUpload = (file: File) => {
+    if (!file.type.startsWith('image/')) {
+      onError('Please choose an image file for the preview backdrop.');
+      return;
+    }
+    if (backdropUrl) URL.revokeObjectURL(backdropUrl);
+    setBackdropUrl(URL.createObjectURL(file));
+    setPreviewBackground('backdrop');
+  };
+
+  useEffect(() => () => {
+    if (backdropUrl) URL.revokeObjectURL(backdropUrl);
+  }, [backdropUrl]);
+
+  const handleDownload = () => {
+    if (!cutoutUrl) return;
+    triggerDownload(cutoutUrl, `${productName || 'product'}-cutout.png`);
+  };
+
+  const handleUseAsProduct = async () => {
+    if (!cutoutUrl) return;
+    try {
+      onUseAsProduct(dataUrlToBase64Image(await flattenCutout(cutoutUrl, '#ffffff')), cutoutUrl);
+    } catch (err) {
+      console.error('Failed to flatten cut-out:', err);
+      onError('Could not prepare the cut-out as a product photo. Please try again.');
+    }
+  };
+
+  const previewStyle: React.CSSProperties =
+    previewBackground === 'checkerboard' ? CHECKERBOARD_STYLE
+      : previewBackground === 'color' ? { backgroundColor: previewColor }
+        : { backgroundImage: backdropUrl ? `url(${backdropUrl})` : undefined, backgroundSize: 'cover', backgroundPosition: 'center' };
+
+  if (!productImage) {
+    return (
+      <div className="bg-gray-800 p-6 rounded-2xl shadow-lg h-full flex flex-col items-center justify-center text-center text-gray-500 min-h-[400px]">
+        <Icon type="scissors" className="w-16 h-16 mb-2" />
+        Upload a product photo to cut it out.
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-2xl shadow-lg">
+      <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2"><Icon type="scissors" />Cut-out</h2>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="space-y-5">
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-400 mb-2">Mask</legend>
+            <div className="space-y-2">
+              {MASK_SOURCE_OPTIONS.map(option => (
+                <label key={option.value} className="flex items-start gap-2 text-sm text-gray-300">
+                  <input
+                    type="radio"
+                    name="cutout-source"
+                    checked={source === option.value}
+                    onChange={() => setSource(option.value)}
+                    className="mt-1 bg-gray-700 border-gray-600"
+                  />
+                  <span>
+                    {option.label}
+                    <span className="block text-xs text-gray-500">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <button
+              onClick={handleRemoveBackground}
+              disabled={isMasking}
+              className="w-full mt-3 bg-indigo-600 text-white font-semibold py-2.5 px-4 rounded-lg hover:bg-indigo-700 disabled:bg-gray-500 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors"
+            >
+              {isMasking ? <><Spinner size="sm" /> Removing background...</> : <><Icon type="scissors" className="w-5 h-5" /> {mask ? 'Redo Mask' : 'Remove Background'}</>}
+            </button>
+          </fieldset>
+
+          <fieldset disabled={!mask} className="space-y-3 disabled:opacity-50">
+            <legend className="block text-sm font-medium text-gray-400 mb-2">Edges</legend>
+            <label className="block text-sm text-gray-300">
+              Feather: {refinement.feather}px
+              <input
+                type="range"
+                min="0"
+                max={MAX_FEATHER_PX}
+                value={refinement.feather}
+                onChange={(e) => updateRefinement({ feather: Number(e.target.value) })}
+                className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+              />
+            </label>
+            <label className="block text-sm text-gray-300">
+              {refinement.grow < 0 ? `Shrink: ${-refinement.grow}px` : `Grow: ${refinement.grow}px`}
+              <input
+                type="range"
+                min={-MAX_GROW_PX}
+                max={MAX_GROW_PX}
+                value={refinement.grow}
+                onChange={(e) => updateRefinement({ grow: Number(e.target.value) })}
+                className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={refinement.fillHoles}
+                onChange={(e) => updateRefinement({ fillHoles: e.target.checked })}
+                className="rounded bg-gray-700 border-gray-600"
+              />
+              Fill holes inside the product
+            </label>
+            <button
+              onClick={() => setRefinement(DEFAULT_CUTOUT_REFINEMENT)}
+              className="text-sm text-indigo-400 hover:text-indigo-300 font-semibold"
+            >
+              Reset edges
+            </button>
+          </fieldset>
+
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-400 mb-2">Preview on</legend>
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                onClick={() => setPreviewBackground('checkerboard')}
+                className={`w-8 h-8 rounded border-2 ${previewBackground === 'checkerboard' ? 'border-indigo-500' : 'border-gray-600'}`}
+                style={CHECKERBOARD_STYLE}
+                aria-label="Checkerboard"
+                title="Transparency checkerboard"
+              />
+              {PREVIEW_COLORS.map(color => (
+                <button
+                  key={color}
+                  onClick={() => {
+                    setPreviewColor(color);
+                    setPreviewBackground('color');
+                  }}
+                  className={`w-8 h-8 rounded border-2 ${previewBackground === 'color' && previewColor === color ? 'border-indigo-500' : 'border-gray-600'}`}
+                  style={{ backgroundColor: color }}
+                  aria-label={`Solid ${color}`}
+                />
+              ))}
+              <input
+                type="color"
+                value={previewColor}
+                onChange={(e) => {
+                  setPreviewColor(e.target.value);
+                  setPreviewBackground('color');
+                }}
+                className="w-8 h-8 bg-transparent cursor-pointer"
+                aria-label="Custom preview color"
+              />
+            </div>
+            <div className="mt-3">
+              <FileUpload id="cutout-backdrop-upload" onFileUpload={handleBackdropUpload} label="Upload Backdrop" />
+              {backdropUrl && previewBackground !== 'backdrop' && (
+                <button onClick={() => setPreviewBackground('backdrop')} className="mt-2 text-sm text-indigo-400 hover:text-indigo-300 font-semibold">
+                  Show uploaded backdrop
+                </button>
+              )}
+            </div>
+          </fieldset>
+        </div>
+
+        <div className="md:col-span-2 flex flex-col">
+          <div
+            className="w-full flex-grow min-h-[400px] rounded-lg border-2 border-gray-700 flex items-center justify-center overflow-hidden relative"
+            style={cutoutUrl ? previewStyle : undefined}
+          >
+            <img
+              src={cutoutUrl ?? toDataUrl(productImage)}
+              alt={cutoutUrl ? 'Cut-out preview' : 'Product photo'}
+              className="max-w-full max-h-[500px] object-contain"
+            />
+            {isMasking && (
+              <div className="absolute inset-0 bg-gray-900/70 flex flex-col items-center justify-center">
+                <Spinner size="lg" />
+                <p className="mt-2 text-gray-300">Finding the product...</p>
+              </div>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-2 mt-4">
+            <button
+              onClick={handleUseAsProduct}
+              disabled={!cutoutUrl}
+              className="bg-gray-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors"
+              title="Place the cut-out on white and generate scenes around it"
+            >
+              <Icon type="image" className="w-5 h-5" /> Use as Product Photo
+            </button>
+            <button
+              onClick={handleDownload}
+              disabled={!cutoutUrl}
+              className="bg-green-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-green-700 disabled:bg-gray-500 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors"
+            >
+              <Icon type="download" className="w-5 h-5" /> Download PNG
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CutoutStudio;
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { Dimensions, ExportFormat, ExportMetadata, ExportOptions } from '../types';
+import {
+  EXPORT_FORMATS,
+  EXPORT_WIDTH_OPTIONS,
+  FILE_NAME_TOKENS,
+  exportImage,
+  loadExportOptions,
+  renderFileNameTemplate,
+  saveExportOptions,
+} from '../services/exportService';
+import { downloadBlob, getExtensionForMimeType } from '../services/downloadUtils';
+import SelectControl from './SelectControl';
+import Icon from './Icon';
+import Spinner from './Spinner';
+
+interface ExportModalProps {
+  imageSrc: string;
+  metadata: ExportMetadata;
+  onClose: () => void;
+}
+
+const WIDTH_OPTIONS = EXPORT_WIDTH_OPTIONS.map(width => ({
+  label: width ? `${width} px wide` : 'Original size',
+  value: width ? String(width) : 'original',
+}));
+
+const FORMAT_OPTIONS = EXPORT_FORMATS.map(({ label, value }) => ({ label, value }));
+
+const ExportModal: React.FC<ExportModalProps> = ({ imageSrc, metadata: initialMetadata, onClose }) => {
+  const [options, setOptions] = useState<ExportOptions>(loadExportOptions);
+  const [sku, setSku] = useState(initialMetadata.sku);
+  const [imageSize, setImageSize] = useState<Dimensions | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'error' | 'warning', text: string } | null>(null);
+
+  const format = EXPORT_FORMATS.find(f => f.value === options.format) ?? EXPORT_FORMATS[0];
+  const exportWidth = options.width ?? imageSize?.width ?? 0;
+  const exportHeight = imageSize ? Math.round(imageSize.height * (exportWidth / imageSize.width)) : 0;
+  const previewName = `${renderFileNameTemplate(options.fileNameTemplate, {
+    sku,
+    settings: initialMetadata.settings,
+    width: exportWidth,
+    height: exportHeight,
+  })}.${getExtensionForMimeType(options.format)}`;
+
+  const updateOptions = (changes: Partial<ExportOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  const handleExportClick = async () => {
+    setIsExporting(true);
+    setMessage(null);
+    try {
+      const { blob, fileName, warning } = await exportImage(imageSrc, options, { ...initialMetadata, sku });
+      downloadBlob(blob, fileName);
+      saveExportOptions(options);
+      if (warning) {
+        setMessage({ type: 'warning', text: warning });
+      } else {
+        onClose();
+      }
+    } catch (err) {
+      const error = err as Error;
+      console.error('Export failed', error);
+      setMessage({ type: 'error', text: `Export failed: ${error.message}` });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="export-modal-title">
+      <div className="bg-gray-800 rounded-2xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <header className="p-4 flex items-center justify-between border-b border-gray-700 flex-shrink-0">
+          <h2 id="export-modal-title" className="text-xl font-semibold text-white flex items-center gap-2">
+            <Icon type="download" /> Export Image
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Close export dialog">
+            <Icon type="close" />
+          </button>
+        </header>
+
+        <main className="p-6 flex-grow overflow-auto grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="rounded-lg overflow-hidden border-2 border-gray-700 bg-gray-900/50 flex items-center justify-center min-h-[16rem]">
+            <img
+              src={imageSrc}
+              alt="Image to export"
+              onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+              className="max-w-full max-h-80 object-contain"
+            />
+          </div>
+
+          <div className="space-y-4">
+            <SelectControl
+              label="Format"
+              value={options.format}
+              onChange={(e) => updateOptions({ format: e.target.value as ExportFormat })}
+              options={FORMAT_OPTIONS}
+            />
+            {format.isLossy && (
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Quality: {Math.round(options.quality * 100)}</label>
+                <input
+                  type="range"
+                  min="0.3"
+                  max="1"
+                  step="0.01"
+                  value={options.quality}
+                  onChange={(e) => updateOptions({ quality: Number(e.target.value) })}
+                  className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+                  aria-label="Export quality"
+                />
+              </div>
+            )}
+            <SelectControl
+              label="Size"
+              value={options.width ? String(options.width) : 'original'}
+              onChange={(e) => updateOptions({ width: e.target.value === 'original' ? null : Number(e.target.value) })}
+              options={WIDTH_OPTIONS}
+            />
+            {imageSize && (
+              <p className="-mt-2 text-xs text-gray-500">Output: {exportWidth} × {exportHeight} px</p>
+            )}
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={options.convertToSrgb}
+                onChange={(e) => updateOptions({ convertToSrgb: e.target.checked })}
+                className="rounded bg-gray-700 border-gray-600"
+              />
+              Convert to sRGB (recommended for web and marketplaces)
+            </label>
+            <label className={`flex items-center gap-2 text-sm ${format.supportsMetadata ? 'text-gray-300' : 'text-gray-500'}`}>
+              <input
+                type="checkbox"
+                checked={options.embedMetadata && format.supportsMetadata}
+                disabled={!format.supportsMetadata}
+                onChange={(e) => updateOptions({ embedMetadata: e.target.checked })}
+                className="rounded bg-gray-700 border-gray-600"
+              />
+              Embed prompt, settings and model {format.supportsMetadata ? '(text chunks + XMP)' : `(not available for ${format.label})`}
+            </label>
+            <div>
+              <label htmlFor="export-sku" className="block text-sm font-medium text-gray-400 mb-1">SKU / product name</label>
+              <input
+                id="export-sku"
+                type="text"
+                value={sku}
+                onChange={(e) => setSku(e.target.value)}
+                className="w-full p-2.5 bg-gray-700 border border-gray-600 text-white rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="export-file-name" className="block text-sm font-medium text-gray-400 mb-1">File name template</label>
+              <input
+                id="export-file-name"
+                type="text"
+                value={options.fileNameTemplate}
+                onChange={(e) => updateOptions({ fileNameTemplate: e.target.value })}
+                className="w-full p-2.5 bg-gray-700 border border-gray-600 text-white rounded-lg font-mono text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Tokens: {FILE_NAME_TOKENS.map(token => `{${token}}`).join(' ')}
+              </p>
+              <p className="mt-1 text-xs text-gray-400 truncate" title={previewName}>Preview: {previewName}</p>
+            </div>
+          </div>
+        </main>
+
+        <footer className="p-4 flex justify-between items-center gap-4 border-t border-gray-700 flex-shrink-0">
+          <p className={`text-sm ${message?.type === 'error' ? 'text-red-300' : 'text-yellow-300'}`} role={message ? 'alert' : undefined}>
+            {message?.text}
+          </p>
+          <div className="flex gap-4 flex-shrink-0">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-500 transition-colors"
+            >
+              {message?.type === 'warning' ? 'Done' : 'Cancel'}
+            </button>
+            <button
+              onClick={handleExportClick}
+              disabled={isExporting}
+              className="px-6 py-2 bg-green-600 text-white font-bold rounded-lg hover:bg-green-700 disabled:bg-gray-500 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors"
+            >
+              {isExporting ? <><Spinner size="sm" /> Exporting...</> : <><Icon type="download" className="w-5 h-5" /> Export</>}
+            </button>
+          </div>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default ExportModal;
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { FidelityReport } from '../types';
+import Icon from './Icon';
+import Spinner from './Spinner';
+
+interface FidelityReportViewProps {
+  /** Undefined if never checked, null while a check is running. */
+  report: FidelityReport | null | undefined;
+  isRetrying: boolean;
+  onRetry: () => void;
+}
+
+const toPercent = (score: number) => `${Math.round(score * 100)}%`;
+
+const FidelityReportView: React.FC<FidelityReportViewProps> = ({ report, isRetrying, onRetry }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (report === undefined) return null;
+
+  if (report === null || isRetrying) {
+    return (
+      <div className="mt-3 flex items-center gap-2 text-sm text-gray-400">
+        <Spinner size="sm" /> {isRetrying ? 'Regenerating for product fidelity...' : 'Checking product fidelity...'}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`mt-3 rounded-lg border p-3 text-sm ${report.isFlagged ? 'border-yellow-700 bg-yellow-900/30' : 'border-gray-700 bg-gray-900/50'}`}>
+      <div className="flex items-center justify-between gap-2">
+        <button
+          onClick={() => setIsExpanded(prev => !prev)}
+          className={`flex items-center gap-2 font-semibold ${report.isFlagged ? 'text-yellow-200' : 'text-green-300'}`}
+          aria-expanded={isExpanded}
+        >
+          {report.isFlagged && <Icon type="alert" className="w-5 h-5" />}
+          Product fidelity {toPercent(report.score)}
+          <span className="font-normal text-gray-400">
+            {report.isFlagged ? '· check the product before using this image' : '· looks faithful'}
+          </span>
+        </button>
+        {report.isFlagged && (
+          <button onClick={onRetry} className="flex-shrink-0 text-indigo-300 hover:text-indigo-200 font-semibold flex items-center gap-1">
+            <Icon type="retry" className="w-4 h-4" /> Retry
+          </button>
+        )}
+      </div>
+      {report.isFlagged && report.differences.length > 0 && !isExpanded && (
+        <p className="mt-1 text-gray-300 truncate" title={report.differences[0].description}>{report.differences[0].description}</p>
+      )}
+      {isExpanded && (
+        <div className="mt-2 space-y-2">
+          <p className="text-xs text-gray-400">
+            Vision check {report.visionScore === null ? 'unavailable' : toPercent(report.visionScore)} ·
+            shape match {toPercent(report.perceptualScore)} · color match {toPercent(report.histogramScore)} ·
+            threshold {toPercent(report.threshold)}
+          </p>
+          {report.differences.length === 0 ? (
+            <p className="text-gray-400">No differences reported.</p>
+          ) : (
+            <ul className="space-y-1">
+              {report.differences.map((difference, index) => (
+                <li key={index} className="text-gray-300">
+                  <span className={`mr-2 text-xs font-semibold uppercase ${difference.severity === 'major' ? 'text-yellow-300' : 'text-gray-500'}`}>
+                    {difference.category}
+                  </span>
+                  {difference.description}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FidelityReportView;
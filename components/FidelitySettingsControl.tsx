@@ -0,0 +1,52 @@
+import React from 'react';
+import { FidelitySettings } from '../services/fidelityService';
+
+interface FidelitySettingsControlProps {
+  settings: FidelitySettings;
+  onChange: (settings: FidelitySettings) => void;
+}
+
+const FidelitySettingsControl: React.FC<FidelitySettingsControlProps> = ({ settings, onChange }) => {
+  const update = (changes: Partial<FidelitySettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="rounded bg-gray-700 border-gray-600"
+        />
+        Check product fidelity after generating
+      </label>
+      {settings.enabled && (
+        <div className="pl-6 space-y-2">
+          <label className="block text-sm text-gray-400">
+            Flag results below {Math.round(settings.threshold * 100)}%
+            <input
+              type="range"
+              min="0.5"
+              max="0.95"
+              step="0.05"
+              value={settings.threshold}
+              onChange={(e) => update({ threshold: Number(e.target.value) })}
+              className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={settings.autoRetry}
+              onChange={(e) => update({ autoRetry: e.target.checked })}
+              className="rounded bg-gray-700 border-gray-600"
+            />
+            Automatically retry flagged results once
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FidelitySettingsControl;
@@ -1,47 +1,211 @@
 
-import React, { useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { isAbortError } from '../services/abortUtils';
+import { fetchImageFromUrl, getTransferUrl, hasTransferFiles, validateImageUrl } from '../services/imageImportService';
 import Icon from './Icon';
 
 interface FileUploadProps {
   onFileUpload: (file: File) => void;
   label: string;
   id: string;
+  multiple?: boolean;
+  /** The picker's `accept` filter; defaults to the formats the model takes directly. */
+  accept?: string;
+  formatsLabel?: string;
+  /** Shows a field for importing an image from a web address. */
+  allowUrlImport?: boolean;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, label, id }) => {
+/**
+ * An upload zone: click to pick files, drop files or an image dragged from another page
+ * onto it, or paste while it has focus. Every file goes to `onFileUpload`, which checks it.
+ */
+const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, label, id, multiple = false, accept = 'image/png, image/jpeg, image/webp', formatsLabel = 'PNG, JPG, WEBP', allowUrlImport = false }) => {
   const inputRef = useRef<HTMLInputElement>(null);
+  const importControllerRef = useRef<AbortController | null>(null);
+  // dragenter and dragleave also fire for the zone's children, so count them.
+  const dragDepthRef = useRef(0);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUrlFormOpen, setIsUrlFormOpen] = useState(false);
+  const [url, setUrl] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
+  useEffect(() => () => importControllerRef.current?.abort(), []);
+
+  const handleFiles = (files: File[]) => {
+    setError(null);
+    if (files.length === 0) return;
+    if (!multiple && files.length > 1) {
+      setError(`Only one image can be used here, so the first of the ${files.length} was taken.`);
+      onFileUpload(files[0]);
+      return;
+    }
+    files.forEach(file => onFileUpload(file));
+  };
+
+  const importUrl = async (value: string) => {
+    const validationError = validateImageUrl(value);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    importControllerRef.current?.abort();
+    const controller = new AbortController();
+    importControllerRef.current = controller;
+    setError(null);
+    setIsImporting(true);
+    try {
+      const file = await fetchImageFromUrl(value, controller.signal);
       onFileUpload(file);
+      setUrl('');
+      setIsUrlFormOpen(false);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(`Could not import the image: ${(err as Error).message}`);
+    } finally {
+      if (importControllerRef.current === controller) {
+        importControllerRef.current = null;
+        setIsImporting(false);
+      }
     }
   };
 
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(Array.from(event.target.files ?? []));
+    // Reset so selecting the same file again still fires onChange
+    event.target.value = '';
+  };
+
   const handleClick = () => {
     inputRef.current?.click();
   };
 
+  const handleDragEnter = (event: React.DragEvent) => {
+    event.preventDefault();
+    dragDepthRef.current += 1;
+    setIsDragging(true);
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    // Without this the browser refuses the drop.
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = () => {
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setIsDragging(false);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDragging(false);
+    if (hasTransferFiles(event.dataTransfer)) {
+      handleFiles(Array.from(event.dataTransfer.files));
+      return;
+    }
+    const droppedUrl = getTransferUrl(event.dataTransfer);
+    if (droppedUrl) {
+      void importUrl(droppedUrl);
+    } else {
+      setError('Nothing to upload was dropped. Drop image files or an image from another page.');
+    }
+  };
+
+  const handlePaste = (event: React.ClipboardEvent) => {
+    // Typing or pasting into the address field is ordinary text entry.
+    if (event.target instanceof HTMLInputElement) return;
+    const files: File[] = Array.from(event.clipboardData.files);
+    const pastedUrl = files.length === 0 ? getTransferUrl(event.clipboardData) : null;
+    if (files.length === 0 && !pastedUrl) return;
+    event.preventDefault();
+    if (pastedUrl) {
+      void importUrl(pastedUrl);
+    } else {
+      handleFiles(files);
+    }
+  };
+
+  const handleUrlSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    void importUrl(url);
+  };
+
   return (
-    <div>
+    <div onPaste={handlePaste}>
       <input
         type="file"
         id={id}
         ref={inputRef}
         onChange={handleFileChange}
+        multiple={multiple}
         className="hidden"
-        accept="image/png, image/jpeg, image/webp"
+        accept={accept}
       />
       <button
         onClick={handleClick}
-        className="w-full bg-gray-700/50 border-2 border-dashed border-gray-600 rounded-lg p-4 text-center cursor-pointer hover:bg-gray-700 hover:border-gray-500 transition-colors"
+        onDragEnter={handleDragEnter}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        className={`w-full border-2 border-dashed rounded-lg p-4 text-center cursor-pointer transition-colors ${
+          isDragging ? 'bg-indigo-900/30 border-indigo-400' : 'bg-gray-700/50 border-gray-600 hover:bg-gray-700 hover:border-gray-500'
+        }`}
       >
-        <div className="flex flex-col items-center justify-center">
+        <div className="flex flex-col items-center justify-center pointer-events-none">
             <Icon type="upload" className="w-8 h-8 mb-2 text-gray-400" />
-            <span className="text-sm font-medium text-gray-300">{label}</span>
-            <span className="text-xs text-gray-500">PNG, JPG, WEBP</span>
+            <span className="text-sm font-medium text-gray-300">{isDragging ? 'Drop to upload' : label}</span>
+            <span className="text-xs text-gray-500">{formatsLabel}</span>
+            <span className="text-xs text-gray-500">Drag and drop or paste {multiple ? 'images' : 'an image'} here</span>
         </div>
       </button>
+      {allowUrlImport && (
+        isUrlFormOpen ? (
+          <form onSubmit={handleUrlSubmit} className="mt-2 flex gap-2">
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.com/photo.jpg"
+              aria-label="Image address"
+              autoFocus
+              disabled={isImporting}
+              className="flex-1 min-w-0 p-2 bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition disabled:opacity-60"
+            />
+            <button
+              type="submit"
+              disabled={isImporting || !url.trim()}
+              className="px-3 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+            >
+              {isImporting ? 'Importing…' : 'Import'}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                importControllerRef.current?.abort();
+                setIsUrlFormOpen(false);
+                setError(null);
+              }}
+              className="text-gray-400 hover:text-white transition-colors"
+              aria-label="Close the image address field"
+            >
+              <Icon type="close" className="w-5 h-5" />
+            </button>
+          </form>
+        ) : (
+          <button
+            onClick={() => setIsUrlFormOpen(true)}
+            disabled={isImporting}
+            className="mt-2 flex items-center gap-1 text-sm text-indigo-400 hover:text-indigo-300 font-semibold disabled:opacity-60"
+          >
+            <Icon type="link" className="w-4 h-4" />
+            {isImporting ? 'Importing…' : 'Import from URL'}
+          </button>
+        )
+      )}
+      {error && <p className="mt-2 text-xs text-red-400" role="alert">{error}</p>}
     </div>
   );
 };
@@ -0,0 +1,49 @@
+import React from 'react';
+import { GenerationFailureAdvice } from '../services/generationAdvice';
+
+interface GenerationFailureDetailsProps {
+  advice: GenerationFailureAdvice;
+}
+
+/**
+ * Explains a failed image request inside the error banner: the model's own reply, the
+ * finish reason and blocked categories, and what to change before trying again.
+ */
+const GenerationFailureDetails: React.FC<GenerationFailureDetailsProps> = ({ advice }) => {
+  const { diagnostics, categories, explanation, flaggedTerms, suggestions } = advice;
+
+  return (
+    <div className="mt-3 space-y-2 text-sm text-red-100">
+      <p>{explanation}</p>
+      {diagnostics.modelText && (
+        <blockquote className="border-l-2 border-red-500 pl-3 italic text-red-200 whitespace-pre-line">
+          {diagnostics.modelText}
+        </blockquote>
+      )}
+      {(categories.length > 0 || diagnostics.finishReason || diagnostics.blockReason) && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {diagnostics.blockReason && <span className="text-red-300">Prompt blocked: {diagnostics.blockReason}</span>}
+          {diagnostics.finishReason && <span className="text-red-300">Finish reason: {diagnostics.finishReason}</span>}
+          {categories.map(category => (
+            <span key={category} className="rounded-full bg-red-800/60 px-2 py-0.5 text-red-100">
+              {category}
+            </span>
+          ))}
+        </div>
+      )}
+      {flaggedTerms.length > 0 && (
+        <p className="text-xs">
+          Likely triggers in the prompt:{' '}
+          {flaggedTerms.map(term => (
+            <mark key={term} className="mx-0.5 rounded bg-yellow-300/80 px-1 text-gray-900">{term}</mark>
+          ))}
+        </p>
+      )}
+      <ul className="list-disc pl-5 space-y-1 text-red-200">
+        {suggestions.map(suggestion => <li key={suggestion}>{suggestion}</li>)}
+      </ul>
+    </div>
+  );
+};
+
+export default GenerationFailureDetails;
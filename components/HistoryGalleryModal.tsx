@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { HistoryEntry } from '../types';
+import { describeAspectRatio } from '../constants';
+import { clearHistory, deleteHistoryEntry, listHistoryEntries } from '../services/historyService';
+import Icon from './Icon';
+import Spinner from './Spinner';
+
+interface HistoryGalleryModalProps {
+  onRestore: (entry: HistoryEntry) => void;
+  onRerun: (entry: HistoryEntry) => void;
+  onClose: () => void;
+}
+
+const HistoryGalleryModal: React.FC<HistoryGalleryModalProps> = ({ onRestore, onRerun, onClose }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listHistoryEntries()
+      .then(setEntries)
+      .catch((err: Error) => {
+        console.error('Failed to load history:', err);
+        setError(`Could not load history: ${err.message}`);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteHistoryEntry(id);
+      setEntries(prev => prev.filter(entry => entry.id !== id));
+    } catch (err) {
+      console.error('Failed to delete history entry:', err);
+      setError('Could not delete this entry.');
+    }
+  };
+
+  const handleClearAll = async () => {
+    if (!window.confirm('Delete every saved generation? This cannot be undone.')) return;
+    try {
+      await clearHistory();
+      setEntries([]);
+    } catch (err) {
+      console.error('Failed to clear history:', err);
+      setError('Could not clear history.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="history-modal-title">
+      <div className="bg-gray-800 rounded-2xl shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <header className="p-4 flex items-center justify-between border-b border-gray-700 flex-shrink-0">
+          <h2 id="history-modal-title" className="text-xl font-semibold text-white flex items-center gap-2">
+            <Icon type="clock" /> Generation History
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Close history">
+            <Icon type="close" />
+          </button>
+        </header>
+
+        <main className="p-6 flex-grow overflow-auto">
+          {error && <p className="mb-4 text-sm text-red-300">{error}</p>}
+          {isLoading && (
+            <div className="flex justify-center py-12"><Spinner size="lg" /></div>
+          )}
+          {!isLoading && entries.length === 0 && (
+            <div className="text-center text-gray-500 py-12">
+              <Icon type="clock" className="w-16 h-16 mx-auto mb-2" />
+              Generated images are saved here automatically.
+            </div>
+          )}
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+            {entries.map(entry => (
+              <div key={entry.id} className="bg-gray-900/60 border border-gray-700 rounded-lg overflow-hidden flex flex-col">
+                <div className="relative aspect-square bg-gray-900">
+                  <img src={entry.resultImages[0]} alt="Generated result" className="w-full h-full object-contain" />
+                  {entry.resultImages.length > 1 && (
+                    <span className="absolute top-2 left-2 text-xs font-semibold bg-gray-900 bg-opacity-70 text-white rounded px-2 py-0.5">
+                      {entry.resultImages.length} variations
+                    </span>
+                  )}
+                  <button
+                    onClick={() => handleDelete(entry.id)}
+                    className="absolute top-2 right-2 bg-gray-900 bg-opacity-60 text-white rounded-full p-1 hover:bg-opacity-80 hover:text-red-300"
+                    aria-label="Delete history entry"
+                  >
+                    <Icon type="trash" className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="p-3 flex-grow flex flex-col text-xs text-gray-400 gap-1">
+                  <span className="text-gray-200 font-medium">{new Date(entry.createdAt).toLocaleString()}</span>
+                  <span>{describeAspectRatio(entry.settings)} · {entry.settings.lightingStyle} · {entry.settings.cameraPerspective}</span>
+                  <span className="truncate" title={entry.imageModel}>{entry.imageModel}</span>
+                  <div className="grid grid-cols-2 gap-2 mt-auto pt-2">
+                    <button
+                      onClick={() => onRestore(entry)}
+                      className="py-1.5 bg-gray-600 text-white font-semibold rounded hover:bg-gray-500 transition-colors"
+                    >
+                      Restore
+                    </button>
+                    <button
+                      onClick={() => onRerun(entry)}
+                      className="py-1.5 bg-indigo-600 text-white font-semibold rounded hover:bg-indigo-700 transition-colors"
+                    >
+                      Re-run
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </main>
+
+        <footer className="p-4 flex justify-between items-center border-t border-gray-700 flex-shrink-0">
+          <span className="text-sm text-gray-500">{entries.length} saved generations, stored in this browser</span>
+          <button
+            onClick={handleClearAll}
+            disabled={entries.length === 0}
+            className="px-4 py-2 bg-gray-600 text-white font-semibold rounded-lg hover:bg-red-700 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+          >
+            Clear History
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryGalleryModal;
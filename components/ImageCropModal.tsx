@@ -1,5 +1,9 @@
 import React, { useState, useRef, useEffect } from 'react';
 import ReactCrop, { type Crop, centerCrop, makeAspectCrop } from 'react-image-crop';
+import { Base64Image, CropFit, CropOptions } from '../types';
+import { MAX_CROP_MARGIN, MAX_STRAIGHTEN_DEGREES } from '../constants';
+import { cropToRegion, CropRegion, CropSource, findSubjectBounds, frameSubject, renderCropSource } from '../services/cropService';
+import { getBorderColor } from '../services/imageUtils';
 import Icon from './Icon';
 import Spinner from './Spinner';
 
@@ -7,139 +11,156 @@ interface ImageCropModalProps {
   imageSrc: string;
   mimeType: string;
   aspect: number;
-  onSave: (croppedImage: { base64: string, mimeType: string }) => void;
+  /** The options the current crop was made with, so a recrop starts from them. */
+  initialOptions: CropOptions;
+  onSave: (croppedImage: Base64Image, options: CropOptions) => void;
   onClose: () => void;
 }
 
-// Helper to get the cropped image data from a canvas
-function getCroppedImg(
-  image: HTMLImageElement,
-  crop: Crop,
-  mimeType: string
-): Promise<{ base64: string, mimeType: string }> {
-  return new Promise((resolve, reject) => {
-    const canvas = document.createElement('canvas');
-    const scaleX = image.naturalWidth / image.width;
-    const scaleY = image.naturalHeight / image.height;
-    
-    canvas.width = Math.floor(crop.width * scaleX);
-    canvas.height = Math.floor(crop.height * scaleY);
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-      reject(new Error('Could not get canvas context'));
-      return;
-    }
+const RENDER_DEBOUNCE_MS = 150;
 
-    const cropX = crop.x * scaleX;
-    const cropY = crop.y * scaleY;
-    const cropWidth = crop.width * scaleX;
-    const cropHeight = crop.height * scaleY;
-
-    ctx.drawImage(
-      image,
-      cropX,
-      cropY,
-      cropWidth,
-      cropHeight,
-      0,
-      0,
-      cropWidth,
-      cropHeight
-    );
-
-    canvas.toBlob(
-      (blob) => {
-        if (!blob) {
-          reject(new Error('Canvas is empty'));
-          return;
-        }
-        const reader = new FileReader();
-        reader.readAsDataURL(blob);
-        reader.onloadend = () => {
-          if (reader.result) {
-            const base64data = (reader.result as string).split(',')[1];
-            resolve({ base64: base64data, mimeType: mimeType });
-          } else {
-             reject(new Error('Failed to read blob as data URL'));
-          }
-        };
-        reader.onerror = (error) => reject(error);
-      },
-      mimeType,
-      1 // quality
-    );
-  });
-}
+const FIT_OPTIONS: { value: CropFit, label: string, description: string }[] = [
+  { value: 'crop', label: 'Crop to fit', description: 'Cut the photo down to the aspect ratio.' },
+  { value: 'pad', label: 'Fit with padding', description: 'Extend the photo with a background color so the whole product stays in frame.' },
+];
+
+const toPercentCrop = (region: CropRegion, source: CropSource): Crop => ({
+  unit: '%',
+  x: region.x / source.width * 100,
+  y: region.y / source.height * 100,
+  width: region.width / source.width * 100,
+  height: region.height / source.height * 100,
+});
+
+/**
+ * The starting crop: the detected product with its margin, the whole padded canvas, or a
+ * centered crop of most of the photo when neither applies.
+ */
+const getInitialCrop = (source: CropSource, subject: CropRegion | null, aspect: number, options: CropOptions): Crop => {
+  if (options.autoFrame && subject) {
+    const placed = { ...subject, x: subject.x + source.photo.x, y: subject.y + source.photo.y };
+    return toPercentCrop(frameSubject(placed, source, aspect, options.margin), source);
+  }
+  if (options.fit === 'pad') {
+    return toPercentCrop(frameSubject(source.photo, source, aspect, options.margin), source);
+  }
+  return centerCrop(makeAspectCrop({ unit: '%', width: 90 }, aspect, source.width, source.height), source.width, source.height);
+};
 
+/** The fine rotation left after the quarter turns, for the straighten slider. */
+const getStraighten = (rotation: number): number => rotation - Math.round(rotation / 90) * 90;
 
-const ImageCropModal: React.FC<ImageCropModalProps> = ({ imageSrc, mimeType, aspect, onSave, onClose }) => {
+const ImageCropModal: React.FC<ImageCropModalProps> = ({ imageSrc, mimeType, aspect, initialOptions, onSave, onClose }) => {
+  const [options, setOptions] = useState<CropOptions>(initialOptions);
+  const [source, setSource] = useState<CropSource | null>(null);
+  // undefined while detection runs; null when no distinct product was found.
+  const [subject, setSubject] = useState<CropRegion | null | undefined>(undefined);
+  const [borderColor, setBorderColor] = useState('#ffffff');
   const [crop, setCrop] = useState<Crop>();
   const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const imgRef = useRef<HTMLImageElement>(null);
   const [scale, setScale] = useState(1);
   const [imgSize, setImgSize] = useState({ width: 0, height: 0 });
 
+  const { autoFrame, margin, fit, padColor, rotation } = options;
+  const updateOptions = (changes: Partial<CropOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+  // The margin only changes the canvas when it is padded.
+  const padMargin = fit === 'pad' ? margin : 0;
+
+  useEffect(() => {
+    let isCurrent = true;
+    getBorderColor(imageSrc)
+      .then(color => {
+        if (isCurrent) setBorderColor(color);
+      })
+      .catch(err => console.error('Failed to read the photo border color:', err));
+    return () => {
+      isCurrent = false;
+    };
+  }, [imageSrc]);
+
+  useEffect(() => {
+    let isCurrent = true;
+    const timer = setTimeout(() => {
+      renderCropSource(imageSrc, aspect, options)
+        .then(rendered => {
+          if (!isCurrent) return;
+          setSource(rendered);
+          // Measure the new canvas afresh; a quarter turn swaps its sides.
+          setImgSize({ width: 0, height: 0 });
+        })
+        .catch(err => {
+          console.error('Failed to prepare the photo for cropping:', err);
+          if (isCurrent) setError('Could not prepare the photo. Please try a different file.');
+        });
+    }, RENDER_DEBOUNCE_MS);
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [imageSrc, aspect, rotation, fit, padMargin, padColor]);
+
+  useEffect(() => {
+    if (!autoFrame) return;
+    let isCurrent = true;
+    setSubject(undefined);
+    const timer = setTimeout(() => {
+      findSubjectBounds(imageSrc, rotation)
+        .then(bounds => {
+          if (isCurrent) setSubject(bounds);
+        })
+        .catch(err => {
+          console.error('Product detection failed:', err);
+          if (isCurrent) setSubject(null);
+        });
+    }, RENDER_DEBOUNCE_MS);
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [imageSrc, rotation, autoFrame]);
+
+  // Reframe whenever the canvas, the detected product or the framing settings change.
+  useEffect(() => {
+    if (!source || (autoFrame && subject === undefined)) return;
+    setCrop(getInitialCrop(source, subject ?? null, aspect, options));
+  }, [source, subject, aspect, autoFrame, margin]);
+
   function onImageLoad(e: React.SyntheticEvent<HTMLImageElement>) {
-    const { width, height, naturalWidth, naturalHeight } = e.currentTarget;
+    const { width, height } = e.currentTarget;
     setImgSize({ width, height });
-
-    if (naturalWidth > 0 && naturalHeight > 0) {
-      const newCrop = centerCrop(
-        makeAspectCrop(
-          {
-            unit: '%',
-            width: 90,
-          },
-          aspect,
-          naturalWidth,
-          naturalHeight
-        ),
-        naturalWidth,
-        naturalHeight
-      );
-      setCrop(newCrop);
-    }
   }
-  
-  // Recalculate crop when aspect ratio changes after image has loaded
-  useEffect(() => {
-    if (imgRef.current) {
-      const { naturalWidth, naturalHeight } = imgRef.current;
-      if (naturalWidth > 0 && naturalHeight > 0) {
-        const newCrop = centerCrop(
-          makeAspectCrop(
-            {
-              unit: '%',
-              width: 90,
-            },
-            aspect,
-            naturalWidth,
-            naturalHeight
-          ),
-          naturalWidth,
-          naturalHeight
-        );
-        setCrop(newCrop);
-      }
-    }
-  }, [aspect]);
 
   const handleSaveClick = async () => {
-    if (imgRef.current && crop?.width && crop?.height) {
-      setIsSaving(true);
-      try {
-        const croppedImage = await getCroppedImg(imgRef.current, crop, mimeType);
-        onSave(croppedImage);
-      } catch (e) {
-        console.error('Cropping failed', e);
-        // In a real app, you might want to show an error to the user here.
-      } finally {
-        setIsSaving(false);
-      }
+    if (!source || !crop?.width || !crop?.height) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const region = {
+        x: crop.x / 100 * source.width,
+        y: crop.y / 100 * source.height,
+        width: crop.width / 100 * source.width,
+        height: crop.height / 100 * source.height,
+      };
+      onSave(await cropToRegion(source.url, region, mimeType), options);
+    } catch (e) {
+      console.error('Cropping failed', e);
+      setError('Could not crop the photo. Please try again.');
+    } finally {
+      setIsSaving(false);
     }
   };
 
+  const straighten = getStraighten(rotation);
+  const framingStatus = !autoFrame
+    ? null
+    : subject === undefined
+      ? 'Finding the product...'
+      : subject === null
+        ? 'No distinct product found against the background; framed the center instead.'
+        : 'Framed around the detected product.';
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="crop-modal-title">
       <div className="bg-gray-800 rounded-2xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
@@ -152,7 +173,8 @@ const ImageCropModal: React.FC<ImageCropModalProps> = ({ imageSrc, mimeType, asp
           </button>
         </header>
 
-        <main className="p-6 flex-grow flex items-center justify-center overflow-auto bg-black/50">
+        <main className="p-6 flex-grow flex items-center justify-center overflow-auto bg-black/50 min-h-[12rem]">
+          {source ? (
             <ReactCrop
               crop={crop}
               onChange={(_, percentCrop) => setCrop(percentCrop)}
@@ -161,11 +183,11 @@ const ImageCropModal: React.FC<ImageCropModalProps> = ({ imageSrc, mimeType, asp
               <img
                 ref={imgRef}
                 alt="Image to crop"
-                src={imageSrc}
+                src={source.url}
                 onLoad={onImageLoad}
                 style={{
                     ...(!imgSize.width && { // Before load, use constraints
-                        maxHeight: '65vh',
+                        maxHeight: '55vh',
                         maxWidth: '100%',
                     }),
                     ...(imgSize.width && { // After load, use explicit scaled size
@@ -177,8 +199,116 @@ const ImageCropModal: React.FC<ImageCropModalProps> = ({ imageSrc, mimeType, asp
                 className="object-contain"
               />
             </ReactCrop>
+          ) : (
+            <Spinner size="lg" />
+          )}
         </main>
-        
+
+        <section className="p-4 grid grid-cols-1 sm:grid-cols-3 gap-4 border-t border-gray-700 flex-shrink-0 text-sm text-gray-300" aria-label="Framing options">
+          <fieldset className="space-y-2">
+            <legend className="block text-sm font-medium text-gray-400 mb-2">Framing</legend>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={autoFrame}
+                onChange={(e) => updateOptions({ autoFrame: e.target.checked })}
+                className="rounded bg-gray-700 border-gray-600"
+              />
+              Auto-frame the product
+            </label>
+            <label className="block">
+              Margin: {Math.round(margin * 100)}%
+              <input
+                type="range"
+                min="0"
+                max={MAX_CROP_MARGIN}
+                step="0.01"
+                value={margin}
+                onChange={(e) => updateOptions({ margin: Number(e.target.value) })}
+                className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+              />
+            </label>
+            {framingStatus && <p className="text-xs text-gray-500" aria-live="polite">{framingStatus}</p>}
+          </fieldset>
+
+          <fieldset className="space-y-2">
+            <legend className="block text-sm font-medium text-gray-400 mb-2">Fit</legend>
+            <div className="grid grid-cols-2 gap-2">
+              {FIT_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => updateOptions({ fit: option.value })}
+                  className={`px-2 py-1 rounded-lg border text-xs font-semibold transition-colors ${fit === option.value ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'}`}
+                  title={option.description}
+                  aria-pressed={fit === option.value}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="color"
+                value={padColor ?? borderColor}
+                onChange={(e) => updateOptions({ padColor: e.target.value })}
+                className="w-8 h-8 bg-transparent cursor-pointer"
+                aria-label="Padding color"
+              />
+              <span className="flex-grow">{padColor ? 'Padding color' : 'Matches the photo edge'}</span>
+              {padColor && (
+                <button
+                  onClick={() => updateOptions({ padColor: null })}
+                  className="text-xs text-indigo-400 hover:text-indigo-300 font-semibold"
+                >
+                  Auto
+                </button>
+              )}
+            </div>
+          </fieldset>
+
+          <fieldset className="space-y-2">
+            <legend className="block text-sm font-medium text-gray-400 mb-2">Rotation</legend>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => updateOptions({ rotation: rotation - 90 })}
+                className="p-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-300"
+                aria-label="Rotate 90° counterclockwise"
+                title="Rotate 90° counterclockwise"
+              >
+                <Icon type="rotateLeft" className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => updateOptions({ rotation: rotation + 90 })}
+                className="p-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-300"
+                aria-label="Rotate 90° clockwise"
+                title="Rotate 90° clockwise"
+              >
+                <Icon type="rotateRight" className="w-5 h-5" />
+              </button>
+              {rotation !== 0 && (
+                <button
+                  onClick={() => updateOptions({ rotation: 0 })}
+                  className="ml-auto text-xs text-indigo-400 hover:text-indigo-300 font-semibold"
+                >
+                  Reset
+                </button>
+              )}
+            </div>
+            <label className="block">
+              Straighten: {straighten > 0 ? '+' : ''}{straighten}°
+              <input
+                type="range"
+                min={-MAX_STRAIGHTEN_DEGREES}
+                max={MAX_STRAIGHTEN_DEGREES}
+                step="0.5"
+                value={straighten}
+                onChange={(e) => updateOptions({ rotation: rotation - straighten + Number(e.target.value) })}
+                className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+              />
+            </label>
+          </fieldset>
+        </section>
+
         <footer className="p-4 flex justify-between items-center gap-4 border-t border-gray-700 flex-shrink-0">
            <div className="flex items-center gap-2 w-1/2 max-w-xs">
               <Icon type="zoomOut" className="w-5 h-5 text-gray-400" />
@@ -195,7 +325,8 @@ const ImageCropModal: React.FC<ImageCropModalProps> = ({ imageSrc, mimeType, asp
               <Icon type="zoomIn" className="w-5 h-5 text-gray-400" />
             </div>
 
-          <div className="flex gap-4">
+          <div className="flex items-center gap-4">
+            {error && <p className="text-sm text-red-300" role="alert">{error}</p>}
             <button
               onClick={onClose}
               className="px-4 py-2 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-500 transition-colors"
@@ -204,7 +335,7 @@ const ImageCropModal: React.FC<ImageCropModalProps> = ({ imageSrc, mimeType, asp
             </button>
             <button
               onClick={handleSaveClick}
-              disabled={isSaving || !crop?.width || !crop?.height}
+              disabled={isSaving || !source || !crop?.width || !crop?.height}
               className="px-6 py-2 bg-indigo-600 text-white font-bold rounded-lg hover:bg-indigo-700 disabled:bg-gray-500 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors"
             >
               {isSaving ? <><Spinner size="sm" /> Saving...</> : 'Crop & Save Image'}
@@ -216,4 +347,4 @@ const ImageCropModal: React.FC<ImageCropModalProps> = ({ imageSrc, mimeType, asp
   );
 };
 
-export default ImageCropModal;
\ No newline at end of file
+export default ImageCropModal;
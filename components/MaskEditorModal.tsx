@@ -0,0 +1,293 @@
+import React, { useRef, useState } from 'react';
+import { Base64Image } from '../types';
+import { canvasToBase64Image, createCanvas } from '../services/imageUtils';
+import Icon from './Icon';
+import Spinner from './Spinner';
+
+type MaskTool = 'brush' | 'eraser' | 'rectangle' | 'lasso';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface MaskEditorModalProps {
+  imageSrc: string;
+  title: string;
+  onApply: (mask: Base64Image, instruction: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const MASK_COLOR = 'rgb(239, 68, 68)';
+
+const TOOLS: { tool: MaskTool, label: string }[] = [
+  { tool: 'brush', label: 'Brush' },
+  { tool: 'eraser', label: 'Eraser' },
+  { tool: 'rectangle', label: 'Rectangle' },
+  { tool: 'lasso', label: 'Lasso' },
+];
+
+/**
+ * Converts the painted overlay into a black-and-white mask (white = editable).
+ * Returns null if nothing has been painted.
+ */
+async function exportMask(maskCanvas: HTMLCanvasElement): Promise<Base64Image | null> {
+  const { width, height } = maskCanvas;
+  const painted = maskCanvas.getContext('2d')?.getImageData(0, 0, width, height);
+  if (!painted) return null;
+
+  const { canvas, ctx } = createCanvas(width, height);
+  const output = ctx.createImageData(width, height);
+  let hasMaskedPixels = false;
+  for (let i = 0; i < painted.data.length; i += 4) {
+    const value = painted.data[i + 3] > 0 ? 255 : 0;
+    hasMaskedPixels ||= value === 255;
+    output.data[i] = value;
+    output.data[i + 1] = value;
+    output.data[i + 2] = value;
+    output.data[i + 3] = 255;
+  }
+  if (!hasMaskedPixels) return null;
+
+  ctx.putImageData(output, 0, 0);
+  return canvasToBase64Image(canvas, 'image/png');
+}
+
+const MaskEditorModal: React.FC<MaskEditorModalProps> = ({ imageSrc, title, onApply, onClose }) => {
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const [instruction, setInstruction] = useState('');
+  const [naturalSize, setNaturalSize] = useState<{ width: number, height: number } | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+  const strokeRef = useRef<{ start: Point, last: Point, points: Point[] } | null>(null);
+
+  function onImageLoad(e: React.SyntheticEvent<HTMLImageElement>) {
+    const { naturalWidth, naturalHeight } = e.currentTarget;
+    setNaturalSize({ width: naturalWidth, height: naturalHeight });
+  }
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height),
+    };
+  };
+
+  const strokeSegment = (from: Point, to: Point) => {
+    const ctx = maskCanvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  };
+
+  const traceShape = (ctx: CanvasRenderingContext2D, start: Point, end: Point, points: Point[]) => {
+    ctx.beginPath();
+    if (tool === 'rectangle') {
+      ctx.rect(start.x, start.y, end.x - start.x, end.y - start.y);
+    } else {
+      points.forEach((point, index) => (index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+      ctx.closePath();
+    }
+  };
+
+  const drawPreview = (start: Point, end: Point, points: Point[]) => {
+    const canvas = previewCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = MASK_COLOR;
+    ctx.globalAlpha = 0.35;
+    traceShape(ctx, start, end, points);
+    ctx.fill();
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = '#fff';
+    ctx.lineWidth = Math.max(2, canvas.width / 400);
+    ctx.setLineDash([8, 6]);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = getPoint(e);
+    strokeRef.current = { start: point, last: point, points: [point] };
+    if (tool === 'brush' || tool === 'eraser') {
+      strokeSegment(point, point);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = strokeRef.current;
+    if (!stroke) return;
+    const point = getPoint(e);
+    if (tool === 'brush' || tool === 'eraser') {
+      strokeSegment(stroke.last, point);
+    } else {
+      if (tool === 'lasso') stroke.points.push(point);
+      drawPreview(stroke.start, point, stroke.points);
+    }
+    stroke.last = point;
+  };
+
+  const handlePointerUp = () => {
+    const stroke = strokeRef.current;
+    strokeRef.current = null;
+    if (!stroke || tool === 'brush' || tool === 'eraser') return;
+
+    const preview = previewCanvasRef.current;
+    preview?.getContext('2d')?.clearRect(0, 0, preview.width, preview.height);
+    const ctx = maskCanvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.fillStyle = MASK_COLOR;
+    traceShape(ctx, stroke.start, stroke.last, stroke.points);
+    ctx.fill();
+  };
+
+  const handleClearMask = () => {
+    const canvas = maskCanvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+  };
+
+  const handleApplyClick = async () => {
+    if (!maskCanvasRef.current) return;
+    setError(null);
+    const mask = await exportMask(maskCanvasRef.current);
+    if (!mask) {
+      setError('Paint over the area you want to change first.');
+      return;
+    }
+    setIsApplying(true);
+    try {
+      await onApply(mask, instruction.trim());
+    } catch (err) {
+      const error = err as Error;
+      console.error('Masked edit failed', error);
+      setError(error.message || 'An unknown error occurred while editing the image.');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="mask-modal-title">
+      <div className="bg-gray-800 rounded-2xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <header className="p-4 flex items-center justify-between border-b border-gray-700 flex-shrink-0">
+          <h2 id="mask-modal-title" className="text-xl font-semibold text-white">
+            {title}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Close masking tool">
+            <Icon type="close" />
+          </button>
+        </header>
+
+        <div className="px-4 py-3 flex flex-wrap items-center gap-4 border-b border-gray-700 flex-shrink-0">
+          <div className="inline-flex bg-gray-900 rounded-lg p-1" role="toolbar" aria-label="Mask tools">
+            {TOOLS.map(({ tool: value, label }) => (
+              <button
+                key={value}
+                onClick={() => setTool(value)}
+                className={`p-2 rounded-md transition-colors ${tool === value ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                aria-label={label}
+                aria-pressed={tool === value}
+                title={label}
+              >
+                <Icon type={value} className="w-5 h-5" />
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            Brush size
+            <input
+              type="range"
+              min="5"
+              max="200"
+              value={brushSize}
+              onChange={(e) => setBrushSize(Number(e.target.value))}
+              disabled={tool === 'rectangle' || tool === 'lasso'}
+              className="w-32 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+            />
+          </label>
+          <button onClick={handleClearMask} className="text-sm text-gray-400 hover:text-white transition-colors">
+            Clear mask
+          </button>
+        </div>
+
+        <main className="p-6 flex-grow flex items-center justify-center overflow-auto bg-black/50">
+          <div className="relative inline-block">
+            <img
+              src={imageSrc}
+              alt="Image to edit"
+              onLoad={onImageLoad}
+              className="block max-h-[55vh] max-w-full object-contain select-none"
+              draggable={false}
+            />
+            {naturalSize && (
+              <>
+                <canvas
+                  ref={maskCanvasRef}
+                  width={naturalSize.width}
+                  height={naturalSize.height}
+                  className="absolute inset-0 w-full h-full opacity-50 pointer-events-none"
+                />
+                <canvas
+                  ref={previewCanvasRef}
+                  width={naturalSize.width}
+                  height={naturalSize.height}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerCancel={handlePointerUp}
+                  className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+                  aria-label="Mask painting area"
+                />
+              </>
+            )}
+          </div>
+        </main>
+
+        <footer className="p-4 border-t border-gray-700 flex-shrink-0 space-y-3">
+          {error && <p className="text-sm text-red-300" role="alert">{error}</p>}
+          <div className="flex gap-4">
+            <input
+              type="text"
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              placeholder='What should change in the masked area? e.g. "replace the cup with a glass vase"'
+              className="flex-grow p-2.5 bg-gray-900 border-2 border-gray-700 rounded-lg text-gray-300 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+              aria-label="Instruction for the masked area"
+            />
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-500 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleApplyClick}
+              disabled={isApplying || !instruction.trim()}
+              className="px-6 py-2 bg-indigo-600 text-white font-bold rounded-lg hover:bg-indigo-700 disabled:bg-gray-500 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors"
+            >
+              {isApplying ? <><Spinner size="sm" /> Editing...</> : 'Apply to Masked Area'}
+            </button>
+          </div>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditorModal;
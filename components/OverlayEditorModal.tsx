@@ -0,0 +1,251 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { OverlayLayer } from '../types';
+import {
+  AlignmentGuides,
+  Point,
+  createBadgeLayer,
+  createTextLayer,
+  drawOverlayLayers,
+  findLayerAt,
+  measureLayer,
+  snapToGuides,
+} from '../services/overlayService';
+import Icon from './Icon';
+import OverlayLayerProperties from './OverlayLayerProperties';
+
+interface OverlayEditorModalProps {
+  imageSrc: string;
+  layers: OverlayLayer[];
+  onSave: (layers: OverlayLayer[]) => void;
+  onClose: () => void;
+}
+
+const NO_GUIDES: AlignmentGuides = { vertical: [], horizontal: [] };
+const GUIDE_COLOR = '#22d3ee';
+const SELECTION_COLOR = '#6366f1';
+
+const describeLayer = (layer: OverlayLayer) => `${layer.type === 'text' ? 'Text' : 'Badge'}: ${layer.text.split('\n')[0] || '(empty)'}`;
+
+/**
+ * Lays out text and badge layers over a result. Layers are dragged on the image and snap
+ * to the center, the thirds and each other; the image itself is never modified.
+ */
+const OverlayEditorModal: React.FC<OverlayEditorModalProps> = ({ imageSrc, layers: initialLayers, onSave, onClose }) => {
+  const [layers, setLayers] = useState<OverlayLayer[]>(initialLayers);
+  const [selectedId, setSelectedId] = useState<string | null>(initialLayers[initialLayers.length - 1]?.id ?? null);
+  const [guides, setGuides] = useState<AlignmentGuides>(NO_GUIDES);
+  const [naturalSize, setNaturalSize] = useState<{ width: number, height: number } | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Offset from the pointer to the dragged layer's center, in image fractions.
+  const dragRef = useRef<{ id: string, offset: Point } | null>(null);
+
+  const selectedLayer = layers.find(layer => layer.id === selectedId) ?? null;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const { width, height } = canvas;
+    ctx.clearRect(0, 0, width, height);
+    drawOverlayLayers(ctx, layers, width, height);
+
+    const lineWidth = Math.max(2, width / 400);
+    if (selectedLayer) {
+      const size = measureLayer(ctx, selectedLayer, width, height);
+      ctx.save();
+      ctx.translate(selectedLayer.x * width, selectedLayer.y * height);
+      ctx.rotate((selectedLayer.rotation * Math.PI) / 180);
+      ctx.strokeStyle = SELECTION_COLOR;
+      ctx.lineWidth = lineWidth;
+      ctx.setLineDash([lineWidth * 4, lineWidth * 3]);
+      ctx.strokeRect(-size.width / 2, -size.height / 2, size.width, size.height);
+      ctx.restore();
+    }
+
+    ctx.strokeStyle = GUIDE_COLOR;
+    ctx.lineWidth = lineWidth;
+    ctx.beginPath();
+    guides.vertical.forEach(x => {
+      ctx.moveTo(x * width, 0);
+      ctx.lineTo(x * width, height);
+    });
+    guides.horizontal.forEach(y => {
+      ctx.moveTo(0, y * height);
+      ctx.lineTo(width, y * height);
+    });
+    ctx.stroke();
+  }, [layers, selectedLayer, guides, naturalSize]);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) / rect.width,
+      y: (e.clientY - rect.top) / rect.height,
+    };
+  };
+
+  const updateLayer = (updated: OverlayLayer) => setLayers(prev => prev.map(layer => (layer.id === updated.id ? updated : layer)));
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const point = getPoint(e);
+    const layer = findLayerAt(ctx, layers, { x: point.x * canvas.width, y: point.y * canvas.height }, canvas.width, canvas.height);
+    setSelectedId(layer?.id ?? null);
+    if (!layer) return;
+    canvas.setPointerCapture(e.pointerId);
+    dragRef.current = { id: layer.id, offset: { x: layer.x - point.x, y: layer.y - point.y } };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    const layer = drag && layers.find(candidate => candidate.id === drag.id);
+    if (!drag || !layer) return;
+    const point = getPoint(e);
+    const snapped = snapToGuides({ x: point.x + drag.offset.x, y: point.y + drag.offset.y }, layer.id, layers);
+    updateLayer({ ...layer, x: Math.min(1, Math.max(0, snapped.x)), y: Math.min(1, Math.max(0, snapped.y)) });
+    setGuides(snapped.guides);
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+    setGuides(NO_GUIDES);
+  };
+
+  const addLayer = (layer: OverlayLayer) => {
+    setLayers(prev => [...prev, layer]);
+    setSelectedId(layer.id);
+  };
+
+  const removeLayer = (id: string) => {
+    setLayers(prev => prev.filter(layer => layer.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  /**
+   * Moves a layer one step up (toward the front) or down the stack.
+   */
+  const moveLayer = (id: string, direction: 1 | -1) => {
+    setLayers(prev => {
+      const index = prev.findIndex(layer => layer.id === id);
+      const target = index + direction;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="overlay-modal-title">
+      <div className="bg-gray-800 rounded-2xl shadow-xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <header className="p-4 flex items-center justify-between border-b border-gray-700 flex-shrink-0">
+          <h2 id="overlay-modal-title" className="text-xl font-semibold text-white">
+            Text &amp; Badges
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Close overlay editor">
+            <Icon type="close" />
+          </button>
+        </header>
+
+        <div className="flex-grow flex flex-col md:flex-row min-h-0">
+          <main className="p-6 flex-grow flex items-center justify-center overflow-auto bg-black/50">
+            <div className="relative inline-block">
+              <img
+                src={imageSrc}
+                alt="Result to annotate"
+                onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                className="block max-h-[65vh] max-w-full object-contain select-none"
+                draggable={false}
+              />
+              {naturalSize && (
+                <canvas
+                  ref={canvasRef}
+                  width={naturalSize.width}
+                  height={naturalSize.height}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerCancel={handlePointerUp}
+                  className="absolute inset-0 w-full h-full cursor-move touch-none"
+                  aria-label="Overlay layout area"
+                />
+              )}
+            </div>
+          </main>
+
+          <aside className="w-full md:w-80 flex-shrink-0 border-t md:border-t-0 md:border-l border-gray-700 p-4 overflow-y-auto space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={() => addLayer(createTextLayer())}
+                className="bg-gray-600 text-white font-semibold py-2 px-3 rounded-lg hover:bg-gray-500 transition-colors text-sm"
+              >
+                Add Text
+              </button>
+              <button
+                onClick={() => addLayer(createBadgeLayer())}
+                className="bg-gray-600 text-white font-semibold py-2 px-3 rounded-lg hover:bg-gray-500 transition-colors text-sm flex items-center justify-center gap-1"
+              >
+                <Icon type="tag" className="w-4 h-4" /> Add Badge
+              </button>
+            </div>
+
+            {layers.length === 0 ? (
+              <p className="text-sm text-gray-500">No layers yet. Add a headline or a badge such as "NEW" or "-20%".</p>
+            ) : (
+              <ul className="space-y-1" aria-label="Layers, front first">
+                {[...layers].reverse().map((layer, index) => (
+                  <li
+                    key={layer.id}
+                    className={`flex items-center gap-1 rounded-lg px-2 py-1 text-sm ${layer.id === selectedId ? 'bg-indigo-600/30 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+                  >
+                    <button onClick={() => setSelectedId(layer.id)} className="flex-grow text-left truncate" aria-pressed={layer.id === selectedId}>
+                      {describeLayer(layer)}
+                    </button>
+                    <button onClick={() => moveLayer(layer.id, 1)} disabled={index === 0} className="p-1 text-gray-400 hover:text-white disabled:opacity-30" aria-label="Bring forward">
+                      <Icon type="arrowUp" className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => moveLayer(layer.id, -1)} disabled={index === layers.length - 1} className="p-1 text-gray-400 hover:text-white disabled:opacity-30" aria-label="Send backward">
+                      <Icon type="arrowDown" className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => removeLayer(layer.id)} className="p-1 text-gray-400 hover:text-red-400" aria-label="Delete layer">
+                      <Icon type="trash" className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {selectedLayer && (
+              <div className="border-t border-gray-700 pt-4">
+                <OverlayLayerProperties layer={selectedLayer} onChange={updateLayer} />
+              </div>
+            )}
+          </aside>
+        </div>
+
+        <footer className="p-4 border-t border-gray-700 flex-shrink-0 flex items-center justify-between gap-4">
+          <p className="text-xs text-gray-500">Layers stay editable and are only burned into the image when you export it.</p>
+          <div className="flex gap-4">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-500 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(layers)}
+              className="px-6 py-2 bg-indigo-600 text-white font-bold rounded-lg hover:bg-indigo-700 transition-colors"
+            >
+              Save Layers
+            </button>
+          </div>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default OverlayEditorModal;
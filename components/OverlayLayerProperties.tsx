@@ -0,0 +1,101 @@
+import React from 'react';
+import { BadgeOverlayLayer, BadgeShape, OverlayLayer, TextOverlayLayer } from '../types';
+import { BADGE_SHAPE_OPTIONS, OVERLAY_FONT_OPTIONS } from '../constants';
+import SelectControl from './SelectControl';
+
+interface OverlayLayerPropertiesProps {
+  layer: OverlayLayer;
+  onChange: (layer: OverlayLayer) => void;
+}
+
+const RANGE_CLASS = 'w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer';
+
+const ColorField: React.FC<{ label: string, value: string, onChange: (value: string) => void }> = ({ label, value, onChange }) => (
+  <label className="flex items-center justify-between gap-2 text-sm text-gray-300">
+    {label}
+    <input type="color" value={value} onChange={(e) => onChange(e.target.value)} className="w-8 h-8 bg-transparent cursor-pointer" />
+  </label>
+);
+
+/**
+ * Edits the selected overlay layer's text, font, colors and effects.
+ */
+const OverlayLayerProperties: React.FC<OverlayLayerPropertiesProps> = ({ layer, onChange }) => {
+  const updateText = (changes: Partial<TextOverlayLayer>) => onChange({ ...(layer as TextOverlayLayer), ...changes });
+  const updateBadge = (changes: Partial<BadgeOverlayLayer>) => onChange({ ...(layer as BadgeOverlayLayer), ...changes });
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-gray-400">
+        {layer.type === 'text' ? 'Text' : 'Label'}
+        {layer.type === 'text' ? (
+          <textarea
+            value={layer.text}
+            onChange={(e) => updateText({ text: e.target.value })}
+            rows={2}
+            className="mt-1 w-full p-2 bg-gray-700 border border-gray-600 text-white rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
+          />
+        ) : (
+          <input
+            type="text"
+            value={layer.text}
+            onChange={(e) => updateBadge({ text: e.target.value })}
+            placeholder="e.g. -20%"
+            className="mt-1 w-full p-2 bg-gray-700 border border-gray-600 text-white rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
+          />
+        )}
+      </label>
+      <SelectControl
+        label="Font"
+        value={layer.fontFamily}
+        onChange={(e) => onChange({ ...layer, fontFamily: e.target.value })}
+        options={OVERLAY_FONT_OPTIONS}
+      />
+
+      {layer.type === 'text' ? (
+        <>
+          <label className="block text-sm text-gray-300">
+            Size: {Math.round(layer.fontSize * 100)}% of the height
+            <input type="range" min="0.02" max="0.25" step="0.005" value={layer.fontSize} onChange={(e) => updateText({ fontSize: Number(e.target.value) })} className={RANGE_CLASS} />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input type="checkbox" checked={layer.bold} onChange={(e) => updateText({ bold: e.target.checked })} className="rounded bg-gray-700 border-gray-600" />
+            Bold
+          </label>
+          <ColorField label="Color" value={layer.color} onChange={(color) => updateText({ color })} />
+          <label className="block text-sm text-gray-300">
+            Outline: {layer.strokeWidth === 0 ? 'none' : `${Math.round(layer.strokeWidth * 100)}%`}
+            <input type="range" min="0" max="0.15" step="0.01" value={layer.strokeWidth} onChange={(e) => updateText({ strokeWidth: Number(e.target.value) })} className={RANGE_CLASS} />
+          </label>
+          {layer.strokeWidth > 0 && <ColorField label="Outline color" value={layer.strokeColor} onChange={(strokeColor) => updateText({ strokeColor })} />}
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input type="checkbox" checked={layer.shadow} onChange={(e) => updateText({ shadow: e.target.checked })} className="rounded bg-gray-700 border-gray-600" />
+            Drop shadow
+          </label>
+        </>
+      ) : (
+        <>
+          <SelectControl
+            label="Shape"
+            value={layer.shape}
+            onChange={(e) => updateBadge({ shape: e.target.value as BadgeShape })}
+            options={BADGE_SHAPE_OPTIONS}
+          />
+          <label className="block text-sm text-gray-300">
+            Size: {Math.round(layer.size * 100)}% of the width
+            <input type="range" min="0.08" max="0.6" step="0.01" value={layer.size} onChange={(e) => updateBadge({ size: Number(e.target.value) })} className={RANGE_CLASS} />
+          </label>
+          <ColorField label="Fill" value={layer.fillColor} onChange={(fillColor) => updateBadge({ fillColor })} />
+          <ColorField label="Label color" value={layer.textColor} onChange={(textColor) => updateBadge({ textColor })} />
+        </>
+      )}
+
+      <label className="block text-sm text-gray-300">
+        Rotation: {layer.rotation}°
+        <input type="range" min="-45" max="45" step="1" value={layer.rotation} onChange={(e) => onChange({ ...layer, rotation: Number(e.target.value) })} className={RANGE_CLASS} />
+      </label>
+    </div>
+  );
+};
+
+export default OverlayLayerProperties;
@@ -0,0 +1,188 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { StylePreset, StyleReference, StyleSettings } from '../types';
+import { createPresetId, deletePreset, listPresets, parsePresetFile, savePreset, serializePresets } from '../services/presetService';
+import { downloadBlob } from '../services/downloadUtils';
+import Icon from './Icon';
+
+interface PresetPanelProps {
+  settings: StyleSettings;
+  styleReferences: StyleReference[];
+  prompt: string;
+  onApply: (preset: StylePreset) => void;
+}
+
+/**
+ * Saves the current controls as named house styles, and imports/exports them as JSON
+ * so a team can share identical looks.
+ */
+const PresetPanel: React.FC<PresetPanelProps> = ({ settings, styleReferences, prompt, onApply }) => {
+  const [presets, setPresets] = useState<StylePreset[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [lockPrompt, setLockPrompt] = useState(true);
+  const [message, setMessage] = useState<{ type: 'error' | 'info', text: string } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => listPresets()
+    .then(setPresets)
+    .catch((err: Error) => {
+      console.error('Failed to load presets:', err);
+      setMessage({ type: 'error', text: `Could not load presets: ${err.message}` });
+    });
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const selectedPreset = presets.find(preset => preset.id === selectedId) ?? null;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmedName = name.trim();
+    if (!trimmedName) return;
+    // Saving under an existing name updates that preset rather than adding a duplicate.
+    const existing = presets.find(preset => preset.name.toLowerCase() === trimmedName.toLowerCase());
+    const preset: StylePreset = {
+      id: existing?.id ?? createPresetId(),
+      name: trimmedName,
+      createdAt: Date.now(),
+      settings,
+      styleReferences,
+      lockedPrompt: lockPrompt && prompt.trim() ? prompt : null,
+    };
+    try {
+      await savePreset(preset);
+      await refresh();
+      setSelectedId(preset.id);
+      setIsSaving(false);
+      setName('');
+      setMessage({ type: 'info', text: `Saved "${preset.name}".` });
+    } catch (err) {
+      console.error('Failed to save preset:', err);
+      setMessage({ type: 'error', text: 'Could not save the preset.' });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedPreset || !window.confirm(`Delete the preset "${selectedPreset.name}"?`)) return;
+    try {
+      await deletePreset(selectedPreset.id);
+      setSelectedId('');
+      await refresh();
+    } catch (err) {
+      console.error('Failed to delete preset:', err);
+      setMessage({ type: 'error', text: 'Could not delete the preset.' });
+    }
+  };
+
+  const handleExport = () => {
+    const exported = selectedPreset ? [selectedPreset] : presets;
+    const fileName = selectedPreset ? `${selectedPreset.name}.preset.json` : 'style-presets.json';
+    downloadBlob(new Blob([serializePresets(exported)], { type: 'application/json' }), fileName);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePresetFile(await file.text());
+      await Promise.all(imported.map(savePreset));
+      await refresh();
+      setMessage({ type: 'info', text: `Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}.` });
+    } catch (err) {
+      const error = err as Error;
+      console.error('Failed to import presets:', error);
+      setMessage({ type: 'error', text: `Import failed: ${error.message}` });
+    }
+  };
+
+  return (
+    <div className="pb-4 mb-4 border-b border-gray-700">
+      <label htmlFor="preset-select" className="block text-sm font-medium text-gray-400 mb-1">Style Preset</label>
+      <div className="flex gap-2">
+        <select
+          id="preset-select"
+          value={selectedId}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className="flex-grow min-w-0 p-2.5 bg-gray-700 border border-gray-600 text-white rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
+        >
+          <option value="">{presets.length ? 'Choose a preset…' : 'No saved presets'}</option>
+          {presets.map(preset => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name}{preset.lockedPrompt ? ' (locked prompt)' : ''}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => selectedPreset && onApply(selectedPreset)}
+          disabled={!selectedPreset}
+          className="px-3 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+        >
+          Apply
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={!selectedPreset}
+          className="p-2 text-gray-400 hover:text-red-400 disabled:text-gray-600 disabled:cursor-not-allowed transition-colors"
+          aria-label="Delete selected preset"
+          title="Delete preset"
+        >
+          <Icon type="trash" className="w-5 h-5" />
+        </button>
+      </div>
+
+      {isSaving ? (
+        <form onSubmit={handleSave} className="mt-2 space-y-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Preset name, e.g. Spring Catalog"
+            autoFocus
+            className="w-full p-2 bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            aria-label="Preset name"
+          />
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            <input
+              type="checkbox"
+              checked={lockPrompt}
+              onChange={(e) => setLockPrompt(e.target.checked)}
+              className="rounded bg-gray-700 border-gray-600"
+            />
+            Lock the current prompt (skip prompt generation when applied)
+          </label>
+          <div className="flex gap-2">
+            <button type="submit" disabled={!name.trim()} className="px-3 py-1.5 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors">
+              Save Preset
+            </button>
+            <button type="button" onClick={() => setIsSaving(false)} className="px-3 py-1.5 text-sm text-gray-400 hover:text-white transition-colors">
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-sm">
+          <button onClick={() => setIsSaving(true)} className="text-indigo-400 hover:text-indigo-300 font-semibold flex items-center gap-1">
+            <Icon type="bookmark" className="w-4 h-4" /> Save current
+          </button>
+          <button onClick={() => importInputRef.current?.click()} className="text-indigo-400 hover:text-indigo-300 font-semibold">
+            Import
+          </button>
+          <button onClick={handleExport} disabled={presets.length === 0} className="text-indigo-400 hover:text-indigo-300 disabled:text-gray-600 disabled:cursor-not-allowed font-semibold">
+            {selectedPreset ? 'Export selected' : 'Export all'}
+          </button>
+          <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </div>
+      )}
+      {message && (
+        <p className={`mt-2 text-xs ${message.type === 'error' ? 'text-red-300' : 'text-gray-400'}`} role={message.type === 'error' ? 'alert' : undefined}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PresetPanel;
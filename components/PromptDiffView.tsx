@@ -0,0 +1,60 @@
+import React, { useMemo } from 'react';
+import { diffWords } from '../services/textDiff';
+import { parsePromptSections } from '../services/promptSections';
+
+interface PromptDiffViewProps {
+  currentPrompt: string;
+  pendingPrompt: string;
+  onAccept: () => void;
+  onMerge: () => void;
+  onReject: () => void;
+}
+
+/**
+ * Shows a freshly generated prompt against the user's edited one, word by word, and
+ * lets them take it, merge it section by section, or keep their version.
+ */
+const PromptDiffView: React.FC<PromptDiffViewProps> = ({ currentPrompt, pendingPrompt, onAccept, onMerge, onReject }) => {
+  const parts = useMemo(() => diffWords(currentPrompt, pendingPrompt), [currentPrompt, pendingPrompt]);
+  const canMerge = parsePromptSections(currentPrompt) !== null && parsePromptSections(pendingPrompt) !== null;
+
+  return (
+    <div className="mt-3 border-2 border-indigo-700 rounded-lg bg-gray-900" role="region" aria-label="New prompt suggestion">
+      <div className="px-3 py-2 border-b border-gray-700 flex items-center justify-between gap-2">
+        <p className="text-sm font-semibold text-indigo-300">New prompt for your updated settings</p>
+        <p className="text-xs text-gray-500">
+          <span className="text-red-300 line-through">removed</span> · <span className="text-green-300">added</span>
+        </p>
+      </div>
+      <p className="p-3 max-h-64 overflow-auto text-sm text-gray-400 whitespace-pre-wrap">
+        {parts.map((part, index) => (
+          <span
+            key={index}
+            className={part.type === 'added' ? 'bg-green-900/60 text-green-200' : part.type === 'removed' ? 'bg-red-900/50 text-red-300 line-through' : undefined}
+          >
+            {part.text}
+          </span>
+        ))}
+      </p>
+      <div className="px-3 py-2 border-t border-gray-700 flex flex-wrap gap-2 justify-end">
+        <button onClick={onReject} className="px-3 py-1.5 text-sm text-gray-400 hover:text-white transition-colors">
+          Keep mine
+        </button>
+        {canMerge && (
+          <button
+            onClick={onMerge}
+            className="px-3 py-1.5 bg-gray-600 text-white text-sm font-semibold rounded-lg hover:bg-gray-500 transition-colors"
+            title="Use the new prompt for every section you haven't edited"
+          >
+            Merge my edits
+          </button>
+        )}
+        <button onClick={onAccept} className="px-3 py-1.5 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 transition-colors">
+          Accept new
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PromptDiffView;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { PROMPT_SECTIONS, PromptSectionId, formatPromptSections, parsePromptSections } from '../services/promptSections';
+
+interface PromptEditorProps {
+  prompt: string;
+  /** The last prompt produced by the model; sections that differ from it count as edited. */
+  generatedPrompt: string | null;
+  onChange: (prompt: string) => void;
+}
+
+const TEXTAREA_CLASS = 'w-full p-3 bg-gray-900 border-2 border-gray-700 rounded-lg text-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors';
+
+/**
+ * Shows a sectioned prompt as one labeled field per section, marking the ones edited
+ * by hand. Prompts without sections fall back to a single free-form field.
+ */
+const PromptEditor: React.FC<PromptEditorProps> = ({ prompt, generatedPrompt, onChange }) => {
+  // The focused section shows its raw text, since formatting the prompt trims whitespace mid-typing.
+  const [editing, setEditing] = useState<{ id: PromptSectionId, text: string } | null>(null);
+  const sections = parsePromptSections(prompt);
+  const generatedSections = (generatedPrompt && parsePromptSections(generatedPrompt)) || null;
+
+  if (!sections) {
+    return (
+      <textarea
+        value={prompt}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Prompt will be generated here..."
+        className={`${TEXTAREA_CLASS} h-48`}
+      />
+    );
+  }
+
+  const updateSection = (id: PromptSectionId, text: string) => onChange(formatPromptSections({ ...sections, [id]: text }));
+
+  const handleSectionChange = (id: PromptSectionId, text: string) => {
+    setEditing({ id, text });
+    updateSection(id, text);
+  };
+
+  return (
+    <div className="space-y-3">
+      {PROMPT_SECTIONS.filter(({ id, isGenerated }) => isGenerated || sections[id]).map(({ id, label, isGenerated }) => {
+        const isEdited = isGenerated && generatedSections !== null && (sections[id] ?? '') !== (generatedSections[id] ?? '');
+        return (
+          <div key={id}>
+            <div className="flex items-center justify-between mb-1">
+              <label htmlFor={`prompt-section-${id}`} className="text-xs font-semibold uppercase tracking-wide text-gray-400">{label}</label>
+              {isEdited && (
+                <span className="flex items-center gap-2 text-xs text-indigo-300">
+                  Edited
+                  <button onClick={() => updateSection(id, generatedSections[id] ?? '')} className="text-gray-400 hover:text-white underline">
+                    Revert
+                  </button>
+                </span>
+              )}
+              {!isGenerated && <span className="text-xs text-gray-500">From the Do Not list</span>}
+            </div>
+            <textarea
+              id={`prompt-section-${id}`}
+              value={editing?.id === id ? editing.text : sections[id] ?? ''}
+              onChange={(e) => handleSectionChange(id, e.target.value)}
+              onBlur={() => setEditing(null)}
+              readOnly={!isGenerated}
+              rows={isGenerated ? 3 : Math.max(2, (sections[id] ?? '').split('\n').length)}
+              className={`${TEXTAREA_CLASS} text-sm ${isGenerated ? '' : 'text-gray-500'}`}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PromptEditor;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { GeneratedVariation } from '../types';
+import Icon from './Icon';
+import Spinner from './Spinner';
+
+interface RefinementPanelProps {
+  variation: GeneratedVariation;
+  isRefining: boolean;
+  onRefine: (instruction: string) => void;
+  onSelectVersion: (index: number) => void;
+}
+
+const RefinementPanel: React.FC<RefinementPanelProps> = ({ variation, isRefining, onRefine, onSelectVersion }) => {
+  const [instruction, setInstruction] = useState('');
+  const { versions, activeVersionIndex } = variation;
+  const hasLaterVersions = activeVersionIndex < versions.length - 1;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = instruction.trim();
+    if (!trimmed) return;
+    onRefine(trimmed);
+    setInstruction('');
+  };
+
+  return (
+    <div className="mt-4">
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          placeholder='Refine, e.g. "make the background warmer"'
+          disabled={isRefining}
+          className="flex-grow p-2.5 bg-gray-900 border-2 border-gray-700 rounded-lg text-gray-300 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors disabled:opacity-60"
+          aria-label="Refinement instruction"
+        />
+        <button
+          type="submit"
+          disabled={isRefining || !instruction.trim()}
+          className="px-4 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 disabled:bg-gray-500 disabled:cursor-not-allowed flex items-center gap-2 transition-colors"
+        >
+          {isRefining ? <Spinner size="sm" /> : <Icon type="wand" className="w-5 h-5" />}
+          Refine
+        </button>
+      </form>
+      {hasLaterVersions && (
+        <p className="mt-2 text-xs text-yellow-300">Refining from this step will discard the later versions.</p>
+      )}
+
+      {versions.length > 1 && (
+        <div className="mt-3">
+          <div className="flex items-center justify-between text-sm text-gray-400 mb-2">
+            <span>Version {activeVersionIndex + 1} of {versions.length}</span>
+            <div className="flex gap-3">
+              <button
+                onClick={() => onSelectVersion(activeVersionIndex - 1)}
+                disabled={isRefining || activeVersionIndex === 0}
+                className="hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed transition-colors"
+              >
+                Undo
+              </button>
+              <button
+                onClick={() => onSelectVersion(activeVersionIndex + 1)}
+                disabled={isRefining || !hasLaterVersions}
+                className="hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed transition-colors"
+              >
+                Redo
+              </button>
+            </div>
+          </div>
+          <ol className="flex gap-2 overflow-x-auto pb-1" aria-label="Version timeline">
+            {versions.map((version, index) => (
+              <li key={version.id} className="flex-shrink-0 w-16">
+                <button
+                  onClick={() => onSelectVersion(index)}
+                  disabled={isRefining}
+                  title={version.instruction ?? 'Original generation'}
+                  className={`block w-16 h-16 rounded-lg overflow-hidden border-2 ${index === activeVersionIndex ? 'border-indigo-500' : 'border-gray-700 hover:border-gray-500'} ${index > activeVersionIndex ? 'opacity-50' : ''}`}
+                  aria-label={`Go to version ${index + 1}`}
+                  aria-current={index === activeVersionIndex ? 'step' : undefined}
+                >
+                  <img src={version.imageUrl} alt={`Version ${index + 1}`} className="w-full h-full object-cover" />
+                </button>
+                <p className="mt-1 text-[10px] leading-tight text-gray-500 truncate" title={version.instruction ?? 'Original'}>
+                  {version.instruction ?? 'Original'}
+                </p>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RefinementPanel;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { BackgroundType, DepthOfField, FocalLength, Mood, SceneSettings, Season, ShadowStyle } from '../types';
+import {
+  BACKGROUND_OPTIONS,
+  DEPTH_OF_FIELD_OPTIONS,
+  DO_NOT_SUGGESTIONS,
+  FOCAL_LENGTH_OPTIONS,
+  MOOD_OPTIONS,
+  SEASON_OPTIONS,
+  SHADOW_STYLE_OPTIONS,
+} from '../constants';
+import SelectControl from './SelectControl';
+import CommitTextInput from './CommitTextInput';
+import Icon from './Icon';
+
+interface SceneControlsProps {
+  scene: SceneSettings;
+  onChange: (scene: SceneSettings) => void;
+}
+
+/**
+ * The structured scene form: surface, palette, props, mood, season, optics, shadows
+ * and the explicit "do not" list.
+ */
+const SceneControls: React.FC<SceneControlsProps> = ({ scene, onChange }) => {
+  const [customDoNot, setCustomDoNot] = useState('');
+  const update = (changes: Partial<SceneSettings>) => onChange({ ...scene, ...changes });
+
+  const customItems = scene.doNotList.filter(item => !DO_NOT_SUGGESTIONS.includes(item));
+
+  const toggleDoNot = (item: string) => {
+    update({
+      doNotList: scene.doNotList.includes(item)
+        ? scene.doNotList.filter(existing => existing !== item)
+        : [...scene.doNotList, item],
+    });
+  };
+
+  const handleAddDoNot = (e: React.FormEvent) => {
+    e.preventDefault();
+    const item = customDoNot.trim();
+    if (item && !scene.doNotList.includes(item)) {
+      update({ doNotList: [...scene.doNotList, item] });
+    }
+    setCustomDoNot('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <SelectControl label="Background / Surface" value={scene.background} onChange={(e) => update({ background: e.target.value as BackgroundType })} options={BACKGROUND_OPTIONS} />
+      <CommitTextInput label="Color Palette" value={scene.colorPalette} placeholder="e.g. sage green, cream and brass" onCommit={(colorPalette) => update({ colorPalette })} />
+      <CommitTextInput label="Props" value={scene.props} placeholder="e.g. eucalyptus sprigs, linen napkin" onCommit={(props) => update({ props })} />
+      <div className="grid grid-cols-2 gap-4">
+        <SelectControl label="Mood" value={scene.mood} onChange={(e) => update({ mood: e.target.value as Mood })} options={MOOD_OPTIONS} />
+        <SelectControl label="Season" value={scene.season} onChange={(e) => update({ season: e.target.value as Season })} options={SEASON_OPTIONS} />
+        <SelectControl label="Depth of Field" value={scene.depthOfField} onChange={(e) => update({ depthOfField: e.target.value as DepthOfField })} options={DEPTH_OF_FIELD_OPTIONS} />
+        <SelectControl label="Focal Length" value={scene.focalLength} onChange={(e) => update({ focalLength: e.target.value as FocalLength })} options={FOCAL_LENGTH_OPTIONS} />
+      </div>
+      <SelectControl label="Shadow Style" value={scene.shadowStyle} onChange={(e) => update({ shadowStyle: e.target.value as ShadowStyle })} options={SHADOW_STYLE_OPTIONS} />
+
+      <fieldset>
+        <legend className="block text-sm font-medium text-gray-400 mb-1">Do Not</legend>
+        <div className="space-y-1">
+          {DO_NOT_SUGGESTIONS.map(item => (
+            <label key={item} className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={scene.doNotList.includes(item)}
+                onChange={() => toggleDoNot(item)}
+                className="rounded bg-gray-700 border-gray-600"
+              />
+              {item}
+            </label>
+          ))}
+          {customItems.map(item => (
+            <div key={item} className="flex items-center justify-between gap-2 text-sm text-gray-300">
+              <span className="truncate" title={item}>• {item}</span>
+              <button
+                onClick={() => toggleDoNot(item)}
+                className="text-gray-500 hover:text-white transition-colors"
+                aria-label={`Remove "${item}"`}
+              >
+                <Icon type="close" className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <form onSubmit={handleAddDoNot} className="flex gap-2 mt-2">
+          <input
+            type="text"
+            value={customDoNot}
+            onChange={(e) => setCustomDoNot(e.target.value)}
+            placeholder="Add a constraint, e.g. no reflections on the label"
+            className="flex-grow min-w-0 p-2 bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            aria-label="New do-not constraint"
+          />
+          <button type="submit" disabled={!customDoNot.trim()} className="px-3 py-1.5 bg-gray-600 text-white text-sm font-semibold rounded-lg hover:bg-gray-500 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors">
+            Add
+          </button>
+        </form>
+      </fieldset>
+    </div>
+  );
+};
+
+export default SceneControls;
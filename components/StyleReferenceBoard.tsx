@@ -0,0 +1,94 @@
+import React from 'react';
+import { StyleAspect, StyleReference } from '../types';
+import { MAX_STYLE_REFERENCES, MIN_STYLE_REFERENCE_WEIGHT, STYLE_ASPECT_OPTIONS } from '../constants';
+import { toDataUrl } from '../services/imageUtils';
+import { INPUT_FILE_ACCEPT, INPUT_FORMATS_LABEL } from '../services/inputImageService';
+import FileUpload from './FileUpload';
+import Icon from './Icon';
+
+interface StyleReferenceBoardProps {
+  references: StyleReference[];
+  onAddFile: (file: File) => void;
+  onChange: (references: StyleReference[]) => void;
+}
+
+/**
+ * A mood board of style references. Each image is tagged with what it contributes
+ * and weighted against the others.
+ */
+const StyleReferenceBoard: React.FC<StyleReferenceBoardProps> = ({ references, onAddFile, onChange }) => {
+  const updateReference = (id: string, changes: Partial<StyleReference>) => {
+    onChange(references.map(reference => (reference.id === id ? { ...reference, ...changes } : reference)));
+  };
+
+  const toggleAspect = (reference: StyleReference, aspect: StyleAspect) => {
+    const aspects = reference.aspects.includes(aspect)
+      ? reference.aspects.filter(value => value !== aspect)
+      : STYLE_ASPECT_OPTIONS.map(option => option.value).filter(value => value === aspect || reference.aspects.includes(value));
+    // A reference must contribute something; remove it instead.
+    if (aspects.length > 0) {
+      updateReference(reference.id, { aspects });
+    }
+  };
+
+  const removeReference = (id: string) => onChange(references.filter(reference => reference.id !== id));
+
+  return (
+    <div>
+      {references.length < MAX_STYLE_REFERENCES ? (
+        <FileUpload id="style-upload" multiple onFileUpload={onAddFile} label="Add Style Images" accept={INPUT_FILE_ACCEPT} formatsLabel={INPUT_FORMATS_LABEL} allowUrlImport />
+      ) : (
+        <p className="text-sm text-gray-500">The board is full ({MAX_STYLE_REFERENCES} images). Remove one to add another.</p>
+      )}
+      {references.length > 0 && (
+        <ul className="mt-4 space-y-3">
+          {references.map(reference => (
+            <li key={reference.id} className="flex gap-3 bg-gray-900/50 border border-gray-700 rounded-lg p-2">
+              <div className="relative w-20 h-20 flex-shrink-0 rounded overflow-hidden bg-gray-900">
+                <img src={toDataUrl(reference.image)} alt="Style reference" className="w-full h-full object-cover" />
+                <button
+                  onClick={() => removeReference(reference.id)}
+                  className="absolute top-1 right-1 bg-gray-900 bg-opacity-60 text-white rounded-full p-0.5 hover:bg-opacity-80 transition-colors"
+                  aria-label="Remove style reference"
+                >
+                  <Icon type="close" className="w-3 h-3" />
+                </button>
+              </div>
+              <div className="flex-grow min-w-0">
+                <div className="flex flex-wrap gap-1" role="group" aria-label="What this reference contributes">
+                  {STYLE_ASPECT_OPTIONS.map(option => {
+                    const isActive = reference.aspects.includes(option.value);
+                    return (
+                      <button
+                        key={option.value}
+                        onClick={() => toggleAspect(reference, option.value)}
+                        aria-pressed={isActive}
+                        className={`px-2 py-0.5 rounded-full text-xs font-semibold transition-colors ${isActive ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-400 hover:text-white'}`}
+                      >
+                        {option.label}
+                      </button>
+                    );
+                  })}
+                </div>
+                <label className="mt-2 block text-xs text-gray-400">
+                  Weight {Math.round(reference.weight * 100)}%
+                  <input
+                    type="range"
+                    min={MIN_STYLE_REFERENCE_WEIGHT}
+                    max="1"
+                    step="0.1"
+                    value={reference.weight}
+                    onChange={(e) => updateReference(reference.id, { weight: Number(e.target.value) })}
+                    className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+                  />
+                </label>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default StyleReferenceBoard;
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { GeneratedVariation } from '../types';
+import { getActiveVersion } from '../services/variationUtils';
+import Icon from './Icon';
+
+interface VariationGridProps {
+  variations: GeneratedVariation[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onToggleFavorite: (id: string) => void;
+  onClearUnstarred: () => void;
+}
+
+const VariationGrid: React.FC<VariationGridProps> = ({ variations, selectedId, onSelect, onToggleFavorite, onClearUnstarred }) => {
+  const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
+  const favoriteCount = variations.filter(variation => variation.isFavorite).length;
+  const visibleVariations = showFavoritesOnly ? variations.filter(variation => variation.isFavorite) : variations;
+
+  if (variations.length < 2) return null;
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between text-sm mb-2">
+        <span className="text-gray-400">{variations.length} variations</span>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setShowFavoritesOnly(prev => !prev)}
+            disabled={favoriteCount === 0}
+            className={`flex items-center gap-1 transition-colors disabled:text-gray-600 disabled:cursor-not-allowed ${showFavoritesOnly ? 'text-yellow-300' : 'text-gray-400 hover:text-white'}`}
+            aria-pressed={showFavoritesOnly}
+          >
+            <Icon type="starSolid" className="w-4 h-4" />
+            Favorites ({favoriteCount})
+          </button>
+          <button
+            onClick={onClearUnstarred}
+            disabled={favoriteCount === variations.length}
+            className="text-gray-400 hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed transition-colors"
+          >
+            Clear unstarred
+          </button>
+        </div>
+      </div>
+      <div className="grid grid-cols-4 gap-2">
+        {visibleVariations.map((variation, index) => (
+          <div
+            key={variation.id}
+            className={`relative aspect-square rounded-lg overflow-hidden border-2 bg-gray-900 ${variation.id === selectedId ? 'border-indigo-500' : 'border-gray-700 hover:border-gray-500'}`}
+          >
+            <button
+              onClick={() => onSelect(variation.id)}
+              className="w-full h-full"
+              aria-label={`Select variation ${index + 1}`}
+              aria-pressed={variation.id === selectedId}
+            >
+              <img src={getActiveVersion(variation).imageUrl} alt={`Variation ${index + 1}`} className="w-full h-full object-cover" />
+            </button>
+            <button
+              onClick={() => onToggleFavorite(variation.id)}
+              className={`absolute top-1 right-1 bg-gray-900 bg-opacity-60 rounded-full p-0.5 hover:bg-opacity-80 ${variation.isFavorite ? 'text-yellow-300' : 'text-white'}`}
+              aria-label={variation.isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+              aria-pressed={variation.isFavorite}
+            >
+              <Icon type={variation.isFavorite ? 'starSolid' : 'star'} className="w-4 h-4" />
+            </button>
+            {getActiveVersion(variation).fidelity?.isFlagged && (
+              <span className="absolute bottom-1 left-1 bg-gray-900 bg-opacity-70 rounded-full p-0.5 text-yellow-300" title="Product fidelity below threshold">
+                <Icon type="alert" className="w-4 h-4" />
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VariationGrid;
@@ -1,6 +1,149 @@
 
-import { AspectRatio, LightingStyle, CameraPerspective } from './types';
+import {
+  AspectRatio,
+  BackgroundType,
+  BadgeShape,
+  CameraPerspective,
+  CropOptions,
+  DepthOfField,
+  Dimensions,
+  FocalLength,
+  GenerationStrategy,
+  LightingStyle,
+  Mood,
+  SceneSettings,
+  Season,
+  ShadowStyle,
+  StyleAspect,
+  StyleSettings,
+} from './types';
 
 export const ASPECT_RATIO_OPTIONS = Object.values(AspectRatio).map(value => ({ label: value, value }));
 export const LIGHTING_STYLE_OPTIONS = Object.values(LightingStyle).map(value => ({ label: value, value }));
 export const CAMERA_PERSPECTIVE_OPTIONS = Object.values(CameraPerspective).map(value => ({ label: value, value }));
+export const BACKGROUND_OPTIONS = Object.values(BackgroundType).map(value => ({ label: value, value }));
+export const MOOD_OPTIONS = Object.values(Mood).map(value => ({ label: value, value }));
+export const SEASON_OPTIONS = Object.values(Season).map(value => ({ label: value, value }));
+export const DEPTH_OF_FIELD_OPTIONS = Object.values(DepthOfField).map(value => ({ label: value, value }));
+export const FOCAL_LENGTH_OPTIONS = Object.values(FocalLength).map(value => ({ label: value, value }));
+export const SHADOW_STYLE_OPTIONS = Object.values(ShadowStyle).map(value => ({ label: value, value }));
+
+/** Common constraints offered as one-click entries in the "do not" list. */
+export const DO_NOT_SUGGESTIONS = [
+  'No text, captions or watermarks',
+  'No extra products or duplicates of the product',
+  'Keep the logo and labels intact and legible',
+  'Do not change the product\'s shape or color',
+  'No people or hands',
+];
+
+export const DEFAULT_SCENE_SETTINGS: SceneSettings = {
+  background: BackgroundType.AUTO,
+  colorPalette: '',
+  props: '',
+  mood: Mood.AUTO,
+  season: Season.ANY,
+  depthOfField: DepthOfField.AUTO,
+  focalLength: FocalLength.AUTO,
+  shadowStyle: ShadowStyle.AUTO,
+  doNotList: DO_NOT_SUGGESTIONS.slice(0, 3),
+};
+
+export const DEFAULT_CUSTOM_ASPECT_RATIO: Dimensions = { width: 5, height: 7 };
+
+export const DEFAULT_CROP_OPTIONS: CropOptions = {
+  autoFrame: true,
+  margin: 0.1,
+  fit: 'crop',
+  padColor: null,
+  rotation: 0,
+};
+
+export const MAX_CROP_MARGIN = 0.5;
+/** The straighten slider's range either way; larger turns use the 90° buttons. */
+export const MAX_STRAIGHTEN_DEGREES = 15;
+
+export const OUTPUT_SIZE_PRESETS: { label: string, size: Dimensions }[] = [
+  { label: '1080 × 1080 (Square post)', size: { width: 1080, height: 1080 } },
+  { label: '1080 × 1350 (Portrait post)', size: { width: 1080, height: 1350 } },
+  { label: '1080 × 1920 (Story / Reel)', size: { width: 1080, height: 1920 } },
+  { label: '1920 × 1080 (Full HD)', size: { width: 1920, height: 1080 } },
+  { label: '2000 × 2000 (Marketplace)', size: { width: 2000, height: 2000 } },
+  { label: '2400 × 1600 (Banner)', size: { width: 2400, height: 1600 } },
+];
+
+const parseRatio = (ratio: string): number => {
+  const [width, height] = ratio.split(':').map(Number);
+  return width / height;
+};
+
+export const getAspectRatioValue = (ar: AspectRatio, customAspectRatio: Dimensions = DEFAULT_CUSTOM_ASPECT_RATIO): number => {
+  if (ar === AspectRatio.CUSTOM) {
+    return customAspectRatio.width / customAspectRatio.height;
+  }
+  return parseRatio(ar) || 1;
+};
+
+/**
+ * Returns the preset matching a width/height ratio, or CUSTOM if none does.
+ */
+export const findAspectRatioPreset = ({ width, height }: Dimensions): AspectRatio => {
+  const target = width / height;
+  const preset = Object.values(AspectRatio).find(
+    ar => ar !== AspectRatio.CUSTOM && Math.abs(parseRatio(ar) - target) < 0.001
+  );
+  return preset ?? AspectRatio.CUSTOM;
+};
+
+const greatestCommonDivisor = (a: number, b: number): number => (b === 0 ? a : greatestCommonDivisor(b, a % b));
+
+/**
+ * Reduces pixel dimensions to their simplest ratio, e.g. 1080 × 1350 to 4 × 5.
+ */
+export const reduceDimensions = ({ width, height }: Dimensions): Dimensions => {
+  const divisor = greatestCommonDivisor(Math.round(width), Math.round(height)) || 1;
+  return { width: Math.round(width) / divisor, height: Math.round(height) / divisor };
+};
+
+/**
+ * Human-readable aspect ratio for prompts and labels, including the exact output size if set.
+ */
+export const describeAspectRatio = (settings: StyleSettings): string => {
+  const { aspectRatio, customAspectRatio = DEFAULT_CUSTOM_ASPECT_RATIO, outputSize } = settings;
+  const ratio = aspectRatio === AspectRatio.CUSTOM ? `${customAspectRatio.width}:${customAspectRatio.height}` : aspectRatio;
+  return outputSize ? `${ratio} (${outputSize.width}×${outputSize.height} px)` : ratio;
+};
+
+export const MIN_VARIATIONS = 1;
+export const MAX_VARIATIONS = 8;
+export const STYLE_ASPECT_OPTIONS: { label: string, value: StyleAspect }[] = [
+  { label: 'Color', value: 'color' },
+  { label: 'Texture', value: 'texture' },
+  { label: 'Lighting', value: 'lighting' },
+  { label: 'Composition', value: 'composition' },
+];
+
+export const MAX_STYLE_REFERENCES = 6;
+export const MIN_STYLE_REFERENCE_WEIGHT = 0.1;
+export const DEFAULT_STYLE_REFERENCE_WEIGHT = 0.5;
+
+export const GENERATION_STRATEGY_OPTIONS: { label: string, value: GenerationStrategy }[] = [
+  { label: 'AI scene (model redraws the product)', value: 'edit' },
+  { label: 'Composite (original product on AI background)', value: 'composite' },
+];
+
+export const BADGE_SHAPE_OPTIONS: { label: string, value: BadgeShape }[] = [
+  { label: 'Circle', value: 'circle' },
+  { label: 'Pill', value: 'pill' },
+  { label: 'Starburst', value: 'starburst' },
+  { label: 'Ribbon', value: 'ribbon' },
+];
+
+// Web-safe families, so overlays look the same in the editor and in the exported file.
+export const OVERLAY_FONT_OPTIONS = ['Arial', 'Helvetica', 'Verdana', 'Trebuchet MS', 'Impact', 'Georgia', 'Times New Roman', 'Courier New']
+  .map(font => ({ label: font, value: font }));
+
+export const VARIATION_COUNT_OPTIONS = Array.from({ length: MAX_VARIATIONS - MIN_VARIATIONS + 1 }, (_, i) => {
+  const count = MIN_VARIATIONS + i;
+  return { label: count === 1 ? '1 image' : `${count} variations`, value: String(count) };
+});
@@ -0,0 +1,96 @@
+import { useRef, useState } from 'react';
+import { Base64Image, BatchItem, BrandKit, Dimensions, StyleReference } from '../types';
+import {
+  BATCH_CONCURRENCY,
+  createBatchItem,
+  createBatchZip,
+  generateBatchItemImage,
+} from '../services/batchService';
+import { runWithConcurrency } from '../services/concurrency';
+import { downloadBlob } from '../services/downloadUtils';
+import { isAbortError } from '../services/abortUtils';
+
+export interface BatchRunOptions {
+  aspect: number;
+  outputSize: Dimensions | null;
+  prompt: string;
+  styleReferences: StyleReference[];
+}
+
+/**
+ * Holds the batch catalog queue and drives generation with bounded concurrency.
+ */
+export const useBatchQueue = () => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  // Retrying an item while a run is going starts another run, so count them.
+  const [activeRunCount, setActiveRunCount] = useState(0);
+  const controllersRef = useRef(new Set<AbortController>());
+
+  const updateItem = (id: string, update: (item: BatchItem) => Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...update(item) } : item)));
+  };
+
+  const processQueue = async (queue: BatchItem[], { aspect, outputSize, prompt, styleReferences }: BatchRunOptions) => {
+    if (queue.length === 0) return;
+    const controller = new AbortController();
+    controllersRef.current.add(controller);
+    setActiveRunCount(count => count + 1);
+    try {
+      await runWithConcurrency(queue, BATCH_CONCURRENCY, async (item) => {
+        // Items not started before a cancel keep their place in the queue.
+        if (controller.signal.aborted) return;
+        updateItem(item.id, () => ({ status: 'processing', error: null }));
+        try {
+          const resultImage = await generateBatchItemImage(item, aspect, outputSize, prompt, styleReferences, controller.signal);
+          updateItem(item.id, (current) => ({ status: 'done', resultImage, attempts: current.attempts + 1 }));
+        } catch (err) {
+          if (isAbortError(err)) {
+            updateItem(item.id, () => ({ status: 'queued' }));
+            return;
+          }
+          const error = err as Error;
+          console.error(`Batch generation failed for ${item.fileName}:`, error);
+          updateItem(item.id, (current) => ({
+            status: 'error',
+            error: error.message || 'An unknown error occurred while generating the image.',
+            attempts: current.attempts + 1,
+          }));
+        }
+      });
+    } finally {
+      controllersRef.current.delete(controller);
+      setActiveRunCount(count => count - 1);
+    }
+  };
+
+  /** Stops every run; items in progress go back to the queue. */
+  const cancel = () => {
+    controllersRef.current.forEach(controller => controller.abort());
+  };
+
+  const addImage = (fileName: string, image: Base64Image) => {
+    setItems(prev => [...prev, createBatchItem(fileName, image)]);
+  };
+
+  const removeItem = (id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+  };
+
+  const clear = () => setItems([]);
+
+  const start = (options: BatchRunOptions) =>
+    processQueue(items.filter(item => item.status === 'queued'), options);
+
+  const retryItem = (id: string, options: BatchRunOptions) =>
+    processQueue(items.filter(item => item.id === id), options);
+
+  const retryFailed = (options: BatchRunOptions) =>
+    processQueue(items.filter(item => item.status === 'error'), options);
+
+  /** Draws the brand kit's logo and watermark onto every result in the archive. */
+  const downloadAll = async (brandKit: BrandKit) => {
+    downloadBlob(await createBatchZip(items, brandKit), 'ai-photo-studio-batch.zip');
+  };
+
+  return { items, isRunning: activeRunCount > 0, addImage, removeItem, clear, start, retryItem, retryFailed, cancel, downloadAll };
+};
@@ -0,0 +1,175 @@
+import { useEffect, useRef, useState } from 'react';
+import { BrandKit, StyleReference, StyleSettings } from '../types';
+import { generateDescriptivePrompt } from '../services/geminiService';
+import { mergeRegeneratedPrompt, PromptSectionId, setPromptSection } from '../services/promptSections';
+import { isAbortError } from '../services/abortUtils';
+
+/**
+ * How long the controls must be idle before a new prompt is requested.
+ */
+export const PROMPT_DEBOUNCE_MS = 600;
+
+/**
+ * Owns the prompt text and its regeneration. Requests are debounced, and each new
+ * request aborts the previous one; a sequence number guarantees a slow, stale response
+ * can never overwrite a newer one. Once the user edits the prompt by hand it becomes
+ * locked: fresh prompts are then held as `pendingPrompt` for review instead of applied.
+ */
+export const usePromptGenerator = (onError: (message: string) => void) => {
+  const [prompt, setPrompt] = useState('');
+  const [pendingPrompt, setPendingPrompt] = useState<string | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // The prompt as last generated (or restored); sections that differ from it are user edits.
+  const generatedPromptRef = useRef<string | null>(null);
+  const isLockedRef = useRef(false);
+  const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const sequenceRef = useRef(0);
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  const setLocked = (locked: boolean) => {
+    isLockedRef.current = locked;
+    setIsLocked(locked);
+  };
+
+  /**
+   * Drops any scheduled request and aborts the one in flight.
+   */
+  const cancel = () => {
+    if (debounceTimerRef.current !== null) {
+      clearTimeout(debounceTimerRef.current);
+      debounceTimerRef.current = null;
+    }
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    sequenceRef.current++;
+    setIsGenerating(false);
+  };
+
+  useEffect(() => cancel, []);
+
+  const run = async (settings: StyleSettings, styleReferences: StyleReference[], brandKit: BrandKit | null) => {
+    cancel();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const sequence = sequenceRef.current;
+    setIsGenerating(true);
+    try {
+      const newPrompt = await generateDescriptivePrompt(settings, styleReferences, brandKit, controller.signal);
+      if (sequence !== sequenceRef.current) return;
+      if (isLockedRef.current) {
+        setPendingPrompt(newPrompt);
+      } else {
+        generatedPromptRef.current = newPrompt;
+        setPrompt(newPrompt);
+        setPendingPrompt(null);
+      }
+    } catch (err) {
+      if (isAbortError(err) || sequence !== sequenceRef.current) return;
+      const error = err as Error;
+      console.error("Prompt generation failed:", error);
+      onErrorRef.current(error.message || 'An unknown error occurred while generating the prompt.');
+    } finally {
+      if (sequence === sequenceRef.current) {
+        controllerRef.current = null;
+        setIsGenerating(false);
+      }
+    }
+  };
+
+  /**
+   * Requests a new prompt once the inputs have been stable for `PROMPT_DEBOUNCE_MS`.
+   */
+  const schedule = (settings: StyleSettings, styleReferences: StyleReference[], brandKit: BrandKit | null) => {
+    cancel();
+    debounceTimerRef.current = setTimeout(() => {
+      debounceTimerRef.current = null;
+      run(settings, styleReferences, brandKit);
+    }, PROMPT_DEBOUNCE_MS);
+  };
+
+  /**
+   * Records a hand edit; any change away from the generated prompt locks it.
+   */
+  const editPrompt = (text: string) => {
+    setPrompt(text);
+    if (text !== generatedPromptRef.current) {
+      setLocked(true);
+    }
+  };
+
+  /**
+   * Replaces the prompt with one that came from elsewhere (history, a preset, a batch
+   * run), cancelling any request that would otherwise overwrite it.
+   */
+  const resetPrompt = (text: string, locked = false) => {
+    cancel();
+    generatedPromptRef.current = text;
+    setPrompt(text);
+    setPendingPrompt(null);
+    setLocked(locked);
+  };
+
+  /**
+   * Rewrites one section everywhere it appears, for sections built locally rather
+   * than by the model (the "Do Not" list).
+   */
+  const updateSection = (id: PromptSectionId, text: string) => {
+    const apply = (value: string) => (value ? setPromptSection(value, id, text) : value);
+    if (generatedPromptRef.current) {
+      generatedPromptRef.current = apply(generatedPromptRef.current);
+    }
+    setPrompt(apply);
+    setPendingPrompt(prev => (prev === null ? prev : apply(prev)));
+  };
+
+  const acceptPending = () => {
+    if (pendingPrompt === null) return;
+    resetPrompt(pendingPrompt);
+  };
+
+  /**
+   * Takes the pending prompt but keeps every section the user edited by hand.
+   */
+  const mergePending = () => {
+    if (pendingPrompt === null) return;
+    setPrompt(mergeRegeneratedPrompt(pendingPrompt, prompt, generatedPromptRef.current));
+    generatedPromptRef.current = pendingPrompt;
+    setPendingPrompt(null);
+  };
+
+  const rejectPending = () => setPendingPrompt(null);
+
+  /**
+   * Unlocks the prompt so future regenerations apply directly, applying any pending one now.
+   */
+  const unlock = () => {
+    if (pendingPrompt !== null) {
+      resetPrompt(pendingPrompt);
+    } else {
+      setLocked(false);
+    }
+  };
+
+  return {
+    prompt,
+    generatedPrompt: generatedPromptRef.current,
+    pendingPrompt,
+    isLocked,
+    isGenerating,
+    schedule,
+    regenerate: run,
+    cancel,
+    editPrompt,
+    resetPrompt,
+    updateSection,
+    acceptPending,
+    mergePending,
+    rejectPending,
+    lock: () => setLocked(true),
+    unlock,
+  };
+};
@@ -0,0 +1,154 @@
+import { lookup } from 'node:dns';
+import { ClientRequest, IncomingMessage, request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { BlockList, isIP, LookupFunction } from 'node:net';
+import { ProxyRequestError } from './proxyRequestError';
+
+export interface FetchedImage {
+    bytes: Buffer;
+    mimeType: string;
+}
+
+const MAX_REDIRECTS = 3;
+const FETCH_TIMEOUT_MS = 20000;
+
+/**
+ * The raster formats the studio's upload path reads. SVG and other types that can carry
+ * script are refused, since the proxy serves the image from the studio's own origin.
+ */
+const ALLOWED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif', 'image/avif', 'image/tiff'];
+
+/**
+ * Addresses the proxy will not connect to, so it cannot be pointed at the network it
+ * runs in: loopback, private, link-local (including cloud metadata), CGNAT and multicast.
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+[
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+    ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 3],
+].forEach(([network, prefix]: [string, number]) => BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4'));
+[
+    ['::', 127], ['::ffff:0:0', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([network, prefix]: [string, number]) => BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6'));
+
+const isBlockedAddress = (address: string): boolean => {
+    const mappedIpv4 = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+    if (mappedIpv4) return BLOCKED_ADDRESSES.check(mappedIpv4, 'ipv4');
+    const family = isIP(address);
+    return family === 0 || BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+const refuseAddress = () => new ProxyRequestError(403, 'Images can only be imported from public addresses.');
+
+/**
+ * Resolves host names as usual but refuses blocked addresses. Checking here, rather than
+ * before the request, covers the address actually connected to.
+ */
+const publicOnlyLookup = ((hostname, options, callback) => {
+    lookup(hostname, options, (error, address, family) => {
+        if (error) {
+            callback(error, address, family);
+            return;
+        }
+        const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+        if (addresses.some(isBlockedAddress)) {
+            callback(refuseAddress(), address, family);
+            return;
+        }
+        callback(null, address, family);
+    });
+}) as LookupFunction;
+
+const parseImageUrl = (value: string): URL => {
+    let url: URL;
+    try {
+        url = new URL(value);
+    } catch {
+        throw new ProxyRequestError(400, 'The image address is not a valid URL.');
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new ProxyRequestError(400, 'Only http and https image addresses can be imported.');
+    }
+    // Literal addresses are connected to without a lookup, so they are checked here.
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    if (isIP(host) && isBlockedAddress(host)) {
+        throw refuseAddress();
+    }
+    return url;
+};
+
+const openRequest = (url: URL, signal: AbortSignal): Promise<IncomingMessage> => new Promise((resolve, reject) => {
+    const request: ClientRequest = (url.protocol === 'https:' ? httpsRequest : httpRequest)(url, {
+        headers: { Accept: 'image/*', 'User-Agent': 'AI Photo Studio image import' },
+        lookup: publicOnlyLookup,
+        signal,
+    }, resolve);
+    request.on('error', reject);
+    request.end();
+});
+
+const readBody = (response: IncomingMessage, maxBytes: number): Promise<Buffer> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    response.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+            response.destroy();
+            reject(new ProxyRequestError(413, `The image is larger than ${maxBytes / 1024 / 1024} MB.`));
+            return;
+        }
+        chunks.push(chunk);
+    });
+    response.on('end', () => resolve(Buffer.concat(chunks)));
+    response.on('error', reject);
+});
+
+/**
+ * Downloads an image for the studio, which cannot read most other sites' images itself
+ * because they do not allow cross-origin requests. Follows a few redirects, refuses
+ * non-public addresses and anything but the supported raster formats, and stops at `maxBytes`.
+ */
+export const fetchImage = async (value: string, maxBytes: number, signal: AbortSignal): Promise<FetchedImage> => {
+    const timeout = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+    const combined = AbortSignal.any([signal, timeout]);
+    let url = parseImageUrl(value);
+    try {
+        for (let redirects = 0; ; redirects++) {
+            const response = await openRequest(url, combined);
+            const status = response.statusCode ?? 0;
+            const location = response.headers.location;
+            if (status >= 300 && status < 400 && location) {
+                response.resume();
+                if (redirects >= MAX_REDIRECTS) {
+                    throw new ProxyRequestError(502, 'The image address redirects too many times.');
+                }
+                url = parseImageUrl(new URL(location, url).href);
+                continue;
+            }
+            if (status < 200 || status >= 300) {
+                response.resume();
+                throw new ProxyRequestError(502, `The image server answered with status ${status}.`);
+            }
+            const mimeType = (response.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+            if (!mimeType.startsWith('image/')) {
+                response.resume();
+                throw new ProxyRequestError(415, 'The address does not point to an image.');
+            }
+            if (!ALLOWED_MIME_TYPES.includes(mimeType)) {
+                response.resume();
+                throw new ProxyRequestError(415, `${mimeType} images cannot be imported; use a JPEG, PNG, WebP, HEIC, AVIF or TIFF image.`);
+            }
+            if (Number(response.headers['content-length']) > maxBytes) {
+                response.resume();
+                throw new ProxyRequestError(413, `The image is larger than ${maxBytes / 1024 / 1024} MB.`);
+            }
+            return { bytes: await readBody(response, maxBytes), mimeType };
+        }
+    } catch (error) {
+        if (timeout.aborted) {
+            throw new ProxyRequestError(504, 'The image server took too long to answer.');
+        }
+        if (error instanceof ProxyRequestError || signal.aborted) throw error;
+        throw new ProxyRequestError(502, `The image could not be downloaded (${(error as Error).message}).`);
+    }
+};
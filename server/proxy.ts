@@ -0,0 +1,285 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { ApiError, Part } from '@google/genai';
+import { CLIENT_ID_HEADER, createDirectTransport, GeminiModelRole, GeminiRequest } from '../services/providers/geminiTransport';
+import { fetchImage } from './imageFetcher';
+import { ProxyRequestError } from './proxyRequestError';
+import { createRateLimiter, RateLimiter } from './rateLimiter';
+
+/*
+ * A small proxy that holds the Gemini API key so it never ships to the browser. It
+ * exposes one endpoint per model role, each with per-user request limits, and fetches
+ * images for URL import, which the browser cannot do for most sites:
+ *
+ *   POST /api/prompt              prompt writing and fidelity checks
+ *   POST /api/image               image generation and editing
+ *   GET  /api/fetch-image?url=    an image from another site
+ *   GET  /api/health
+ *
+ * Build and start it with `npm run proxy`; see the README for its settings.
+ */
+
+const HOST = process.env.PROXY_HOST || '127.0.0.1';
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+const API_KEY = process.env.GEMINI_API_KEY ?? '';
+const WINDOW_MS = (Number(process.env.PROXY_LIMIT_WINDOW_MINUTES) || 60) * 60000;
+/** Requests one user may make per window, by role. */
+const USER_LIMITS: Record<GeminiModelRole, number> = {
+    prompt: Number(process.env.PROXY_PROMPT_LIMIT) || 120,
+    image: Number(process.env.PROXY_IMAGE_LIMIT) || 40,
+};
+/** Image downloads one user may make per window. */
+const FETCH_LIMIT = Number(process.env.PROXY_FETCH_LIMIT) || 60;
+/** Matches the largest upload the studio accepts. */
+const MAX_FETCHED_IMAGE_BYTES = 40 * 1024 * 1024;
+/**
+ * Client ids are chosen by the browser, so each address is also held to a multiple of
+ * the per-user limit; several people may share one address.
+ */
+const ADDRESS_LIMIT_MULTIPLIER = 4;
+/** Behind a reverse proxy every request comes from the same address; trust its header instead. */
+const TRUST_FORWARDED_FOR = process.env.PROXY_TRUST_FORWARDED_FOR === 'true';
+const MAX_BODY_BYTES = 32 * 1024 * 1024;
+const MAX_PARTS = 24;
+const CLIENT_ID_PATTERN = /^[\w-]{8,64}$/;
+const SWEEP_INTERVAL_MS = 5 * 60000;
+
+const ROUTES: Record<string, GeminiModelRole> = {
+    '/api/prompt': 'prompt',
+    '/api/image': 'image',
+};
+
+const transport = API_KEY ? createDirectTransport(API_KEY) : null;
+
+const limiters: Record<GeminiModelRole | 'fetch', { user: RateLimiter, address: RateLimiter }> = {
+    prompt: {
+        user: createRateLimiter(USER_LIMITS.prompt, WINDOW_MS),
+        address: createRateLimiter(USER_LIMITS.prompt * ADDRESS_LIMIT_MULTIPLIER, WINDOW_MS),
+    },
+    image: {
+        user: createRateLimiter(USER_LIMITS.image, WINDOW_MS),
+        address: createRateLimiter(USER_LIMITS.image * ADDRESS_LIMIT_MULTIPLIER, WINDOW_MS),
+    },
+    fetch: {
+        user: createRateLimiter(FETCH_LIMIT, WINDOW_MS),
+        address: createRateLimiter(FETCH_LIMIT * ADDRESS_LIMIT_MULTIPLIER, WINDOW_MS),
+    },
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    if (res.headersSent || res.destroyed) return;
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+/**
+ * Replies in the same shape as Gemini's own errors, so the studio handles both alike.
+ * A wait is reported as a RetryInfo detail and a Retry-After header.
+ */
+const sendError = (res: ServerResponse, status: number, message: string, retryAfterMs: number | null = null) => {
+    const retryAfterSeconds = retryAfterMs === null ? null : Math.max(1, Math.ceil(retryAfterMs / 1000));
+    const details = retryAfterSeconds === null
+        ? undefined
+        : [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: `${retryAfterSeconds}s` }];
+    sendJson(
+        res,
+        status,
+        { error: { code: status, message, details } },
+        retryAfterSeconds === null ? {} : { 'Retry-After': String(retryAfterSeconds) }
+    );
+};
+
+const getClientAddress = (req: IncomingMessage): string => {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (TRUST_FORWARDED_FOR && typeof forwarded === 'string' && forwarded.trim()) {
+        return forwarded.split(',')[0].trim();
+    }
+    return req.socket.remoteAddress ?? 'unknown';
+};
+
+/**
+ * The browser's anonymous id when it sent a well-formed one, its address otherwise.
+ */
+const getUserKey = (req: IncomingMessage, address: string): string => {
+    const clientId = req.headers[CLIENT_ID_HEADER.toLowerCase()];
+    return typeof clientId === 'string' && CLIENT_ID_PATTERN.test(clientId) ? `client:${clientId}` : `address:${address}`;
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        // Keep draining an oversized body so the error can still be sent back.
+        if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+    });
+    req.on('end', () => {
+        if (size > MAX_BODY_BYTES) {
+            reject(new ProxyRequestError(413, `Request bodies are limited to ${MAX_BODY_BYTES / 1024 / 1024} MB.`));
+            return;
+        }
+        try {
+            resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+        } catch {
+            reject(new ProxyRequestError(400, 'The request body is not valid JSON.'));
+        }
+    });
+    req.on('error', reject);
+});
+
+/**
+ * Accepts only text and inline image parts, and a response schema only for the prompt
+ * model, so the proxy cannot be used for anything the studio does not do.
+ */
+const parseGeminiRequest = (body: unknown, role: GeminiModelRole): GeminiRequest => {
+    const { parts, responseSchema } = (body ?? {}) as { parts?: unknown, responseSchema?: unknown };
+    if (!Array.isArray(parts) || parts.length === 0 || parts.length > MAX_PARTS) {
+        throw new ProxyRequestError(400, `Send between 1 and ${MAX_PARTS} parts.`);
+    }
+    const cleanParts = parts.map((part: Part): Part => {
+        if (typeof part?.text === 'string') {
+            return { text: part.text };
+        }
+        const { data, mimeType } = part?.inlineData ?? {};
+        if (typeof data === 'string' && typeof mimeType === 'string' && mimeType.startsWith('image/')) {
+            return { inlineData: { data, mimeType } };
+        }
+        throw new ProxyRequestError(400, 'Only text and inline image parts are accepted.');
+    });
+    if (responseSchema !== undefined && (role !== 'prompt' || typeof responseSchema !== 'object' || responseSchema === null)) {
+        throw new ProxyRequestError(400, 'A response schema is only accepted by the prompt endpoint.');
+    }
+    return { parts: cleanParts, responseSchema: responseSchema as object | undefined };
+};
+
+const handleGenerate = async (role: GeminiModelRole, req: IncomingMessage, res: ServerResponse) => {
+    const controller = new AbortController();
+    // Stop the Gemini request if the studio cancels or goes away.
+    res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
+    });
+    try {
+        if (!transport) {
+            throw new ProxyRequestError(503, 'The proxy has no GEMINI_API_KEY configured.');
+        }
+        const address = getClientAddress(req);
+        const userKey = getUserKey(req, address);
+        const { user, address: addressLimiter } = limiters[role];
+        const denied = [user.check(userKey), addressLimiter.check(address)].find(decision => !decision.allowed);
+        if (denied) {
+            throw new ProxyRequestError(
+                429,
+                `Request limit reached: at most ${USER_LIMITS[role]} ${role} requests every ${WINDOW_MS / 60000} minutes.`,
+                denied.retryAfterMs
+            );
+        }
+        const request = parseGeminiRequest(await readJsonBody(req), role);
+        user.record(userKey);
+        addressLimiter.record(address);
+
+        const { sdkHttpResponse: _httpResponse, ...response } = await transport(role, request, controller.signal);
+        sendJson(res, 200, response);
+    } catch (error) {
+        if (controller.signal.aborted) return;
+        if (error instanceof ProxyRequestError) {
+            sendError(res, error.status, error.message, error.retryAfterMs);
+        } else if (error instanceof ApiError) {
+            // The SDK's message is Google's error JSON; pass it through untouched.
+            if (res.headersSent) return;
+            res.writeHead(error.status, { 'Content-Type': 'application/json' });
+            res.end(error.message);
+        } else {
+            console.error(`Proxy ${role} request failed:`, error);
+            sendError(res, 502, 'The proxy could not complete the request to Gemini.');
+        }
+    }
+};
+
+/**
+ * Sends the image back as-is. Works without a Gemini key, since importing a photo does
+ * not call the model.
+ */
+const handleFetchImage = async (imageUrl: string | null, req: IncomingMessage, res: ServerResponse) => {
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
+    });
+    try {
+        if (!imageUrl) {
+            throw new ProxyRequestError(400, 'Pass the image address as the url parameter.');
+        }
+        const address = getClientAddress(req);
+        const userKey = getUserKey(req, address);
+        const { user, address: addressLimiter } = limiters.fetch;
+        const denied = [user.check(userKey), addressLimiter.check(address)].find(decision => !decision.allowed);
+        if (denied) {
+            throw new ProxyRequestError(
+                429,
+                `Request limit reached: at most ${FETCH_LIMIT} image imports every ${WINDOW_MS / 60000} minutes.`,
+                denied.retryAfterMs
+            );
+        }
+        user.record(userKey);
+        addressLimiter.record(address);
+
+        const { bytes, mimeType } = await fetchImage(imageUrl, MAX_FETCHED_IMAGE_BYTES, controller.signal);
+        if (res.headersSent || res.destroyed) return;
+        res.writeHead(200, {
+            'Content-Type': mimeType,
+            'Content-Length': String(bytes.length),
+            'Cache-Control': 'no-store',
+            // The bytes come from another site; never let the browser treat them as a page.
+            'X-Content-Type-Options': 'nosniff',
+            'Content-Security-Policy': 'sandbox',
+        });
+        res.end(bytes);
+    } catch (error) {
+        if (controller.signal.aborted) return;
+        if (error instanceof ProxyRequestError) {
+            sendError(res, error.status, error.message, error.retryAfterMs);
+        } else {
+            console.error('Proxy image fetch failed:', error);
+            sendError(res, 502, 'The proxy could not download the image.');
+        }
+    }
+};
+
+const server = createServer((req, res) => {
+    const { pathname, searchParams } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname === '/api/health' && req.method === 'GET') {
+        sendJson(res, 200, { ok: true, configured: Boolean(transport) });
+        return;
+    }
+    if (pathname === '/api/fetch-image') {
+        if (req.method !== 'GET') {
+            sendError(res, 405, `${pathname} only accepts GET.`);
+            return;
+        }
+        void handleFetchImage(searchParams.get('url'), req, res);
+        return;
+    }
+    const role = ROUTES[pathname];
+    if (!role) {
+        sendError(res, 404, `No route for ${pathname}.`);
+        return;
+    }
+    if (req.method !== 'POST') {
+        sendError(res, 405, `${pathname} only accepts POST.`);
+        return;
+    }
+    void handleGenerate(role, req, res);
+});
+
+setInterval(() => {
+    const now = Date.now();
+    Object.values(limiters).forEach(({ user, address }) => {
+        user.sweep(now);
+        address.sweep(now);
+    });
+}, SWEEP_INTERVAL_MS).unref();
+
+server.listen(PORT, HOST, () => {
+    console.log(`Studio proxy listening on http://${HOST}:${PORT}`);
+    if (!transport) {
+        console.warn('GEMINI_API_KEY is not set; requests will be refused until it is.');
+    }
+});
@@ -0,0 +1,14 @@
+/**
+ * A request the proxy refuses or cannot complete, with the status to answer it with.
+ */
+export class ProxyRequestError extends Error {
+    readonly status: number;
+    readonly retryAfterMs: number | null;
+
+    constructor(status: number, message: string, retryAfterMs: number | null = null) {
+        super(message);
+        this.name = 'ProxyRequestError';
+        this.status = status;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
@@ -0,0 +1,48 @@
+export interface RateLimitDecision {
+    allowed: boolean;
+    /** How long until the oldest counted request leaves the window; 0 when allowed. */
+    retryAfterMs: number;
+}
+
+export interface RateLimiter {
+    /** Whether `key` may make another request now, without counting one. */
+    check(key: string, now?: number): RateLimitDecision;
+    /** Counts a request for `key`. */
+    record(key: string, now?: number): void;
+    /** Forgets keys with no requests left in the window. */
+    sweep(now?: number): void;
+}
+
+/**
+ * A sliding-window limiter: allows at most `limit` requests per key in any `windowMs`.
+ * Checking and recording are separate so a request can be held to several limits and
+ * only counted once it passes all of them.
+ */
+export const createRateLimiter = (limit: number, windowMs: number): RateLimiter => {
+    const requests = new Map<string, number[]>();
+
+    const getRecent = (key: string, now: number): number[] => {
+        const recent = (requests.get(key) ?? []).filter(time => now - time < windowMs);
+        if (recent.length > 0) {
+            requests.set(key, recent);
+        } else {
+            requests.delete(key);
+        }
+        return recent;
+    };
+
+    return {
+        check: (key, now = Date.now()) => {
+            const recent = getRecent(key, now);
+            return recent.length < limit
+                ? { allowed: true, retryAfterMs: 0 }
+                : { allowed: false, retryAfterMs: recent[0] + windowMs - now };
+        },
+        record: (key, now = Date.now()) => {
+            requests.set(key, [...getRecent(key, now), now]);
+        },
+        sweep: (now = Date.now()) => {
+            [...requests.keys()].forEach(key => getRecent(key, now));
+        },
+    };
+};
@@ -0,0 +1,35 @@
+/**
+ * Creates the error thrown when an operation is cancelled through an AbortSignal,
+ * matching what `fetch` throws so callers can handle both the same way.
+ */
+export const createAbortError = (): Error => new DOMException('The operation was aborted.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+    (error instanceof DOMException || error instanceof Error) && error.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) {
+        throw createAbortError();
+    }
+};
+
+/**
+ * Resolves after `ms` milliseconds, or rejects with an AbortError as soon as `signal` fires.
+ */
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
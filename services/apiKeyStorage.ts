@@ -0,0 +1,46 @@
+const PERSONAL_KEY_STORAGE_KEY = 'ai-photo-studio:personal-api-key';
+const CLIENT_ID_STORAGE_KEY = 'ai-photo-studio:client-id';
+
+/**
+ * The personal Gemini key entered in settings. It lives in session storage only, so it
+ * is forgotten when the tab closes and never reaches the proxy.
+ */
+export const loadPersonalApiKey = (): string | null => {
+    try {
+        return sessionStorage.getItem(PERSONAL_KEY_STORAGE_KEY) || null;
+    } catch {
+        return null;
+    }
+};
+
+export const savePersonalApiKey = (apiKey: string) => {
+    try {
+        sessionStorage.setItem(PERSONAL_KEY_STORAGE_KEY, apiKey.trim());
+    } catch (error) {
+        console.warn('Could not save the personal API key:', error);
+    }
+};
+
+export const clearPersonalApiKey = () => {
+    try {
+        sessionStorage.removeItem(PERSONAL_KEY_STORAGE_KEY);
+    } catch (error) {
+        console.warn('Could not clear the personal API key:', error);
+    }
+};
+
+/**
+ * An anonymous id for this browser, created on first use, that the proxy counts request
+ * limits against. Falls back to a fresh id per page load when storage is unavailable.
+ */
+export const getClientId = (): string => {
+    try {
+        const stored = localStorage.getItem(CLIENT_ID_STORAGE_KEY);
+        if (stored) return stored;
+        const clientId = crypto.randomUUID();
+        localStorage.setItem(CLIENT_ID_STORAGE_KEY, clientId);
+        return clientId;
+    } catch {
+        return crypto.randomUUID();
+    }
+};
@@ -0,0 +1,67 @@
+import { Base64Image, BatchItem, BrandKit, Dimensions, StyleReference } from '../types';
+import { editProductImage } from './geminiService';
+import { cropImageToAspect, dataUrlToBase64Image, fitImageToSize } from './imageUtils';
+import { createZip, ZipEntry } from './zipService';
+import { base64ToBytes } from './binaryUtils';
+import { getBaseName, getExtensionForMimeType } from './downloadUtils';
+import { applyBrandOverlays } from './brandKitService';
+
+/**
+ * Maximum number of image generations in flight at once. Kept low so a large
+ * catalog does not trip the API rate limit.
+ */
+export const BATCH_CONCURRENCY = 2;
+
+let nextBatchItemId = 0;
+
+export const createBatchItem = (fileName: string, sourceImage: Base64Image): BatchItem => ({
+    id: `batch-${Date.now()}-${nextBatchItemId++}`,
+    fileName,
+    sourceImage,
+    status: 'queued',
+    resultImage: null,
+    error: null,
+    attempts: 0,
+});
+
+/**
+ * Crops a batch item's source image to the shared aspect ratio and generates its result,
+ * resized to the exact output size when one is set. The brand kit is applied on download.
+ */
+export const generateBatchItemImage = async (
+    item: BatchItem,
+    aspect: number,
+    outputSize: Dimensions | null,
+    prompt: string,
+    styleReferences: StyleReference[],
+    signal?: AbortSignal
+): Promise<string> => {
+    const croppedImage = await cropImageToAspect(item.sourceImage, aspect);
+    const { imageUrl: resultImage } = await editProductImage(croppedImage, prompt, styleReferences, signal);
+    return outputSize ? fitImageToSize(resultImage, outputSize) : resultImage;
+};
+
+/**
+ * Packs all finished batch results into a single ZIP archive named after their source
+ * files, with the brand kit's logo and watermark drawn on.
+ */
+export const createBatchZip = async (items: BatchItem[], brandKit: BrandKit): Promise<Blob> => {
+    const usedNames = new Set<string>();
+    const entries: ZipEntry[] = [];
+
+    for (const item of items) {
+        if (item.status !== 'done' || !item.resultImage) continue;
+        const { base64, mimeType } = dataUrlToBase64Image(await applyBrandOverlays(item.resultImage, brandKit));
+        const baseName = `${getBaseName(item.fileName)}-studio`;
+        const extension = getExtensionForMimeType(mimeType);
+
+        let name = `${baseName}.${extension}`;
+        for (let i = 2; usedNames.has(name); i++) {
+            name = `${baseName}-${i}.${extension}`;
+        }
+        usedNames.add(name);
+        entries.push({ name, data: base64ToBytes(base64) });
+    }
+
+    return createZip(entries);
+};
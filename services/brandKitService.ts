@@ -0,0 +1,250 @@
+import { BrandKit, OverlayCorner, WatermarkSettings } from '../types';
+import { createCanvas, loadImage, toDataUrl } from './imageUtils';
+
+export const DEFAULT_BRAND_KIT: BrandKit = {
+    enabled: false,
+    primaryColors: [],
+    secondaryColors: [],
+    forbiddenColors: [],
+    approvedBackgrounds: [],
+    typeface: '',
+    logo: {
+        enabled: true,
+        image: null,
+        corner: 'bottom-right',
+        opacity: 0.9,
+        size: 0.15,
+    },
+    watermark: {
+        enabled: false,
+        text: '',
+        position: 'tiled',
+        opacity: 0.15,
+    },
+};
+
+const BRAND_KIT_STORAGE_KEY = 'ai-photo-studio:brand-kit';
+
+/** Gap between an overlay and the image edge, as a share of the shorter side. */
+const OVERLAY_MARGIN = 0.03;
+/** Watermark text height, as a share of the shorter side. */
+const WATERMARK_FONT_SIZE = 0.04;
+const SAMPLE_EDGE = 48;
+/** Channel step used to bucket colors before counting them. */
+const QUANTIZE_STEP = 32;
+/** Buckets closer than this are reported as one dominant color. */
+const MERGE_DISTANCE = 40;
+/** Share of the image a color must cover to count as dominant. */
+const DOMINANT_MIN_SHARE = 0.08;
+const MAX_DOMINANT_COLORS = 5;
+/** A dominant color this far from every palette color is off-brand. */
+const PALETTE_DISTANCE = 60;
+/** A dominant color this close to a forbidden color is a violation. */
+const FORBIDDEN_DISTANCE = 45;
+
+type Rgb = [number, number, number];
+
+export interface DominantColor {
+    hex: string;
+    /** Share of the image, 0–1. */
+    share: number;
+}
+
+export interface BrandPaletteReport {
+    dominantColors: DominantColor[];
+    /** Dominant colors that are not close to any primary or secondary color. */
+    offPalette: DominantColor[];
+    /** Dominant colors that match a forbidden color, with the color they match. */
+    forbidden: { color: DominantColor, forbiddenHex: string }[];
+}
+
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export const isHexColor = (value: string): boolean => HEX_COLOR_PATTERN.test(value);
+
+const hexToRgb = (hex: string): Rgb => [
+    parseInt(hex.slice(1, 3), 16),
+    parseInt(hex.slice(3, 5), 16),
+    parseInt(hex.slice(5, 7), 16),
+];
+
+const rgbToHex = (rgb: Rgb): string => `#${rgb.map(value => Math.round(value).toString(16).padStart(2, '0')).join('')}`;
+
+const colorDistance = (a: Rgb, b: Rgb): number => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+/**
+ * True when the kit would change a result: enabled, with a logo or watermark to draw.
+ */
+export const hasBrandOverlays = (kit: BrandKit): boolean =>
+    kit.enabled && ((kit.logo.enabled && kit.logo.image !== null) || (kit.watermark.enabled && kit.watermark.text.trim() !== ''));
+
+/**
+ * True when the kit has a palette to check results against.
+ */
+export const hasBrandPalette = (kit: BrandKit): boolean =>
+    kit.enabled && kit.primaryColors.length + kit.secondaryColors.length + kit.forbiddenColors.length > 0;
+
+/**
+ * Top-left position of a box placed in a corner of the image, `margin` pixels from its edges.
+ */
+const cornerPosition = (corner: OverlayCorner, width: number, height: number, boxWidth: number, boxHeight: number, margin: number) => ({
+    x: corner.endsWith('left') ? margin : width - boxWidth - margin,
+    y: corner.startsWith('top') ? margin : height - boxHeight - margin,
+});
+
+const drawWatermark = (ctx: CanvasRenderingContext2D, width: number, height: number, watermark: WatermarkSettings, typeface: string) => {
+    const text = watermark.text.trim();
+    const fontSize = Math.max(12, Math.round(Math.min(width, height) * WATERMARK_FONT_SIZE));
+    ctx.save();
+    ctx.globalAlpha = watermark.opacity;
+    ctx.font = `600 ${fontSize}px ${typeface.trim() ? `"${typeface.trim()}", ` : ''}sans-serif`;
+    ctx.fillStyle = '#ffffff';
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+    ctx.shadowBlur = fontSize / 4;
+    ctx.textBaseline = 'top';
+    const textWidth = ctx.measureText(text).width;
+
+    if (watermark.position === 'tiled') {
+        // Rotate around the center and cover the diagonal so no corner is left bare.
+        const diagonal = Math.hypot(width, height);
+        const stepX = textWidth + fontSize * 4;
+        const stepY = fontSize * 5;
+        ctx.translate(width / 2, height / 2);
+        ctx.rotate(-Math.PI / 6);
+        for (let y = -diagonal / 2; y < diagonal / 2; y += stepY) {
+            const offset = (Math.round(y / stepY) % 2) * (stepX / 2);
+            for (let x = -diagonal / 2 - offset; x < diagonal / 2; x += stepX) {
+                ctx.fillText(text, x, y);
+            }
+        }
+    } else {
+        const margin = Math.min(width, height) * OVERLAY_MARGIN;
+        const { x, y } = cornerPosition(watermark.position, width, height, textWidth, fontSize, margin);
+        ctx.fillText(text, x, y);
+    }
+    ctx.restore();
+};
+
+/**
+ * Draws the brand kit's watermark and logo onto a result. Returns the image unchanged
+ * when the kit has nothing to draw, otherwise a PNG data URL at the same resolution.
+ */
+export const applyBrandOverlays = async (imageUrl: string, kit: BrandKit): Promise<string> => {
+    if (!hasBrandOverlays(kit)) {
+        return imageUrl;
+    }
+    const image = await loadImage(imageUrl);
+    const width = image.naturalWidth;
+    const height = image.naturalHeight;
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(image, 0, 0);
+
+    if (kit.watermark.enabled && kit.watermark.text.trim()) {
+        drawWatermark(ctx, width, height, kit.watermark, kit.typeface);
+    }
+
+    if (kit.logo.enabled && kit.logo.image) {
+        const logo = await loadImage(toDataUrl(kit.logo.image));
+        const logoWidth = width * kit.logo.size;
+        const logoHeight = logoWidth * (logo.naturalHeight / logo.naturalWidth);
+        const margin = Math.min(width, height) * OVERLAY_MARGIN;
+        const { x, y } = cornerPosition(kit.logo.corner, width, height, logoWidth, logoHeight, margin);
+        ctx.globalAlpha = kit.logo.opacity;
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(logo, x, y, logoWidth, logoHeight);
+        ctx.globalAlpha = 1;
+    }
+
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Finds the colors covering most of an image: counts quantized colors on a thumbnail,
+ * then merges buckets that are close enough to read as one color.
+ */
+const findDominantColors = (image: HTMLImageElement): DominantColor[] => {
+    const { ctx } = createCanvas(SAMPLE_EDGE, SAMPLE_EDGE);
+    ctx.drawImage(image, 0, 0, SAMPLE_EDGE, SAMPLE_EDGE);
+    const { data } = ctx.getImageData(0, 0, SAMPLE_EDGE, SAMPLE_EDGE);
+
+    const buckets = new Map<number, { sum: Rgb, count: number }>();
+    for (let i = 0; i < data.length; i += 4) {
+        const key = (Math.floor(data[i] / QUANTIZE_STEP) << 16) | (Math.floor(data[i + 1] / QUANTIZE_STEP) << 8) | Math.floor(data[i + 2] / QUANTIZE_STEP);
+        const bucket = buckets.get(key) ?? { sum: [0, 0, 0], count: 0 };
+        bucket.sum[0] += data[i];
+        bucket.sum[1] += data[i + 1];
+        bucket.sum[2] += data[i + 2];
+        bucket.count++;
+        buckets.set(key, bucket);
+    }
+
+    const clusters: { color: Rgb, count: number }[] = [];
+    const sorted = [...buckets.values()].sort((a, b) => b.count - a.count);
+    for (const { sum, count } of sorted) {
+        const color: Rgb = [sum[0] / count, sum[1] / count, sum[2] / count];
+        const cluster = clusters.find(candidate => colorDistance(candidate.color, color) < MERGE_DISTANCE);
+        if (cluster) {
+            const total = cluster.count + count;
+            cluster.color = cluster.color.map((value, channel) => (value * cluster.count + color[channel] * count) / total) as Rgb;
+            cluster.count = total;
+        } else {
+            clusters.push({ color, count });
+        }
+    }
+
+    const pixelCount = SAMPLE_EDGE * SAMPLE_EDGE;
+    return clusters
+        .map(({ color, count }) => ({ hex: rgbToHex(color), share: count / pixelCount }))
+        .filter(color => color.share >= DOMINANT_MIN_SHARE)
+        .sort((a, b) => b.share - a.share)
+        .slice(0, MAX_DOMINANT_COLORS);
+};
+
+/**
+ * Compares a result's dominant colors with the brand palette. Off-palette colors are only
+ * reported when the kit defines primary or secondary colors.
+ */
+export const checkBrandPalette = async (imageUrl: string, kit: BrandKit): Promise<BrandPaletteReport> => {
+    const dominantColors = findDominantColors(await loadImage(imageUrl));
+    const palette = [...kit.primaryColors, ...kit.secondaryColors].filter(isHexColor).map(hexToRgb);
+    const forbiddenColors = kit.forbiddenColors.filter(isHexColor);
+
+    const offPalette = palette.length === 0 ? [] : dominantColors.filter(color => {
+        const rgb = hexToRgb(color.hex);
+        return palette.every(paletteColor => colorDistance(rgb, paletteColor) > PALETTE_DISTANCE);
+    });
+    const forbidden = dominantColors.flatMap(color => {
+        const match = forbiddenColors.find(forbiddenHex => colorDistance(hexToRgb(color.hex), hexToRgb(forbiddenHex)) <= FORBIDDEN_DISTANCE);
+        return match ? [{ color, forbiddenHex: match }] : [];
+    });
+
+    return { dominantColors, offPalette, forbidden };
+};
+
+/**
+ * Returns the brand kit saved last time, falling back to the defaults.
+ */
+export const loadBrandKit = (): BrandKit => {
+    try {
+        const stored = localStorage.getItem(BRAND_KIT_STORAGE_KEY);
+        if (!stored) return DEFAULT_BRAND_KIT;
+        const parsed = JSON.parse(stored);
+        return {
+            ...DEFAULT_BRAND_KIT,
+            ...parsed,
+            logo: { ...DEFAULT_BRAND_KIT.logo, ...parsed.logo },
+            watermark: { ...DEFAULT_BRAND_KIT.watermark, ...parsed.watermark },
+        };
+    } catch {
+        return DEFAULT_BRAND_KIT;
+    }
+};
+
+export const saveBrandKit = (kit: BrandKit) => {
+    try {
+        localStorage.setItem(BRAND_KIT_STORAGE_KEY, JSON.stringify(kit));
+    } catch (error) {
+        // Usually a logo too large for local storage.
+        console.warn('Could not save brand kit:', error);
+    }
+};
@@ -0,0 +1,182 @@
+import { CompositeLayout } from '../types';
+import { createCanvas, loadImage } from './imageUtils';
+
+export const DEFAULT_COMPOSITE_LAYOUT: CompositeLayout = {
+    x: 0.5,
+    y: 0.85,
+    scale: 0.6,
+    rotation: 0,
+    shadow: 0.5,
+    reflection: 0,
+    colorMatch: 0.3,
+};
+
+/** Alpha below which a cut-out pixel counts as empty when measuring the product. */
+const OPAQUE_ALPHA = 8;
+/** Share of the product's height mirrored into the reflection. */
+const REFLECTION_DEPTH = 0.4;
+const MAX_COLOR_GAIN = 2;
+
+interface Bounds {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Finds the bounding box of the visible pixels of a cut-out.
+ */
+const findOpaqueBounds = (data: Uint8ClampedArray, width: number, height: number): Bounds | null => {
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (data[(y * width + x) * 4 + 3] < OPAQUE_ALPHA) continue;
+            minX = Math.min(minX, x);
+            minY = Math.min(minY, y);
+            maxX = Math.max(maxX, x);
+            maxY = Math.max(maxY, y);
+        }
+    }
+    return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+/**
+ * Average color of the pixels whose alpha passes the threshold.
+ */
+const averageColor = (data: Uint8ClampedArray): [number, number, number] => {
+    const sum = [0, 0, 0];
+    let count = 0;
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] < OPAQUE_ALPHA) continue;
+        sum[0] += data[i];
+        sum[1] += data[i + 1];
+        sum[2] += data[i + 2];
+        count++;
+    }
+    return count === 0 ? [128, 128, 128] : [sum[0] / count, sum[1] / count, sum[2] / count];
+};
+
+/**
+ * Per-channel gains that move the product's color cast toward the scene's while
+ * leaving its brightness alone. `strength` 0 keeps the product as shot.
+ */
+const colorMatchGains = (product: [number, number, number], scene: [number, number, number], strength: number): number[] => {
+    const productLevel = (product[0] + product[1] + product[2]) / 3 || 1;
+    const sceneLevel = (scene[0] + scene[1] + scene[2]) / 3 || 1;
+    return product.map((value, channel) => {
+        const target = (scene[channel] / sceneLevel) / (Math.max(value, 1) / productLevel);
+        const gain = 1 + (target - 1) * strength;
+        return Math.min(MAX_COLOR_GAIN, Math.max(1 / MAX_COLOR_GAIN, gain));
+    });
+};
+
+/**
+ * Crops the cut-out to its visible pixels and color-matches it to the background.
+ */
+const prepareProduct = (cutout: HTMLImageElement, background: HTMLImageElement, colorMatch: number): HTMLCanvasElement => {
+    const { ctx: sourceCtx } = createCanvas(cutout.naturalWidth, cutout.naturalHeight);
+    sourceCtx.drawImage(cutout, 0, 0);
+    const source = sourceCtx.getImageData(0, 0, cutout.naturalWidth, cutout.naturalHeight);
+    const bounds = findOpaqueBounds(source.data, source.width, source.height);
+    if (!bounds) {
+        throw new Error('The product cut-out is empty. Try removing the background again.');
+    }
+
+    const { canvas, ctx } = createCanvas(bounds.width, bounds.height);
+    ctx.drawImage(cutout, bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, bounds.width, bounds.height);
+    if (colorMatch <= 0) {
+        return canvas;
+    }
+
+    const pixels = ctx.getImageData(0, 0, bounds.width, bounds.height);
+    const { ctx: sceneCtx } = createCanvas(64, 64);
+    sceneCtx.drawImage(background, 0, 0, 64, 64);
+    const gains = colorMatchGains(averageColor(pixels.data), averageColor(sceneCtx.getImageData(0, 0, 64, 64).data), colorMatch);
+    for (let i = 0; i < pixels.data.length; i += 4) {
+        pixels.data[i] *= gains[0];
+        pixels.data[i + 1] *= gains[1];
+        pixels.data[i + 2] *= gains[2];
+    }
+    ctx.putImageData(pixels, 0, 0);
+    return canvas;
+};
+
+/**
+ * Mirrors the bottom of the product and fades it out, ready to draw below its base.
+ */
+const buildReflection = (product: HTMLCanvasElement, width: number, height: number): HTMLCanvasElement => {
+    const depth = Math.max(1, Math.round(height * REFLECTION_DEPTH));
+    const { canvas, ctx } = createCanvas(Math.max(1, Math.round(width)), depth);
+    ctx.save();
+    ctx.translate(0, height);
+    ctx.scale(1, -1);
+    ctx.drawImage(product, 0, 0, width, height);
+    ctx.restore();
+
+    const fade = ctx.createLinearGradient(0, 0, 0, depth);
+    fade.addColorStop(0, 'rgba(0, 0, 0, 1)');
+    fade.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.fillStyle = fade;
+    ctx.fillRect(0, 0, canvas.width, depth);
+    return canvas;
+};
+
+/**
+ * Draws a soft elliptical contact shadow centered on the product's base.
+ */
+const drawContactShadow = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, opacity: number) => {
+    const radiusX = width * 0.55;
+    const radiusY = Math.max(4, height * 0.06);
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.scale(1, radiusY / radiusX);
+    const gradient = ctx.createRadialGradient(0, 0, 0, 0, 0, radiusX);
+    gradient.addColorStop(0, `rgba(0, 0, 0, ${opacity})`);
+    gradient.addColorStop(0.5, `rgba(0, 0, 0, ${opacity * 0.5})`);
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(0, 0, radiusX, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+};
+
+/**
+ * Places a transparent product cut-out on a background with a contact shadow, an
+ * optional reflection and color matching. The product's own pixels are only scaled,
+ * rotated and tinted, never redrawn. Returns a flattened PNG data URL at the
+ * background's resolution.
+ */
+export const compositeProduct = async (backgroundUrl: string, cutoutUrl: string, layout: CompositeLayout): Promise<string> => {
+    const [background, cutout] = await Promise.all([loadImage(backgroundUrl), loadImage(cutoutUrl)]);
+    const width = background.naturalWidth;
+    const height = background.naturalHeight;
+    const product = prepareProduct(cutout, background, layout.colorMatch);
+
+    const drawHeight = layout.scale * height;
+    const drawWidth = (product.width / product.height) * drawHeight;
+    const baseX = layout.x * width;
+    const baseY = layout.y * height;
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(background, 0, 0, width, height);
+    if (layout.shadow > 0) {
+        drawContactShadow(ctx, baseX, baseY, drawWidth, drawHeight, layout.shadow);
+    }
+
+    ctx.save();
+    ctx.translate(baseX, baseY);
+    ctx.rotate((layout.rotation * Math.PI) / 180);
+    ctx.imageSmoothingQuality = 'high';
+    if (layout.reflection > 0) {
+        ctx.globalAlpha = layout.reflection;
+        ctx.drawImage(buildReflection(product, drawWidth, drawHeight), -drawWidth / 2, 0);
+        ctx.globalAlpha = 1;
+    }
+    ctx.drawImage(product, -drawWidth / 2, -drawHeight, drawWidth, drawHeight);
+    ctx.restore();
+
+    return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,18 @@
+/**
+ * Runs `worker` over every item with at most `limit` calls in flight.
+ * The worker is responsible for handling its own errors.
+ */
+export const runWithConcurrency = async <T>(
+    items: T[],
+    limit: number,
+    worker: (item: T, index: number) => Promise<void>
+): Promise<void> => {
+    let nextIndex = 0;
+    const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            await worker(items[index], index);
+        }
+    });
+    await Promise.all(runners);
+};
@@ -0,0 +1,188 @@
+import { Base64Image, CropOptions, Dimensions } from '../types';
+import { CutoutMask, keyBackdropMask } from './cutoutService';
+import { canvasToBase64Image, createCanvas, getBorderColor, loadImage } from './imageUtils';
+
+/**
+ * A rectangle in the pixels of the image being cropped.
+ */
+export interface CropRegion extends Dimensions {
+    x: number;
+    y: number;
+}
+
+/**
+ * The image the crop tool works on: the product photo after rotation and padding.
+ */
+export interface CropSource {
+    url: string;
+    width: number;
+    height: number;
+    /** Where the rotated photo sits on the padded canvas. */
+    photo: CropRegion;
+}
+
+/** Subject detection runs on a copy no larger than this on its longer side. */
+const DETECTION_MAX_SIDE = 512;
+/** A row or column needs this share of product pixels to count, so specks and noise are ignored. */
+const MIN_SUBJECT_LINE_SHARE = 0.01;
+/** Above this share of the photo, the product could not be told apart from the backdrop. */
+const MAX_SUBJECT_AREA_SHARE = 0.9;
+/** Crops are whole pixels, so a saved crop is allowed to be this far off the exact ratio. */
+const ASPECT_TOLERANCE = 0.02;
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+
+/**
+ * The size of the box that holds an image of `size` once rotated.
+ */
+const getRotatedSize = ({ width, height }: Dimensions, degrees: number): Dimensions => {
+    const cos = Math.abs(Math.cos(toRadians(degrees)));
+    const sin = Math.abs(Math.sin(toRadians(degrees)));
+    return { width: Math.round(width * cos + height * sin), height: Math.round(width * sin + height * cos) };
+};
+
+/**
+ * The smallest size of the aspect ratio that contains `size`.
+ */
+const expandToAspect = ({ width, height }: Dimensions, aspect: number): Dimensions =>
+    width / height < aspect
+        ? { width: Math.round(height * aspect), height }
+        : { width, height: Math.round(width / aspect) };
+
+/**
+ * The largest size of the aspect ratio that fits inside `size`.
+ */
+const shrinkToAspect = ({ width, height }: Dimensions, aspect: number): Dimensions =>
+    width / height > aspect
+        ? { width: Math.round(height * aspect), height }
+        : { width, height: Math.round(width / aspect) };
+
+const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(value, min), max);
+
+/**
+ * Whether a cropped image already has the aspect ratio, give or take rounding.
+ */
+export const matchesAspect = ({ width, height }: Dimensions, aspect: number): boolean =>
+    Math.abs(width / height / aspect - 1) < ASPECT_TOLERANCE;
+
+/**
+ * Draws the image, scaled and rotated about its center, onto a canvas of `size` filled with `fill`.
+ */
+const drawRotated = (image: HTMLImageElement, size: Dimensions, degrees: number, fill: string, scale = 1): HTMLCanvasElement => {
+    const { canvas, ctx } = createCanvas(size.width, size.height);
+    ctx.fillStyle = fill;
+    ctx.fillRect(0, 0, size.width, size.height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.translate(size.width / 2, size.height / 2);
+    ctx.rotate(toRadians(degrees));
+    const width = image.naturalWidth * scale;
+    const height = image.naturalHeight * scale;
+    ctx.drawImage(image, -width / 2, -height / 2, width, height);
+    return canvas;
+};
+
+/**
+ * Rotates the photo and, when fitting with padding, extends it to the aspect ratio with
+ * the margin on every side, so any framing of the product stays on the canvas. Returns
+ * the photo itself when there is nothing to change.
+ */
+export const renderCropSource = async (src: string, aspect: number, { rotation, fit, margin, padColor }: CropOptions): Promise<CropSource> => {
+    const image = await loadImage(src);
+    const natural = { width: image.naturalWidth, height: image.naturalHeight };
+    const rotated = getRotatedSize(natural, rotation);
+    const space = fit === 'pad' ? Math.round(margin * Math.max(rotated.width, rotated.height)) : 0;
+    const size = fit === 'pad'
+        ? expandToAspect({ width: rotated.width + space * 2, height: rotated.height + space * 2 }, aspect)
+        : rotated;
+    const photo = {
+        x: Math.round((size.width - rotated.width) / 2),
+        y: Math.round((size.height - rotated.height) / 2),
+        ...rotated,
+    };
+    if (rotation % 360 === 0 && size.width === natural.width && size.height === natural.height) {
+        return { url: src, ...size, photo };
+    }
+    const canvas = drawRotated(image, size, rotation, padColor ?? await getBorderColor(src));
+    return { url: canvas.toDataURL('image/png'), ...size, photo };
+};
+
+/**
+ * The first and last index whose count reaches `minimum`.
+ */
+const findSpan = (counts: number[], minimum: number): { start: number, end: number } | null => {
+    const start = counts.findIndex(count => count >= minimum);
+    if (start < 0) return null;
+    let end = counts.length - 1;
+    while (counts[end] < minimum) end--;
+    return { start, end };
+};
+
+/**
+ * The bounding box of the product pixels, ignoring rows and columns with only a few.
+ */
+const findMaskBounds = ({ width, height, alpha }: CutoutMask): CropRegion | null => {
+    const rowCounts = new Array<number>(height).fill(0);
+    const columnCounts = new Array<number>(width).fill(0);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (alpha[y * width + x] === 0) continue;
+            rowCounts[y]++;
+            columnCounts[x]++;
+        }
+    }
+    const rows = findSpan(rowCounts, Math.max(1, width * MIN_SUBJECT_LINE_SHARE));
+    const columns = findSpan(columnCounts, Math.max(1, height * MIN_SUBJECT_LINE_SHARE));
+    return rows && columns
+        ? { x: columns.start, y: rows.start, width: columns.end - columns.start + 1, height: rows.end - rows.start + 1 }
+        : null;
+};
+
+/**
+ * Finds the product's bounding box in the rotated photo by keying out its backdrop.
+ * Returns null when nothing distinct stands out, e.g. on a busy background.
+ */
+export const findSubjectBounds = async (src: string, rotation: number): Promise<CropRegion | null> => {
+    const image = await loadImage(src);
+    const rotated = getRotatedSize({ width: image.naturalWidth, height: image.naturalHeight }, rotation);
+    const scale = Math.min(1, DETECTION_MAX_SIDE / Math.max(rotated.width, rotated.height));
+    const size = { width: Math.max(1, Math.round(rotated.width * scale)), height: Math.max(1, Math.round(rotated.height * scale)) };
+    // The rotated corners get the backdrop color, so they are keyed out along with it.
+    const canvas = drawRotated(image, size, rotation, await getBorderColor(src), scale);
+    const mask = await keyBackdropMask(canvas.toDataURL('image/png'));
+    const bounds = findMaskBounds(mask);
+    if (!bounds || bounds.width * bounds.height > MAX_SUBJECT_AREA_SHARE * mask.width * mask.height) {
+        return null;
+    }
+    return {
+        x: bounds.x / scale,
+        y: bounds.y / scale,
+        width: bounds.width / scale,
+        height: bounds.height / scale,
+    };
+};
+
+/**
+ * A crop of the aspect ratio centered on `subject`, with `margin` of the subject's longer
+ * side to spare all round. When that does not fit inside `bounds`, the largest crop that
+ * does is used, kept as close to the subject's center as the edges allow.
+ */
+export const frameSubject = (subject: CropRegion, bounds: Dimensions, aspect: number, margin: number): CropRegion => {
+    const space = margin * Math.max(subject.width, subject.height);
+    const framed = expandToAspect({ width: Math.round(subject.width + space * 2), height: Math.round(subject.height + space * 2) }, aspect);
+    const size = framed.width > bounds.width || framed.height > bounds.height ? shrinkToAspect(bounds, aspect) : framed;
+    return {
+        x: clamp(Math.round(subject.x + subject.width / 2 - size.width / 2), 0, bounds.width - size.width),
+        y: clamp(Math.round(subject.y + subject.height / 2 - size.height / 2), 0, bounds.height - size.height),
+        ...size,
+    };
+};
+
+/**
+ * Cuts `region` out of the image at full resolution.
+ */
+export const cropToRegion = async (src: string, region: CropRegion, mimeType: string): Promise<Base64Image> => {
+    const image = await loadImage(src);
+    const { canvas, ctx } = createCanvas(Math.max(1, Math.round(region.width)), Math.max(1, Math.round(region.height)));
+    ctx.drawImage(image, region.x, region.y, region.width, region.height, 0, 0, canvas.width, canvas.height);
+    return canvasToBase64Image(canvas, mimeType);
+};
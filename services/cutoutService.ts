@@ -0,0 +1,226 @@
+import { createCanvas, loadImage } from './imageUtils';
+
+/**
+ * Where the product mask comes from: the image model, or a local key against a plain backdrop.
+ */
+export type CutoutMaskSource = 'ai' | 'backdrop';
+
+export interface CutoutRefinement {
+    /** Edge softness in pixels. */
+    feather: number;
+    /** Pixels to grow the mask by; negative values shrink it. */
+    grow: number;
+    /** Fill gaps fully enclosed by the product, such as a label the segmentation missed. */
+    fillHoles: boolean;
+}
+
+/**
+ * A single-channel mask at the product photo's resolution: 0 is background, 255 product.
+ */
+export interface CutoutMask {
+    width: number;
+    height: number;
+    alpha: Uint8ClampedArray;
+}
+
+export const DEFAULT_CUTOUT_REFINEMENT: CutoutRefinement = {
+    feather: 1,
+    grow: 0,
+    fillHoles: true,
+};
+
+export const MAX_FEATHER_PX = 20;
+export const MAX_GROW_PX = 20;
+
+const BACKDROP_DISTANCE = 40;
+
+const readPixels = (image: HTMLImageElement, width: number, height: number): Uint8ClampedArray => {
+    const { ctx } = createCanvas(width, height);
+    ctx.drawImage(image, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height).data;
+};
+
+/**
+ * Reads a black-and-white mask image as a binary mask, resized to the product photo.
+ */
+export const maskFromImage = async (maskUrl: string, productUrl: string): Promise<CutoutMask> => {
+    const [maskImage, productImage] = await Promise.all([loadImage(maskUrl), loadImage(productUrl)]);
+    const width = productImage.naturalWidth;
+    const height = productImage.naturalHeight;
+    const data = readPixels(maskImage, width, height);
+    const alpha = new Uint8ClampedArray(width * height);
+    for (let i = 0; i < alpha.length; i++) {
+        const luminance = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+        alpha[i] = luminance > 127 ? 255 : 0;
+    }
+    return { width, height, alpha };
+};
+
+/**
+ * Builds a mask by keying out the backdrop: pixels close to the average border color
+ * are background. Works offline, but only for products shot on a plain backdrop.
+ */
+export const keyBackdropMask = async (productUrl: string): Promise<CutoutMask> => {
+    const image = await loadImage(productUrl);
+    const width = image.naturalWidth;
+    const height = image.naturalHeight;
+    const data = readPixels(image, width, height);
+
+    const border = [0, 0, 0];
+    let borderCount = 0;
+    const addBorderPixel = (x: number, y: number) => {
+        const i = (y * width + x) * 4;
+        border[0] += data[i];
+        border[1] += data[i + 1];
+        border[2] += data[i + 2];
+        borderCount++;
+    };
+    for (let x = 0; x < width; x++) {
+        addBorderPixel(x, 0);
+        addBorderPixel(x, height - 1);
+    }
+    for (let y = 1; y < height - 1; y++) {
+        addBorderPixel(0, y);
+        addBorderPixel(width - 1, y);
+    }
+    const [br, bg, bb] = border.map(total => total / borderCount);
+
+    const alpha = new Uint8ClampedArray(width * height);
+    for (let i = 0; i < alpha.length; i++) {
+        const distance = Math.hypot(data[i * 4] - br, data[i * 4 + 1] - bg, data[i * 4 + 2] - bb);
+        alpha[i] = distance < BACKDROP_DISTANCE ? 0 : 255;
+    }
+    return { width, height, alpha };
+};
+
+/**
+ * Marks as product every background pixel that cannot be reached from the image edge.
+ */
+const fillMaskHoles = (alpha: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray => {
+    const outside = new Uint8Array(width * height);
+    const stack: number[] = [];
+    const visit = (index: number) => {
+        if (!outside[index] && alpha[index] < 128) {
+            outside[index] = 1;
+            stack.push(index);
+        }
+    };
+    for (let x = 0; x < width; x++) {
+        visit(x);
+        visit((height - 1) * width + x);
+    }
+    for (let y = 0; y < height; y++) {
+        visit(y * width);
+        visit(y * width + width - 1);
+    }
+    while (stack.length > 0) {
+        const index = stack.pop()!;
+        const x = index % width;
+        if (x > 0) visit(index - 1);
+        if (x < width - 1) visit(index + 1);
+        if (index >= width) visit(index - width);
+        if (index < width * (height - 1)) visit(index + width);
+    }
+    return alpha.map((value, index) => (outside[index] ? value : 255));
+};
+
+/**
+ * Dilates a binary mask by `radius` pixels with a square kernel, using the distance to
+ * the nearest product pixel along each row, then each column, so the cost does not
+ * depend on the radius.
+ */
+const dilateMask = (alpha: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray => {
+    const dilateLine = (source: Uint8ClampedArray, target: Uint8ClampedArray, start: number, step: number, length: number) => {
+        let last = -Infinity;
+        for (let i = 0; i < length; i++) {
+            if (source[start + i * step] >= 128) last = i;
+            target[start + i * step] = i - last <= radius ? 255 : 0;
+        }
+        last = Infinity;
+        for (let i = length - 1; i >= 0; i--) {
+            if (source[start + i * step] >= 128) last = i;
+            if (last - i <= radius) target[start + i * step] = 255;
+        }
+    };
+    const rows = new Uint8ClampedArray(alpha.length);
+    for (let y = 0; y < height; y++) dilateLine(alpha, rows, y * width, 1, width);
+    const result = new Uint8ClampedArray(alpha.length);
+    for (let x = 0; x < width; x++) dilateLine(rows, result, x, width, height);
+    return result;
+};
+
+const invertMask = (alpha: Uint8ClampedArray): Uint8ClampedArray => alpha.map(value => 255 - value);
+
+/**
+ * Softens a mask with two passes of a separable box blur, which approximates a Gaussian.
+ */
+const featherMask = (alpha: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray => {
+    const blurLine = (source: Uint8ClampedArray, target: Uint8ClampedArray, start: number, step: number, length: number) => {
+        const valueAt = (i: number) => source[start + Math.min(length - 1, Math.max(0, i)) * step];
+        let sum = 0;
+        for (let i = -radius; i <= radius; i++) sum += valueAt(i);
+        for (let i = 0; i < length; i++) {
+            target[start + i * step] = sum / (radius * 2 + 1);
+            sum += valueAt(i + radius + 1) - valueAt(i - radius);
+        }
+    };
+    let result = alpha;
+    for (let pass = 0; pass < 2; pass++) {
+        const rows = new Uint8ClampedArray(alpha.length);
+        for (let y = 0; y < height; y++) blurLine(result, rows, y * width, 1, width);
+        const columns = new Uint8ClampedArray(alpha.length);
+        for (let x = 0; x < width; x++) blurLine(rows, columns, x, width, height);
+        result = columns;
+    }
+    return result;
+};
+
+/**
+ * Applies the edge refinement to a raw mask: hole fill, then grow or shrink, then feather.
+ */
+export const refineMask = (mask: CutoutMask, refinement: CutoutRefinement): CutoutMask => {
+    const { width, height } = mask;
+    let { alpha } = mask;
+    if (refinement.fillHoles) {
+        alpha = fillMaskHoles(alpha, width, height);
+    }
+    if (refinement.grow > 0) {
+        alpha = dilateMask(alpha, width, height, refinement.grow);
+    } else if (refinement.grow < 0) {
+        alpha = invertMask(dilateMask(invertMask(alpha), width, height, -refinement.grow));
+    }
+    if (refinement.feather > 0) {
+        alpha = featherMask(alpha, width, height, Math.round(refinement.feather));
+    }
+    return { width, height, alpha };
+};
+
+/**
+ * Cuts the product out of its photo with the refined mask. Returns a transparent PNG data URL
+ * at the photo's resolution.
+ */
+export const renderCutout = async (productUrl: string, mask: CutoutMask, refinement: CutoutRefinement): Promise<string> => {
+    const image = await loadImage(productUrl);
+    const { width, height, alpha } = refineMask(mask, refinement);
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(image, 0, 0, width, height);
+    const pixels = ctx.getImageData(0, 0, width, height);
+    for (let i = 0; i < alpha.length; i++) {
+        pixels.data[i * 4 + 3] = (pixels.data[i * 4 + 3] * alpha[i]) / 255;
+    }
+    ctx.putImageData(pixels, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Places a cut-out on a solid color. The image model reads transparent pixels
+ * unpredictably, so cut-outs are flattened before being used as a product photo.
+ */
+export const flattenCutout = async (cutoutUrl: string, color: string): Promise<string> => {
+    const image = await loadImage(cutoutUrl);
+    const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0);
+    return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,52 @@
+const DB_NAME = 'ai-photo-studio';
+const DB_VERSION = 2;
+
+export const HISTORY_STORE = 'history';
+export const PRESET_STORE = 'presets';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wraps an IDBRequest in a Promise.
+ */
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this browser.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+                    const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+                    store.createIndex('createdAt', 'createdAt');
+                }
+                if (!db.objectStoreNames.contains(PRESET_STORE)) {
+                    db.createObjectStore(PRESET_STORE, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later call to retry if opening failed
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+/**
+ * Opens a transaction on a single object store of the studio database.
+ */
+export const getStore = async (storeName: string, mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+    const db = await openDatabase();
+    return db.transaction(storeName, mode).objectStore(storeName);
+};
@@ -0,0 +1,39 @@
+const EXTENSIONS_BY_MIME_TYPE: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/avif': 'avif',
+    'image/gif': 'gif',
+};
+
+/**
+ * Returns the conventional file extension for an image MIME type.
+ */
+export const getExtensionForMimeType = (mimeType: string): string =>
+    EXTENSIONS_BY_MIME_TYPE[mimeType] ?? mimeType.split('/')[1] ?? 'bin';
+
+/**
+ * Strips the extension from a file name.
+ */
+export const getBaseName = (fileName: string): string => fileName.replace(/\.[^/.]+$/, '');
+
+/**
+ * Triggers a browser download of the given URL.
+ */
+export const triggerDownload = (href: string, fileName: string) => {
+    const link = document.createElement('a');
+    link.href = href;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+};
+
+/**
+ * Triggers a browser download of a Blob, releasing its object URL afterwards.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    triggerDownload(url, fileName);
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
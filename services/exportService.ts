@@ -0,0 +1,126 @@
+import { ExportFormat, ExportMetadata, ExportOptions, StyleSettings } from '../types';
+import { describeAspectRatio } from '../constants';
+import { canvasToBlob, createCanvas, loadImage } from './imageUtils';
+import { getExtensionForMimeType } from './downloadUtils';
+import { embedJpegMetadata, embedPngMetadata } from './imageMetadata';
+
+export const EXPORT_FORMATS: { label: string, value: ExportFormat, isLossy: boolean, supportsMetadata: boolean }[] = [
+    { label: 'PNG', value: 'image/png', isLossy: false, supportsMetadata: true },
+    { label: 'JPEG', value: 'image/jpeg', isLossy: true, supportsMetadata: true },
+    { label: 'WebP', value: 'image/webp', isLossy: true, supportsMetadata: false },
+    { label: 'AVIF', value: 'image/avif', isLossy: true, supportsMetadata: false },
+];
+
+export const EXPORT_WIDTH_OPTIONS: (number | null)[] = [null, 4096, 2048, 1600, 1200, 1080, 800, 600];
+
+export const DEFAULT_FILE_NAME_TEMPLATE = '{sku}-{lighting}-{aspect}-{date}';
+
+export const FILE_NAME_TOKENS = ['sku', 'lighting', 'perspective', 'aspect', 'width', 'height', 'date', 'time'];
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+    format: 'image/png',
+    quality: 0.92,
+    width: null,
+    convertToSrgb: true,
+    embedMetadata: true,
+    fileNameTemplate: DEFAULT_FILE_NAME_TEMPLATE,
+};
+
+export interface ExportResult {
+    blob: Blob;
+    fileName: string;
+    /** Set when the result differs from what was requested, e.g. an unsupported format. */
+    warning: string | null;
+}
+
+/**
+ * Lowercases and replaces anything outside [a-z0-9] with single dashes.
+ */
+const slugify = (value: string): string =>
+    value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+/**
+ * Expands `{token}` placeholders in a file name template. Unknown tokens are left as-is.
+ */
+export const renderFileNameTemplate = (
+    template: string,
+    context: { sku: string, settings: StyleSettings, width: number, height: number, date?: Date }
+): string => {
+    const date = context.date ?? new Date();
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const values: Record<string, string> = {
+        sku: slugify(context.sku) || 'product',
+        lighting: slugify(context.settings.lightingStyle),
+        perspective: slugify(context.settings.cameraPerspective),
+        aspect: slugify(describeAspectRatio({ ...context.settings, outputSize: null }).replace(':', 'x')),
+        width: String(context.width),
+        height: String(context.height),
+        date: `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`,
+        time: `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`,
+    };
+    const name = template.replace(/\{(\w+)\}/g, (match, token: string) => values[token] ?? match);
+    return name.replace(/[\\/:*?"<>|]+/g, '-').trim() || 'ai-photo-studio-result';
+};
+
+/**
+ * Re-encodes an image (data URL) for download: resizes it, converts the color space,
+ * encodes it in the chosen format and optionally embeds generation metadata. The
+ * file extension always follows the format the browser actually produced.
+ */
+export const exportImage = async (
+    src: string,
+    options: ExportOptions,
+    metadata: ExportMetadata
+): Promise<ExportResult> => {
+    const image = await loadImage(src);
+    const scale = options.width ? options.width / image.naturalWidth : 1;
+    const width = Math.round(image.naturalWidth * scale);
+    const height = Math.round(image.naturalHeight * scale);
+
+    const { canvas, ctx } = createCanvas(width, height, options.convertToSrgb ? 'srgb' : 'display-p3');
+    if (options.format === 'image/jpeg') {
+        // JPEG has no alpha channel; flatten onto white instead of black
+        ctx.fillStyle = '#fff';
+        ctx.fillRect(0, 0, width, height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, 0, 0, width, height);
+
+    let blob = await canvasToBlob(canvas, options.format, options.quality);
+    let warning: string | null = null;
+    if (blob.type !== options.format) {
+        const requested = EXPORT_FORMATS.find(format => format.value === options.format)?.label ?? options.format;
+        warning = `This browser cannot encode ${requested}; the image was saved as ${getExtensionForMimeType(blob.type).toUpperCase()} instead.`;
+    }
+
+    if (options.embedMetadata && (blob.type === 'image/png' || blob.type === 'image/jpeg')) {
+        const bytes = new Uint8Array(await blob.arrayBuffer());
+        const withMetadata = blob.type === 'image/png' ? embedPngMetadata(bytes, metadata) : embedJpegMetadata(bytes, metadata);
+        blob = new Blob([withMetadata], { type: blob.type });
+    }
+
+    const baseName = renderFileNameTemplate(options.fileNameTemplate, { sku: metadata.sku, settings: metadata.settings, width, height });
+    return { blob, fileName: `${baseName}.${getExtensionForMimeType(blob.type)}`, warning };
+};
+
+const EXPORT_OPTIONS_STORAGE_KEY = 'ai-photo-studio:export-options';
+
+/**
+ * Returns the export options used last time, falling back to the defaults.
+ */
+export const loadExportOptions = (): ExportOptions => {
+    try {
+        const stored = localStorage.getItem(EXPORT_OPTIONS_STORAGE_KEY);
+        return stored ? { ...DEFAULT_EXPORT_OPTIONS, ...JSON.parse(stored) } : DEFAULT_EXPORT_OPTIONS;
+    } catch {
+        return DEFAULT_EXPORT_OPTIONS;
+    }
+};
+
+export const saveExportOptions = (options: ExportOptions) => {
+    try {
+        localStorage.setItem(EXPORT_OPTIONS_STORAGE_KEY, JSON.stringify(options));
+    } catch (error) {
+        console.warn('Could not save export options:', error);
+    }
+};
@@ -0,0 +1,216 @@
+import { FidelityReport } from '../types';
+import { createCanvas, loadImage } from './imageUtils';
+import { VisionFidelityResult } from './providers';
+
+export interface FidelitySettings {
+    enabled: boolean;
+    /** Results scoring below this (0–1) are flagged. */
+    threshold: number;
+    /** Regenerate flagged results once, keeping the retry as a new version if it scores higher. */
+    autoRetry: boolean;
+}
+
+export const DEFAULT_FIDELITY_SETTINGS: FidelitySettings = {
+    enabled: true,
+    threshold: 0.75,
+    autoRetry: false,
+};
+
+const FIDELITY_SETTINGS_STORAGE_KEY = 'ai-photo-studio:fidelity-settings';
+
+/** Relative weight of the vision model versus the local pixel comparisons. */
+const VISION_WEIGHT = 0.6;
+const SAMPLE_EDGE = 128;
+const HASH_WIDTH = 17;
+const HASH_HEIGHT = 16;
+const HISTOGRAM_BINS = 4;
+const FOREGROUND_DISTANCE = 40;
+
+interface Region {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface LocalFidelityScores {
+    perceptualScore: number;
+    histogramScore: number;
+}
+
+const CENTER_REGION: Region = { x: 0.2, y: 0.2, width: 0.6, height: 0.6 };
+
+/**
+ * Finds the product in a product photo as the bounding box of pixels that differ
+ * from the average border color, in 0–1 coordinates. Falls back to the central area
+ * when the photo has no clear backdrop.
+ */
+const findProductRegion = (image: HTMLImageElement): Region => {
+    const scale = SAMPLE_EDGE / Math.max(image.naturalWidth, image.naturalHeight);
+    const width = Math.max(1, Math.round(image.naturalWidth * scale));
+    const height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const { ctx } = createCanvas(width, height);
+    ctx.drawImage(image, 0, 0, width, height);
+    const { data } = ctx.getImageData(0, 0, width, height);
+
+    const border = [0, 0, 0];
+    let borderCount = 0;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (x !== 0 && y !== 0 && x !== width - 1 && y !== height - 1) continue;
+            const i = (y * width + x) * 4;
+            border[0] += data[i];
+            border[1] += data[i + 1];
+            border[2] += data[i + 2];
+            borderCount++;
+        }
+    }
+    const [br, bg, bb] = border.map(total => total / borderCount);
+
+    let minX = width, minY = height, maxX = -1, maxY = -1, foreground = 0;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            if (Math.hypot(data[i] - br, data[i + 1] - bg, data[i + 2] - bb) < FOREGROUND_DISTANCE) continue;
+            foreground++;
+            minX = Math.min(minX, x);
+            minY = Math.min(minY, y);
+            maxX = Math.max(maxX, x);
+            maxY = Math.max(maxY, y);
+        }
+    }
+
+    const coverage = foreground / (width * height);
+    if (coverage < 0.02 || coverage > 0.95) return CENTER_REGION;
+    const pad = 0.04;
+    const x = Math.max(0, minX / width - pad);
+    const y = Math.max(0, minY / height - pad);
+    return {
+        x,
+        y,
+        width: Math.min(1, (maxX + 1) / width + pad) - x,
+        height: Math.min(1, (maxY + 1) / height + pad) - y,
+    };
+};
+
+/**
+ * Reads a region (0–1 coordinates) of an image, resampled to the given size.
+ */
+const readRegion = (image: HTMLImageElement, region: Region, width: number, height: number): Uint8ClampedArray => {
+    const { ctx } = createCanvas(width, height);
+    ctx.drawImage(
+        image,
+        region.x * image.naturalWidth,
+        region.y * image.naturalHeight,
+        region.width * image.naturalWidth,
+        region.height * image.naturalHeight,
+        0,
+        0,
+        width,
+        height
+    );
+    return ctx.getImageData(0, 0, width, height).data;
+};
+
+/**
+ * Difference hash: one bit per horizontally adjacent pair of grayscale pixels.
+ */
+const differenceHash = (image: HTMLImageElement, region: Region): boolean[] => {
+    const data = readRegion(image, region, HASH_WIDTH, HASH_HEIGHT);
+    const gray = (x: number, y: number) => {
+        const i = (y * HASH_WIDTH + x) * 4;
+        return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+    };
+    const bits: boolean[] = [];
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+        for (let x = 0; x < HASH_WIDTH - 1; x++) {
+            bits.push(gray(x, y) < gray(x + 1, y));
+        }
+    }
+    return bits;
+};
+
+/**
+ * Normalized joint RGB histogram of a region.
+ */
+const colorHistogram = (image: HTMLImageElement, region: Region): Float32Array => {
+    const data = readRegion(image, region, 64, 64);
+    const histogram = new Float32Array(HISTOGRAM_BINS ** 3);
+    const binSize = 256 / HISTOGRAM_BINS;
+    for (let i = 0; i < data.length; i += 4) {
+        const r = Math.floor(data[i] / binSize);
+        const g = Math.floor(data[i + 1] / binSize);
+        const b = Math.floor(data[i + 2] / binSize);
+        histogram[(r * HISTOGRAM_BINS + g) * HISTOGRAM_BINS + b]++;
+    }
+    const total = data.length / 4;
+    return histogram.map(count => count / total);
+};
+
+/**
+ * Compares the product region of the original photo with the same region of the
+ * result. The image model keeps the product's placement when editing, so the region
+ * found in the original is reused for the result.
+ */
+export const compareProductRegions = async (originalUrl: string, resultUrl: string): Promise<LocalFidelityScores> => {
+    const [original, result] = await Promise.all([loadImage(originalUrl), loadImage(resultUrl)]);
+    const region = findProductRegion(original);
+
+    const originalHash = differenceHash(original, region);
+    const resultHash = differenceHash(result, region);
+    const matchingBits = originalHash.filter((bit, index) => bit === resultHash[index]).length;
+    // Unrelated images still agree on about half the bits, so rescale 0.5–1 to 0–1.
+    const perceptualScore = Math.max(0, (matchingBits / originalHash.length - 0.5) * 2);
+
+    const originalHistogram = colorHistogram(original, region);
+    const resultHistogram = colorHistogram(result, region);
+    let histogramScore = 0;
+    for (let i = 0; i < originalHistogram.length; i++) {
+        histogramScore += Math.min(originalHistogram[i], resultHistogram[i]);
+    }
+
+    return { perceptualScore, histogramScore };
+};
+
+/**
+ * Combines the vision and local scores into a report and flags it against the threshold.
+ */
+export const buildFidelityReport = (
+    vision: VisionFidelityResult | null,
+    local: LocalFidelityScores,
+    threshold: number
+): FidelityReport => {
+    const localScore = (local.perceptualScore + local.histogramScore) / 2;
+    const score = vision ? vision.score * VISION_WEIGHT + localScore * (1 - VISION_WEIGHT) : localScore;
+    const hasMajorDifference = vision?.differences.some(difference => difference.severity === 'major') ?? false;
+    return {
+        score,
+        visionScore: vision?.score ?? null,
+        perceptualScore: local.perceptualScore,
+        histogramScore: local.histogramScore,
+        differences: vision?.differences ?? [],
+        threshold,
+        isFlagged: score < threshold || hasMajorDifference,
+        checkedAt: Date.now(),
+    };
+};
+
+/**
+ * Returns the fidelity settings used last time, falling back to the defaults.
+ */
+export const loadFidelitySettings = (): FidelitySettings => {
+    try {
+        const stored = localStorage.getItem(FIDELITY_SETTINGS_STORAGE_KEY);
+        return stored ? { ...DEFAULT_FIDELITY_SETTINGS, ...JSON.parse(stored) } : DEFAULT_FIDELITY_SETTINGS;
+    } catch {
+        return DEFAULT_FIDELITY_SETTINGS;
+    }
+};
+
+export const saveFidelitySettings = (settings: FidelitySettings) => {
+    try {
+        localStorage.setItem(FIDELITY_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.warn('Could not save fidelity settings:', error);
+    }
+};
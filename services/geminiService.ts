@@ -1,38 +1,14 @@
-import { GoogleGenAI, Modality, Part, Type } from "@google/genai";
-import { StyleSettings } from '../types';
-
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable is not set.");
-}
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-const promptGenerationModel = 'gemini-2.5-flash';
-const imageEditingModel = 'gemini-2.5-flash-image-preview';
-
-/**
- * Parses errors from the Gemini API and returns a more user-friendly message.
- * @param error The error object caught from the API call.
- * @param context A string describing the operation that failed (e.g., "prompt generation").
- * @returns A new Error object with a user-friendly message.
- */
-const handleGeminiError = (error: unknown, context: string): Error => {
-    console.error(`Error during ${context}:`, error);
-    if (error instanceof Error) {
-        const message = error.message.toLowerCase();
-        if (message.includes('api key not valid')) {
-            return new Error('Invalid API Key. Please check if the API key is configured correctly.');
-        }
-        if (message.includes('rate limit')) {
-            return new Error('You have exceeded your API request limit. Please wait and try again later.');
-        }
-        // Keep specific, actionable errors
-        if (message.includes("did not return an image")) {
-            return error;
-        }
-    }
-    return new Error(`An unexpected error occurred during ${context}. Please check the console for details.`);
-};
-
+import { Base64Image, BrandKit, CompositeLayout, CompositeSource, FidelityReport, StyleReference, StyleSettings } from '../types';
+import { getImageProvider, ImageEditResult } from './providers';
+import { runWithConcurrency } from './concurrency';
+import { compositeWithMask, createBlankImage, dataUrlToBase64Image, loadImage, toDataUrl } from './imageUtils';
+import { buildBackgroundPrompt, buildFidelityRetryPrompt, buildInpaintingPrompt, buildRefinementPrompt } from './promptTemplates';
+import { buildConstraintsSection, setPromptSection } from './promptSections';
+import { isAbortError, throwIfAborted } from './abortUtils';
+import { withRetry } from './retryUtils';
+import { buildFidelityReport, compareProductRegions } from './fidelityService';
+import { CutoutMask, CutoutMaskSource, DEFAULT_CUTOUT_REFINEMENT, keyBackdropMask, maskFromImage, renderCutout } from './cutoutService';
+import { compositeProduct, DEFAULT_COMPOSITE_LAYOUT } from './compositeService';
 
 /**
  * Converts a File object to a base64 encoded string.
@@ -51,115 +27,220 @@ export const fileToBase64 = (file: File): Promise<{ base64: string, mimeType: st
 };
 
 /**
- * Generates a descriptive prompt for image editing based on style settings.
+ * Per-attempt limits. Image requests routinely take tens of seconds, so they get longer.
+ */
+const PROMPT_TIMEOUT_MS = 60000;
+const IMAGE_TIMEOUT_MS = 120000;
+
+/**
+ * Describes the active image-generation backend and the models it uses.
+ */
+export const getProviderInfo = () => {
+    const { id, label, promptModel, imageModel } = getImageProvider();
+    return { id, label, promptModel, imageModel };
+};
+
+/**
+ * Generates a descriptive prompt for image editing based on style settings, the style
+ * reference board and the brand kit, if any. The result is split into labeled `### Section` blocks, ending with the
+ * scene's "Do Not" list. Transient failures are retried; pass a signal to cancel a
+ * request that has been superseded.
  */
 export const generateDescriptivePrompt = async (
     settings: StyleSettings,
-    styleImage: { base64: string, mimeType: string } | null
+    styleReferences: StyleReference[],
+    brandKit: BrandKit | null,
+    signal?: AbortSignal
 ): Promise<string> => {
-    const { aspectRatio, lightingStyle, cameraPerspective } = settings;
+    const prompt = await withRetry(
+        attemptSignal => getImageProvider().generateDescriptivePrompt(settings, styleReferences, brandKit, attemptSignal),
+        { signal, timeoutMs: PROMPT_TIMEOUT_MS }
+    );
+    throwIfAborted(signal);
+    return setPromptSection(prompt, 'constraints', buildConstraintsSection(settings.scene));
+};
 
-    const textPrompt = `You are an expert creative director for a high-end product photography studio using an advanced AI editor. Your mission is to craft a detailed, evocative, and highly specific prompt to transform a given product photo.
+/**
+ * Edits a product image using the configured provider based on a prompt and optional style
+ * references, returning the image with any commentary the model wrote. Transient failures
+ * are retried with backoff; `signal` cancels the request.
+ */
+export const editProductImage = async (
+    productImage: Base64Image,
+    prompt: string,
+    styleReferences: StyleReference[],
+    signal?: AbortSignal
+): Promise<ImageEditResult> => {
+    return withRetry(
+        attemptSignal => getImageProvider().editProductImage(productImage, prompt, styleReferences, attemptSignal),
+        { signal, timeoutMs: IMAGE_TIMEOUT_MS }
+    );
+};
 
-The final image must be a professional-grade product shot. The product should be the clear hero of the image, perfectly integrated into a compelling scene.
+/**
+ * Maximum number of variation requests sent to the provider at once.
+ */
+const VARIATION_CONCURRENCY = 2;
 
-**User-defined Parameters:**
-- **Aspect Ratio:** ${aspectRatio} (The final composition must adhere to this.)
-- **Lighting Style:** ${lightingStyle}
-- **Camera Perspective:** ${cameraPerspective}
+/**
+ * Appends a nudge to every variation after the first so each request explores a
+ * different take on the same brief instead of repeating it.
+ */
+const buildVariationPrompt = (prompt: string, index: number, count: number): string =>
+    index === 0
+        ? prompt
+        : `${prompt}\n\nVariation ${index + 1} of ${count}: explore a distinct composition and camera placement while keeping the product itself unchanged.`;
 
-**Your Task:**
-Synthesize these parameters into a single, masterful prompt. Describe the scene, lighting, and camera work with rich, sensory language.
+/**
+ * Generates several variations of the same product shot. Resolves with every image
+ * that succeeded, in request order, and only rejects if all of them failed or the
+ * run was cancelled through `signal`.
+ */
+export const generateVariations = async (
+    productImage: Base64Image,
+    prompt: string,
+    styleReferences: StyleReference[],
+    count: number,
+    signal?: AbortSignal
+): Promise<ImageEditResult[]> => {
+    const results: (ImageEditResult | null)[] = new Array(count).fill(null);
+    let firstError: unknown = null;
+
+    await runWithConcurrency(results, VARIATION_CONCURRENCY, async (_, index) => {
+        try {
+            results[index] = await editProductImage(productImage, buildVariationPrompt(prompt, index, count), styleReferences, signal);
+        } catch (error) {
+            if (isAbortError(error)) return;
+            console.error(`Variation ${index + 1} of ${count} failed:`, error);
+            firstError ??= error;
+        }
+    });
 
-*Example:* For "Studio Lighting," instead of a generic phrase, describe it as: "A professional studio shot with a large, diffused key light creating soft, flattering highlights, minimal shadows filled in with ambient bounce light, and a subtle rim light to define the product's edges against a clean, seamless background."
+    throwIfAborted(signal);
+    const succeeded = results.filter((result): result is ImageEditResult => result !== null);
+    if (succeeded.length === 0) {
+        throw firstError;
+    }
+    return succeeded;
+};
 
-${styleImage ? `
-**Style Reference Analysis:**
-A style reference image has been provided. Your prompt MUST incorporate its aesthetic.
-1.  **Analyze the Essence:** Deconstruct the reference image's core visual elements: color palette (dominant and accent colors), textures (e.g., grainy, smooth, metallic, organic), composition, and overall mood (e.g., minimalist and clean, rustic and warm, futuristic and edgy).
-2.  **Translate the Context:** Imagine a new scene inspired by the reference image that would perfectly showcase the user's product. Describe this environment. For instance, if the reference is a sun-drenched beach, the prompt might describe the product resting on weathered driftwood with soft, natural morning light.
-3.  **Integrate and Enhance:** Weave the analyzed style elements and the new context seamlessly with the user-defined parameters. The user's choices for lighting and perspective are the primary guide, but they should be interpreted through the lens of the reference image's style.
-` : ''}
+/**
+ * Applies a follow-up instruction to a previously generated image (a data URL)
+ * and returns the refined image with the model's commentary.
+ */
+export const refineImage = async (currentImage: string, instruction: string, signal?: AbortSignal): Promise<ImageEditResult> => {
+    return editProductImage(dataUrlToBase64Image(currentImage), buildRefinementPrompt(instruction), [], signal);
+};
 
-**Final Output Requirement:**
-Generate ONLY the final, complete prompt text. Do not include any titles, preambles, or explanations. The output must be ready to be fed directly into the image generation model.`;
+/**
+ * Edits only the masked region of an image. The model's output is composited back
+ * over the original so every pixel outside the mask stays exactly as it was.
+ */
+export const inpaintImage = async (
+    image: Base64Image,
+    mask: Base64Image,
+    instruction: string,
+    signal?: AbortSignal
+): Promise<string> => {
+    const edited = await withRetry(
+        attemptSignal => getImageProvider().inpaintImage(image, mask, buildInpaintingPrompt(instruction), attemptSignal),
+        { signal, timeoutMs: IMAGE_TIMEOUT_MS }
+    );
+    return compositeWithMask(toDataUrl(image), edited, mask);
+};
 
-    const parts: Part[] = [{ text: textPrompt }];
-    if (styleImage) {
-        parts.push({
-            inlineData: {
-                data: styleImage.base64,
-                mimeType: styleImage.mimeType,
-            }
-        });
+/**
+ * Builds the raw mask for a cut-out, either from the image model's segmentation or by
+ * keying out a plain backdrop locally. Refine it with `refineMask` before use.
+ */
+export const createProductMask = async (productImage: Base64Image, source: CutoutMaskSource, signal?: AbortSignal): Promise<CutoutMask> => {
+    const productUrl = toDataUrl(productImage);
+    if (source === 'backdrop') {
+        return keyBackdropMask(productUrl);
     }
+    const maskUrl = await withRetry(
+        attemptSignal => getImageProvider().segmentProduct(productImage, attemptSignal),
+        { signal, timeoutMs: IMAGE_TIMEOUT_MS }
+    );
+    return maskFromImage(maskUrl, productUrl);
+};
 
-    try {
-        const response = await ai.models.generateContent({
-            model: promptGenerationModel,
-            contents: { parts: parts },
-        });
+/**
+ * Cuts the product out with the model's mask and the default edge refinement, for
+ * composites made without a hand-tuned cut-out. Returns a transparent PNG data URL.
+ */
+export const createProductCutout = async (productImage: Base64Image, signal?: AbortSignal): Promise<string> => {
+    const mask = await createProductMask(productImage, 'ai', signal);
+    return renderCutout(toDataUrl(productImage), mask, DEFAULT_CUTOUT_REFINEMENT);
+};
 
-        if (!response.text) {
-            throw new Error("The model returned an empty prompt.");
-        }
+/**
+ * Neutral fill for the blank canvas that sets a background's frame.
+ */
+const BACKGROUND_CANVAS_COLOR = '#808080';
 
-        return response.text.trim();
-    } catch (error) {
-        throw handleGeminiError(error, "prompt generation");
-    }
+/**
+ * The compositing alternative to `generateVariations`: the model paints only the scene,
+ * then the product cut-out is placed on each background locally, so the product's
+ * pixels are never redrawn. Resolves with every composite that succeeded, together with
+ * what it was built from so its layout can be changed later.
+ */
+export const generateComposites = async (
+    productImage: Base64Image,
+    cutoutUrl: string,
+    prompt: string,
+    styleReferences: StyleReference[],
+    count: number,
+    signal?: AbortSignal,
+    layout: CompositeLayout = DEFAULT_COMPOSITE_LAYOUT
+): Promise<{ imageUrl: string, composite: CompositeSource }[]> => {
+    const { naturalWidth, naturalHeight } = await loadImage(toDataUrl(productImage));
+    const canvas = await createBlankImage(naturalWidth, naturalHeight, BACKGROUND_CANVAS_COLOR);
+    const backgrounds = await generateVariations(canvas, buildBackgroundPrompt(prompt), styleReferences, count, signal);
+    return Promise.all(backgrounds.map(async ({ imageUrl: backgroundUrl }) => ({
+        imageUrl: await compositeProduct(backgroundUrl, cutoutUrl, layout),
+        composite: { backgroundUrl, cutoutUrl, layout },
+    })));
 };
 
 /**
- * Edits a product image using Gemini based on a prompt and optional style reference.
+ * Checks how faithfully a result reproduces the product: a vision-model pass listing
+ * text, logo, color and geometry differences, plus a local perceptual and color
+ * comparison of the product region. If the vision pass fails, the local scores alone
+ * decide.
  */
-export const editProductImage = async (
-    productImage: { base64: string, mimeType: string },
+export const checkProductFidelity = async (
+    productImage: Base64Image,
+    resultImage: string,
+    threshold: number,
+    signal?: AbortSignal
+): Promise<FidelityReport> => {
+    const [vision, local] = await Promise.all([
+        withRetry(
+            attemptSignal => getImageProvider().compareProductFidelity(productImage, dataUrlToBase64Image(resultImage), attemptSignal),
+            { signal, retries: 1, timeoutMs: PROMPT_TIMEOUT_MS }
+        )
+            .catch(error => {
+                if (isAbortError(error)) throw error;
+                console.warn('Vision fidelity check failed; using local comparison only:', error);
+                return null;
+            }),
+        compareProductRegions(toDataUrl(productImage), resultImage),
+    ]);
+    throwIfAborted(signal);
+    return buildFidelityReport(vision, local, threshold);
+};
+
+/**
+ * Regenerates a result that failed the fidelity check, telling the model what it changed.
+ */
+export const retryForFidelity = async (
+    productImage: Base64Image,
     prompt: string,
-    styleImage: { base64: string, mimeType: string } | null
+    styleReferences: StyleReference[],
+    report: FidelityReport,
+    signal?: AbortSignal
 ): Promise<string> => {
-
-    const parts: Part[] = [
-        {
-            inlineData: {
-                data: productImage.base64,
-                mimeType: productImage.mimeType,
-            }
-        },
-        { text: prompt },
-    ];
-
-    if (styleImage) {
-        parts.push({
-            inlineData: {
-                data: styleImage.base64,
-                mimeType: styleImage.mimeType,
-            }
-        });
-    }
-
-    try {
-        const response = await ai.models.generateContent({
-            model: imageEditingModel,
-            contents: { parts },
-            config: {
-                responseModalities: [Modality.IMAGE, Modality.TEXT],
-            },
-        });
-        
-        // Find the first image part in the response
-        if (response.candidates && response.candidates.length > 0) {
-            for (const part of response.candidates[0].content.parts) {
-                if (part.inlineData && part.inlineData.mimeType.startsWith('image/')) {
-                    const base64ImageBytes = part.inlineData.data;
-                    const imageUrl = `data:${part.inlineData.mimeType};base64,${base64ImageBytes}`;
-                    return imageUrl;
-                }
-            }
-        }
-
-        throw new Error("The AI model did not return an image. Try adjusting your prompt or using a different image.");
-    } catch (error) {
-        throw handleGeminiError(error, "image generation");
-    }
-};
\ No newline at end of file
+    const result = await editProductImage(productImage, buildFidelityRetryPrompt(prompt, report.differences), styleReferences, signal);
+    return result.imageUrl;
+};
@@ -0,0 +1,130 @@
+import { GenerationDiagnostics } from '../types';
+import { getErrorDiagnostics, SafetyBlockError } from './studioErrors';
+
+/**
+ * Why an image request produced nothing, in plain words, and what to change before
+ * sending it again.
+ */
+export interface GenerationFailureAdvice {
+    diagnostics: GenerationDiagnostics;
+    /** Readable names of the blocked harm categories. */
+    categories: string[];
+    explanation: string;
+    /** Words in the prompt that commonly trip the blocked categories. */
+    flaggedTerms: string[];
+    suggestions: string[];
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+    HARM_CATEGORY_HARASSMENT: 'Harassment',
+    HARM_CATEGORY_HATE_SPEECH: 'Hate speech',
+    HARM_CATEGORY_SEXUALLY_EXPLICIT: 'Sexually explicit',
+    HARM_CATEGORY_DANGEROUS_CONTENT: 'Dangerous content',
+    HARM_CATEGORY_CIVIC_INTEGRITY: 'Civic integrity',
+    HARM_CATEGORY_IMAGE_HARASSMENT: 'Harassment (image)',
+    HARM_CATEGORY_IMAGE_HATE: 'Hate (image)',
+    HARM_CATEGORY_IMAGE_SEXUALLY_EXPLICIT: 'Sexually explicit (image)',
+    HARM_CATEGORY_IMAGE_DANGEROUS_CONTENT: 'Dangerous content (image)',
+};
+
+/**
+ * Product-photography wording that filters tend to read as each category. Image
+ * categories share the list of their text counterpart.
+ */
+const SEXUAL_TERMS = [
+    'sexy', 'sensual', 'seductive', 'provocative', 'erotic', 'intimate', 'nude', 'naked',
+    'bare skin', 'lingerie', 'underwear', 'bikini', 'lust', 'steamy',
+];
+const DANGEROUS_TERMS = [
+    'gun', 'rifle', 'pistol', 'bullet', 'ammo', 'ammunition', 'weapon', 'knife', 'blade',
+    'explosive', 'explosion', 'bomb', 'grenade', 'blood', 'bloody', 'gore', 'drug', 'pills',
+    'syringe', 'cigarette', 'vape', 'flame', 'burning',
+];
+const HARASSMENT_TERMS = ['mock', 'humiliate', 'ugly', 'stupid', 'attack'];
+const HATE_TERMS = ['extremist', 'supremacy', 'slur'];
+
+const CATEGORY_TERMS: Record<string, string[]> = {
+    HARM_CATEGORY_SEXUALLY_EXPLICIT: SEXUAL_TERMS,
+    HARM_CATEGORY_IMAGE_SEXUALLY_EXPLICIT: SEXUAL_TERMS,
+    HARM_CATEGORY_DANGEROUS_CONTENT: DANGEROUS_TERMS,
+    HARM_CATEGORY_IMAGE_DANGEROUS_CONTENT: DANGEROUS_TERMS,
+    HARM_CATEGORY_HARASSMENT: HARASSMENT_TERMS,
+    HARM_CATEGORY_IMAGE_HARASSMENT: HARASSMENT_TERMS,
+    HARM_CATEGORY_HATE_SPEECH: HATE_TERMS,
+    HARM_CATEGORY_IMAGE_HATE: HATE_TERMS,
+    HARM_CATEGORY_CIVIC_INTEGRITY: ['election', 'ballot', 'vote', 'candidate', 'campaign', 'politician'],
+};
+
+const REASON_EXPLANATIONS: Record<string, string> = {
+    SAFETY: 'The safety filters stopped the model partway through the request.',
+    IMAGE_SAFETY: 'The model produced an image, but it was withheld by the image safety filter.',
+    PROHIBITED_CONTENT: 'The request was judged to involve prohibited content.',
+    BLOCKLIST: 'The prompt contains a term on the service\'s blocklist.',
+    SPII: 'The output appeared to contain sensitive personal information.',
+    OTHER: 'The request was rejected for an unspecified reason.',
+    RECITATION: 'The output resembled existing material too closely and was withheld.',
+    MAX_TOKENS: 'The model ran out of output space before it finished the image.',
+};
+
+export const describeHarmCategory = (category: string): string =>
+    CATEGORY_LABELS[category]
+        ?? category.replace(/^HARM_CATEGORY_/, '').toLowerCase().replace(/_/g, ' ').replace(/^\w/, letter => letter.toUpperCase());
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Lists the terms from the blocked categories that appear in the prompt as whole words,
+ * in the order they appear. Without any blocked categories every list is searched.
+ */
+export const findFlaggedTerms = (prompt: string, categories: string[]): string[] => {
+    const lists = categories.length > 0 ? categories.map(category => CATEGORY_TERMS[category] ?? []) : Object.values(CATEGORY_TERMS);
+    const terms = [...new Set(lists.flat())];
+    return terms
+        .map(term => ({ term, index: prompt.search(new RegExp(`\\b${escapeRegExp(term)}\\b`, 'i')) }))
+        .filter(match => match.index >= 0)
+        .sort((a, b) => a.index - b.index)
+        .map(match => match.term);
+};
+
+/**
+ * Explains a failed image request from the diagnostics carried by its error. Returns
+ * null for failures the model did not comment on, such as network errors.
+ * @param prompt The wording sent to the model, searched for terms likely to have
+ * triggered a block.
+ */
+export const adviseOnFailure = (error: unknown, prompt: string): GenerationFailureAdvice | null => {
+    const diagnostics = getErrorDiagnostics(error);
+    if (!diagnostics) return null;
+
+    const categories = diagnostics.blockedCategories.map(describeHarmCategory);
+    const suggestions: string[] = [];
+    let flaggedTerms: string[] = [];
+    let explanation: string;
+
+    if (error instanceof SafetyBlockError) {
+        flaggedTerms = findFlaggedTerms(prompt, diagnostics.blockedCategories);
+        explanation = diagnostics.blockReason
+            ? 'The prompt was rejected before any image was generated.'
+            : REASON_EXPLANATIONS[error.reason] ?? `The request was blocked (${error.reason}).`;
+        if (flaggedTerms.length > 0) {
+            suggestions.push(`Reword or remove ${flaggedTerms.map(term => `"${term}"`).join(', ')}; these words often trip the ${categories.length > 0 ? categories.join(' and ').toLowerCase() : 'safety'} filter.`);
+        }
+        suggestions.push('Describe the product and scene in neutral catalogue terms: materials, surfaces, lighting and camera.');
+        if (diagnostics.blockReason) {
+            suggestions.push('Check the Scene Details, props and brand guidelines too, since they are all part of the prompt.');
+        } else {
+            suggestions.push('If the product photo shows people, skin or packaging with graphic imagery, crop to the product alone or try a different photo.');
+        }
+    } else {
+        explanation = diagnostics.modelText
+            ? 'The model replied in text instead of drawing the image. Its reply usually says what it needs.'
+            : REASON_EXPLANATIONS[diagnostics.finishReason ?? ''] ?? 'The model finished without returning an image.';
+        suggestions.push('Try again; the image model occasionally answers in text only.');
+        suggestions.push('Simplify the prompt and remove instructions that contradict each other or the product photo.');
+        if (diagnostics.modelText) {
+            suggestions.push('If the reply asks a question or mentions a problem with the photo, address it in the prompt.');
+        }
+    }
+
+    return { diagnostics, categories, explanation, flaggedTerms, suggestions };
+};
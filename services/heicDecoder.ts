@@ -0,0 +1,52 @@
+import { DecodedImage } from './tiffDecoder';
+
+interface HeifImage {
+    get_width(): number;
+    get_height(): number;
+    is_primary(): boolean;
+    display(target: DecodedImage, callback: (result: DecodedImage | null) => void): void;
+    free(): void;
+}
+
+interface Libheif {
+    HeifDecoder: new () => { decode(bytes: Uint8Array): HeifImage[] };
+}
+
+let libheifPromise: Promise<Libheif> | null = null;
+
+/**
+ * Loads libheif on first use; with its WebAssembly inlined it is about 2 MB, which only
+ * HEIC uploads should pay for.
+ */
+const loadLibheif = (): Promise<Libheif> => {
+    if (!libheifPromise) {
+        libheifPromise = import('libheif-js/libheif-wasm/libheif-bundle.mjs').then(({ default: createLibheif }) => createLibheif() as Libheif);
+        // Allow a later upload to retry if loading failed
+        libheifPromise.catch(() => { libheifPromise = null; });
+    }
+    return libheifPromise;
+};
+
+/**
+ * Decodes the primary image of a HEIC or HEIF file with a bundled libheif, since only
+ * Safari can open these itself. libheif applies the file's rotation and mirroring, so
+ * the pixels come out upright.
+ */
+export const decodeHeic = async (bytes: Uint8Array): Promise<DecodedImage> => {
+    const libheif = await loadLibheif();
+    const images = new libheif.HeifDecoder().decode(bytes);
+    try {
+        const image = images.find(candidate => candidate.is_primary()) ?? images[0];
+        if (!image) {
+            throw new Error('The HEIC file has no image in it.');
+        }
+        const width = image.get_width();
+        const height = image.get_height();
+        const target: DecodedImage = { width, height, data: new Uint8ClampedArray(width * height * 4) };
+        return await new Promise<DecodedImage>((resolve, reject) => {
+            image.display(target, result => (result ? resolve(target) : reject(new Error('The HEIC image could not be decoded.'))));
+        });
+    } finally {
+        images.forEach(image => image.free());
+    }
+};
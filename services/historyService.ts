@@ -0,0 +1,57 @@
+import { Base64Image, HistoryEntry, HistoryResultRef, OverlayLayer } from '../types';
+import { getStore, HISTORY_STORE, promisifyRequest } from './database';
+import { fromLegacyStyleImage } from './styleReferenceService';
+
+const getHistoryStore = (mode: IDBTransactionMode) => getStore(HISTORY_STORE, mode);
+
+/**
+ * Entries saved before the style reference board held a single optional style image.
+ */
+type LegacyHistoryEntry = Omit<HistoryEntry, 'styleReferences'> & { styleReferenceImage: Base64Image | null };
+
+const upgradeHistoryEntry = (entry: HistoryEntry | LegacyHistoryEntry): HistoryEntry => {
+    if (!('styleReferenceImage' in entry)) return entry;
+    const { styleReferenceImage, ...rest } = entry;
+    return { ...rest, styleReferences: fromLegacyStyleImage(styleReferenceImage) };
+};
+
+export const createHistoryEntryId = (): string => `history-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Saves (or overwrites) a generation in the local history.
+ */
+export const saveHistoryEntry = async (entry: HistoryEntry): Promise<void> => {
+    const store = await getHistoryStore('readwrite');
+    await promisifyRequest(store.put(entry));
+};
+
+/**
+ * Lists every saved generation, newest first.
+ */
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+    const store = await getHistoryStore('readonly');
+    const entries = await promisifyRequest(store.index('createdAt').getAll() as IDBRequest<(HistoryEntry | LegacyHistoryEntry)[]>);
+    return entries.map(upgradeHistoryEntry).reverse();
+};
+
+/**
+ * Stores the overlay layers of one saved result with its entry, so they survive a reload.
+ */
+export const saveHistoryResultOverlays = async ({ entryId, index }: HistoryResultRef, overlays: OverlayLayer[]): Promise<void> => {
+    const store = await getHistoryStore('readwrite');
+    const entry = await promisifyRequest(store.get(entryId) as IDBRequest<HistoryEntry | LegacyHistoryEntry | undefined>);
+    // The entry may have been deleted from the history panel since.
+    if (!entry) return;
+    const resultOverlays = entry.resultImages.map((_, i) => (i === index ? overlays : entry.resultOverlays?.[i] ?? []));
+    await promisifyRequest(store.put({ ...entry, resultOverlays }));
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+    const store = await getHistoryStore('readwrite');
+    await promisifyRequest(store.delete(id));
+};
+
+export const clearHistory = async (): Promise<void> => {
+    const store = await getHistoryStore('readwrite');
+    await promisifyRequest(store.clear());
+};
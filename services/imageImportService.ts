@@ -0,0 +1,122 @@
+import { getClientId } from './apiKeyStorage';
+import { isAbortError } from './abortUtils';
+import { isSupportedInputFile } from './inputImageService';
+import { getStudioProxyUrl } from './providers';
+import { CLIENT_ID_HEADER } from './providers/geminiTransport';
+
+const EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'image/heic': 'heic',
+    'image/heif': 'heif',
+    'image/avif': 'avif',
+    'image/tiff': 'tif',
+};
+
+/**
+ * Checks an address typed or pasted by the user, returning an error message if it cannot
+ * be imported.
+ */
+export const validateImageUrl = (value: string): string | null => {
+    try {
+        const { protocol } = new URL(value.trim());
+        return protocol === 'http:' || protocol === 'https:' ? null : 'Enter an address starting with http:// or https://.';
+    } catch {
+        return 'Enter a full image address, such as https://example.com/photo.jpg.';
+    }
+};
+
+/**
+ * Names the file after the last part of the address, adding an extension for the
+ * image type when it has none, so it reads well in upload messages and as the SKU.
+ */
+const getFileName = (url: URL, mimeType: string): string => {
+    let name = '';
+    try {
+        name = decodeURIComponent(url.pathname.split('/').pop() ?? '');
+    } catch {
+        name = url.pathname.split('/').pop() ?? '';
+    }
+    name = name || url.hostname || 'imported-image';
+    const extension = EXTENSIONS[mimeType];
+    return extension && !/\.\w{2,5}$/.test(name) ? `${name}.${extension}` : name;
+};
+
+const toFile = async (response: Response, url: URL): Promise<File> => {
+    const mimeType = (response.headers.get('Content-Type') ?? '').split(';')[0].trim().toLowerCase();
+    return new File([await response.blob()], getFileName(url, mimeType), { type: mimeType });
+};
+
+/**
+ * Reads the proxy's error, which has the same shape as Gemini's.
+ */
+const readProxyError = async (response: Response): Promise<string> => {
+    try {
+        const { error } = await response.json();
+        if (typeof error?.message === 'string') return error.message;
+    } catch {
+        // Not the proxy answering, e.g. the dev server with the proxy stopped.
+    }
+    return 'The studio proxy, which imports images from other sites, is not running. Start it with npm run proxy.';
+};
+
+/**
+ * Downloads an image from a web address as a `File`, for the same checks as an upload.
+ * Most sites do not let the browser read their images, so when the direct request fails
+ * the studio proxy fetches it instead.
+ */
+export const fetchImageFromUrl = async (value: string, signal?: AbortSignal): Promise<File> => {
+    const validationError = validateImageUrl(value);
+    if (validationError) {
+        throw new Error(validationError);
+    }
+    const url = new URL(value.trim());
+    try {
+        const response = await fetch(url.href, { signal });
+        if (response.ok) {
+            return await toFile(response, url);
+        }
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        // Blocked by the site's cross-origin policy; try the proxy.
+    }
+
+    let response: Response;
+    try {
+        response = await fetch(`${getStudioProxyUrl()}/fetch-image?url=${encodeURIComponent(url.href)}`, {
+            headers: { [CLIENT_ID_HEADER]: getClientId() },
+            signal,
+        });
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        throw new Error('The image could not be downloaded, and the studio proxy that imports images from other sites could not be reached.');
+    }
+    if (!response.ok) {
+        throw new Error(await readProxyError(response));
+    }
+    return toFile(response, url);
+};
+
+/**
+ * The first web address in dropped or pasted text: a link or image dragged from another
+ * page, or a copied address.
+ */
+export const getTransferUrl = (data: DataTransfer): string | null => {
+    const uriList = data.getData('text/uri-list');
+    const fromList = uriList.split(/\r?\n/).map(line => line.trim()).find(line => line && !line.startsWith('#'));
+    const candidate = fromList || data.getData('text/plain').trim();
+    return candidate && !validateImageUrl(candidate) ? candidate : null;
+};
+
+/**
+ * Images on the clipboard, e.g. a copied screenshot. Other files are left alone, so
+ * pasting text or documents elsewhere on the page behaves as usual.
+ */
+export const getClipboardImageFiles = (data: DataTransfer | null): File[] =>
+    Array.from(data?.files ?? []).filter(file => file.type.startsWith('image/') || isSupportedInputFile(file));
+
+/**
+ * Whether a drag carries files, as opposed to text or a link.
+ */
+export const hasTransferFiles = (data: DataTransfer | null): boolean => Boolean(data?.types.includes('Files'));
@@ -0,0 +1,107 @@
+import { ExportMetadata } from '../types';
+import { describeAspectRatio } from '../constants';
+import { createPngChunk } from './pngEncoder';
+
+const XMP_PNG_KEYWORD = 'XML:com.adobe.xmp';
+const XMP_JPEG_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const MAX_JPEG_SEGMENT_LENGTH = 0xffff - 2;
+
+const escapeXml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Flattens the export metadata into simple key/value pairs.
+ */
+export const getMetadataFields = (metadata: ExportMetadata): Record<string, string> => ({
+    Software: 'AI Photo Studio',
+    Title: metadata.sku,
+    Description: metadata.prompt,
+    Model: metadata.model,
+    AspectRatio: describeAspectRatio(metadata.settings),
+    Lighting: metadata.settings.lightingStyle,
+    Perspective: metadata.settings.cameraPerspective,
+});
+
+/**
+ * Builds an XMP packet describing the generation.
+ */
+export const buildXmpPacket = (metadata: ExportMetadata): string => {
+    const { settings } = metadata;
+    return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:aps="https://ai-photo-studio.app/ns/1.0/"
+    xmp:CreatorTool="AI Photo Studio"
+    aps:Model="${escapeXml(metadata.model)}"
+    aps:AspectRatio="${escapeXml(describeAspectRatio(settings))}"
+    aps:Lighting="${escapeXml(settings.lightingStyle)}"
+    aps:Perspective="${escapeXml(settings.cameraPerspective)}">
+   <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.sku)}</rdf:li></rdf:Alt></dc:title>
+   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.prompt)}</rdf:li></rdf:Alt></dc:description>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+};
+
+/**
+ * Builds an uncompressed iTXt chunk, which (unlike tEXt) allows UTF-8 text.
+ */
+const createItxtChunk = (keyword: string, text: string): Uint8Array => {
+    const encoder = new TextEncoder();
+    const keywordBytes = encoder.encode(keyword);
+    const textBytes = encoder.encode(text);
+    // keyword \0, compression flag, compression method, empty language tag \0, empty translated keyword \0
+    const data = new Uint8Array(keywordBytes.length + 5 + textBytes.length);
+    data.set(keywordBytes, 0);
+    data.set(textBytes, keywordBytes.length + 5);
+    return createPngChunk('iTXt', data);
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+    const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+};
+
+/**
+ * Inserts text chunks and an XMP packet into a PNG, directly after the IHDR chunk.
+ */
+export const embedPngMetadata = (png: Uint8Array, metadata: ExportMetadata): Uint8Array => {
+    const ihdrLength = new DataView(png.buffer, png.byteOffset).getUint32(8);
+    const insertAt = 8 + 12 + ihdrLength;
+    const chunks = Object.entries(getMetadataFields(metadata)).map(([key, value]) => createItxtChunk(key, value));
+    chunks.push(createItxtChunk(XMP_PNG_KEYWORD, buildXmpPacket(metadata)));
+    return concatBytes([png.subarray(0, insertAt), ...chunks, png.subarray(insertAt)]);
+};
+
+/**
+ * Inserts an XMP APP1 segment into a JPEG, after the SOI marker and any JFIF APP0 segment.
+ */
+export const embedJpegMetadata = (jpeg: Uint8Array, metadata: ExportMetadata): Uint8Array => {
+    const encoder = new TextEncoder();
+    let payload = encoder.encode(XMP_JPEG_HEADER + buildXmpPacket(metadata));
+    if (payload.length > MAX_JPEG_SEGMENT_LENGTH) {
+        // Drop the (long) prompt rather than write an invalid segment
+        payload = encoder.encode(XMP_JPEG_HEADER + buildXmpPacket({ ...metadata, prompt: '' }));
+    }
+
+    const segment = new Uint8Array(4 + payload.length);
+    segment[0] = 0xff;
+    segment[1] = 0xe1;
+    new DataView(segment.buffer).setUint16(2, payload.length + 2);
+    segment.set(payload, 4);
+
+    let insertAt = 2;
+    if (jpeg[2] === 0xff && jpeg[3] === 0xe0) {
+        insertAt = 4 + new DataView(jpeg.buffer, jpeg.byteOffset).getUint16(4);
+    }
+    return concatBytes([jpeg.subarray(0, insertAt), segment, jpeg.subarray(insertAt)]);
+};
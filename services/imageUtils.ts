@@ -0,0 +1,254 @@
+import { Base64Image, Dimensions } from '../types';
+
+/**
+ * Builds a data URL from a base64 encoded image.
+ */
+export const toDataUrl = (image: Base64Image): string => `data:${image.mimeType};base64,${image.base64}`;
+
+/**
+ * Splits a data URL into its base64 payload and MIME type.
+ */
+export const dataUrlToBase64Image = (dataUrl: string): Base64Image => {
+    const [header, base64] = dataUrl.split(',');
+    const mimeType = header.substring(header.indexOf(':') + 1, header.indexOf(';'));
+    return { base64, mimeType };
+};
+
+/**
+ * Loads an image source (data URL or object URL) into an HTMLImageElement.
+ */
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Failed to load image'));
+        image.src = src;
+    });
+};
+
+/**
+ * Creates a canvas of the given size along with its 2D context. A canvas has only one
+ * context, so its color space has to be chosen here.
+ */
+export const createCanvas = (
+    width: number,
+    height: number,
+    colorSpace: PredefinedColorSpace = 'srgb'
+): { canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D } => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { colorSpace });
+    if (!ctx) {
+        throw new Error('Could not get canvas context');
+    }
+    return { canvas, ctx };
+};
+
+/**
+ * Creates a solid-color PNG of the given size.
+ */
+export const createBlankImage = (width: number, height: number, color: string): Promise<Base64Image> => {
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, width, height);
+    return canvasToBase64Image(canvas, 'image/png');
+};
+
+/**
+ * Encodes the contents of a canvas as a Blob of the given MIME type.
+ */
+export const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality = 1): Promise<Blob> => {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(
+            (blob) => (blob ? resolve(blob) : reject(new Error('Canvas is empty'))),
+            mimeType,
+            quality
+        );
+    });
+};
+
+/**
+ * Encodes the contents of a canvas as a base64 image of the given MIME type.
+ */
+export const canvasToBase64Image = (
+    canvas: HTMLCanvasElement,
+    mimeType: string,
+    quality = 1
+): Promise<Base64Image> => {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(
+            (blob) => {
+                if (!blob) {
+                    reject(new Error('Canvas is empty'));
+                    return;
+                }
+                const reader = new FileReader();
+                reader.readAsDataURL(blob);
+                reader.onloadend = () => {
+                    if (reader.result) {
+                        resolve(dataUrlToBase64Image(reader.result as string));
+                    } else {
+                        reject(new Error('Failed to read blob as data URL'));
+                    }
+                };
+                reader.onerror = (error) => reject(error);
+            },
+            mimeType,
+            quality
+        );
+    });
+};
+
+/**
+ * Center-crops an image to the given aspect ratio (width / height) at full resolution.
+ */
+export const cropImageToAspect = async (image: Base64Image, aspect: number): Promise<Base64Image> => {
+    const img = await loadImage(toDataUrl(image));
+    const { naturalWidth, naturalHeight } = img;
+
+    let cropWidth = naturalWidth;
+    let cropHeight = Math.round(naturalWidth / aspect);
+    if (cropHeight > naturalHeight) {
+        cropHeight = naturalHeight;
+        cropWidth = Math.round(naturalHeight * aspect);
+    }
+
+    const { canvas, ctx } = createCanvas(cropWidth, cropHeight);
+
+    ctx.drawImage(
+        img,
+        (naturalWidth - cropWidth) / 2,
+        (naturalHeight - cropHeight) / 2,
+        cropWidth,
+        cropHeight,
+        0,
+        0,
+        cropWidth,
+        cropHeight
+    );
+
+    return canvasToBase64Image(canvas, image.mimeType);
+};
+
+/**
+ * Reads the pixels of an image, scaled to the given size.
+ */
+const getPixels = (image: HTMLImageElement, width: number, height: number): ImageData => {
+    const { ctx } = createCanvas(width, height);
+    ctx.drawImage(image, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+};
+
+/**
+ * Takes pixels from `edited` where the mask is white and from `original` everywhere
+ * else, so the unmasked area is reproduced pixel-for-pixel. Returns a PNG data URL
+ * at the original's resolution.
+ */
+export const compositeWithMask = async (original: string, edited: string, mask: Base64Image): Promise<string> => {
+    const [originalImg, editedImg, maskImg] = await Promise.all([
+        loadImage(original),
+        loadImage(edited),
+        loadImage(toDataUrl(mask)),
+    ]);
+    const width = originalImg.naturalWidth;
+    const height = originalImg.naturalHeight;
+
+    const output = getPixels(originalImg, width, height);
+    const editedPixels = getPixels(editedImg, width, height).data;
+    const maskPixels = getPixels(maskImg, width, height).data;
+
+    for (let i = 0; i < output.data.length; i += 4) {
+        if (maskPixels[i] > 127) {
+            output.data[i] = editedPixels[i];
+            output.data[i + 1] = editedPixels[i + 1];
+            output.data[i + 2] = editedPixels[i + 2];
+            output.data[i + 3] = editedPixels[i + 3];
+        }
+    }
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.putImageData(output, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Samples the colors along the image's outer edge on a small grid.
+ */
+const getBorderPixels = (image: HTMLImageElement): [number, number, number][] => {
+    const sampleSize = 32;
+    const { data } = getPixels(image, sampleSize, sampleSize);
+    const pixels: [number, number, number][] = [];
+    for (let y = 0; y < sampleSize; y++) {
+        for (let x = 0; x < sampleSize; x++) {
+            if (x !== 0 && y !== 0 && x !== sampleSize - 1 && y !== sampleSize - 1) continue;
+            const i = (y * sampleSize + x) * 4;
+            pixels.push([data[i], data[i + 1], data[i + 2]]);
+        }
+    }
+    return pixels;
+};
+
+const averageBorderPixels = (image: HTMLImageElement): number[] => {
+    const pixels = getBorderPixels(image);
+    return pixels
+        .reduce((sum, pixel) => [sum[0] + pixel[0], sum[1] + pixel[1], sum[2] + pixel[2]], [0, 0, 0])
+        .map(total => Math.round(total / pixels.length));
+};
+
+/**
+ * Averages the colors along the image's outer edge, a good neutral fill for padding.
+ */
+const getAverageBorderColor = (image: HTMLImageElement): string => {
+    const [r, g, b] = averageBorderPixels(image);
+    return `rgb(${r}, ${g}, ${b})`;
+};
+
+/**
+ * The average color along the image's outer edge as a `#rrggbb` hex string, for color inputs.
+ */
+export const getBorderColor = async (src: string): Promise<string> => {
+    const channels = averageBorderPixels(await loadImage(src));
+    return `#${channels.map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+};
+
+/**
+ * Returns the fraction (0–1) of edge pixels that are pure white or very close to it.
+ */
+export const getWhiteBorderRatio = async (src: string): Promise<number> => {
+    const pixels = getBorderPixels(await loadImage(src));
+    const whiteCount = pixels.filter(([r, g, b]) => r >= 250 && g >= 250 && b >= 250).length;
+    return whiteCount / pixels.length;
+};
+
+/**
+ * Resizes an image to exact pixel dimensions. Near-matching ratios are filled edge to
+ * edge; otherwise the image is fitted inside and padded with `padColor`, or its own
+ * border color if none is given. Returns a data URL in the source image's format.
+ */
+export const fitImageToSize = async (src: string, size: Dimensions, padColor?: string): Promise<string> => {
+    const image = await loadImage(src);
+    const { naturalWidth, naturalHeight } = image;
+    if (naturalWidth === size.width && naturalHeight === size.height) {
+        return src;
+    }
+
+    const aspectDelta = Math.abs((naturalWidth / naturalHeight) / (size.width / size.height) - 1);
+    const shouldPad = aspectDelta >= 0.01;
+    const scale = shouldPad
+        ? Math.min(size.width / naturalWidth, size.height / naturalHeight)
+        : Math.max(size.width / naturalWidth, size.height / naturalHeight);
+
+    const { canvas, ctx } = createCanvas(size.width, size.height);
+    if (shouldPad) {
+        ctx.fillStyle = padColor ?? getAverageBorderColor(image);
+        ctx.fillRect(0, 0, size.width, size.height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    const drawWidth = naturalWidth * scale;
+    const drawHeight = naturalHeight * scale;
+    ctx.drawImage(image, (size.width - drawWidth) / 2, (size.height - drawHeight) / 2, drawWidth, drawHeight);
+
+    const { mimeType } = dataUrlToBase64Image(src);
+    return canvas.toDataURL(mimeType, 0.95);
+};
@@ -0,0 +1,180 @@
+import { Base64Image, Dimensions } from '../types';
+import { bytesToBase64 } from './binaryUtils';
+import { canvasToBase64Image, createCanvas, loadImage } from './imageUtils';
+import { detectImageFormat, FORMAT_LABELS, FORMAT_MIME_TYPES, InputImageFormat, readImageMetadata, stripJpegMetadata } from './inputMetadata';
+import { decodeHeic } from './heicDecoder';
+import { decodeTiff } from './tiffDecoder';
+
+export interface InputImageSettings {
+    /** Longest side, in pixels, an uploaded photo is scaled down to; null keeps full size. */
+    maxEdge: number | null;
+}
+
+export const DEFAULT_INPUT_IMAGE_SETTINGS: InputImageSettings = {
+    maxEdge: 2048,
+};
+
+/** Options for a select; the empty value keeps full size. */
+export const MAX_EDGE_OPTIONS: { label: string, value: string }[] = [
+    { label: '1024 px', value: '1024' },
+    { label: '1536 px', value: '1536' },
+    { label: '2048 px', value: '2048' },
+    { label: '3072 px', value: '3072' },
+    { label: '4096 px', value: '4096' },
+    { label: 'Full size', value: '' },
+];
+
+/** For the file picker. Some browsers report HEIC photos with no type, so extensions are listed too. */
+export const INPUT_FILE_ACCEPT = 'image/png, image/jpeg, image/webp, image/heic, image/heif, image/avif, image/tiff, .heic, .heif, .avif, .tif, .tiff';
+export const INPUT_FORMATS_LABEL = 'PNG, JPG, WEBP, HEIC, AVIF, TIFF';
+
+/** Phone photos and scans are large before downscaling, so the upload limit is generous. */
+export const MAX_INPUT_FILE_SIZE_MB = 40;
+
+const INPUT_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif', 'image/avif', 'image/tiff'];
+const INPUT_EXTENSIONS = /\.(jpe?g|png|webp|heic|heif|avif|tiff?)$/i;
+const INPUT_IMAGE_SETTINGS_STORAGE_KEY = 'ai-photo-studio:input-image-settings';
+/** Formats the model does not take, converted to JPEG, or PNG when they have transparency. */
+const CONVERTED_FORMATS: InputImageFormat[] = ['heic', 'avif', 'tiff'];
+const ENCODE_QUALITY = 0.92;
+
+export interface PreparedInputImage {
+    image: Base64Image;
+    /** What was changed on the way in, for telling the user; empty when the file was used as-is. */
+    changes: string[];
+}
+
+/**
+ * Whether the file looks like an image the studio can read, by its MIME type or, when the
+ * browser gives none, its extension. The contents are checked when it is prepared.
+ */
+export const isSupportedInputFile = (file: File): boolean =>
+    INPUT_MIME_TYPES.includes(file.type) || INPUT_EXTENSIONS.test(file.name);
+
+export const loadInputImageSettings = (): InputImageSettings => {
+    try {
+        const stored = localStorage.getItem(INPUT_IMAGE_SETTINGS_STORAGE_KEY);
+        return stored ? { ...DEFAULT_INPUT_IMAGE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_INPUT_IMAGE_SETTINGS;
+    } catch {
+        return DEFAULT_INPUT_IMAGE_SETTINGS;
+    }
+};
+
+export const saveInputImageSettings = (settings: InputImageSettings) => {
+    try {
+        localStorage.setItem(INPUT_IMAGE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.warn('Could not save upload settings:', error);
+    }
+};
+
+/**
+ * The canvas transform for each EXIF orientation, in the unrotated image's pixels.
+ * Orientations 5 to 8 swap width and height.
+ */
+const getOrientationTransform = (orientation: number, { width, height }: Dimensions): [number, number, number, number, number, number] => {
+    switch (orientation) {
+        case 2: return [-1, 0, 0, 1, width, 0];
+        case 3: return [-1, 0, 0, -1, width, height];
+        case 4: return [1, 0, 0, -1, 0, height];
+        case 5: return [0, 1, 1, 0, 0, 0];
+        case 6: return [0, 1, -1, 0, height, 0];
+        case 7: return [0, -1, -1, 0, height, width];
+        case 8: return [0, -1, 1, 0, 0, width];
+        default: return [1, 0, 0, 1, 0, 0];
+    }
+};
+
+/**
+ * Decodes the file into something a canvas can draw. Browsers turn JPEGs upright
+ * themselves; TIFFs are decoded here, so their orientation is returned for the caller to apply.
+ * HEIC is decoded here too, as only Safari can open it, and comes out upright.
+ */
+const decodeInput = async (
+    bytes: Uint8Array,
+    format: InputImageFormat
+): Promise<{ source: CanvasImageSource, size: Dimensions, orientation: number }> => {
+    if (format === 'tiff') {
+        const { image, orientation } = await decodeTiff(bytes);
+        const { canvas, ctx } = createCanvas(image.width, image.height);
+        ctx.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+        return { source: canvas, size: { width: image.width, height: image.height }, orientation };
+    }
+    if (format === 'heic') {
+        const image = await decodeHeic(bytes);
+        const { canvas, ctx } = createCanvas(image.width, image.height);
+        ctx.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+        return { source: canvas, size: { width: image.width, height: image.height }, orientation: 1 };
+    }
+    const url = URL.createObjectURL(new Blob([bytes], { type: FORMAT_MIME_TYPES[format] }));
+    try {
+        const image = await loadImage(url);
+        return { source: image, size: { width: image.naturalWidth, height: image.naturalHeight }, orientation: 1 };
+    } catch {
+        throw new Error(`This browser cannot open ${FORMAT_LABELS[format]} images. Please convert it to JPEG or PNG.`);
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+const hasTransparency = (canvas: HTMLCanvasElement): boolean => {
+    const { data } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] < 255) return true;
+    }
+    return false;
+};
+
+/**
+ * Gets an uploaded photo ready for the model: turns it upright, converts formats the
+ * model does not take, scales it down to the configured size and drops location data.
+ * Files that need none of this are passed through byte for byte.
+ */
+export const prepareInputImage = async (file: File, settings: InputImageSettings): Promise<PreparedInputImage> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const format = detectImageFormat(bytes);
+    if (!format) {
+        throw new Error('The file is not a supported image. Please upload a JPEG, PNG, WebP, HEIC, AVIF or TIFF file.');
+    }
+    const { orientation: exifOrientation, hasLocation } = readImageMetadata(bytes, format);
+    const { source, size: decodedSize, orientation } = await decodeInput(bytes, format);
+    const isSwapped = orientation >= 5;
+    const uprightSize = isSwapped ? { width: decodedSize.height, height: decodedSize.width } : decodedSize;
+    const longestEdge = Math.max(uprightSize.width, uprightSize.height);
+    const scale = settings.maxEdge && longestEdge > settings.maxEdge ? settings.maxEdge / longestEdge : 1;
+    const isConverted = CONVERTED_FORMATS.includes(format);
+    // The browser applies a JPEG's orientation when decoding; the original bytes would still be sideways.
+    const isRotated = exifOrientation !== 1 && (format === 'jpeg' || format === 'tiff');
+
+    const changes: string[] = [];
+    if (!isConverted && !isRotated && scale === 1) {
+        if (!hasLocation) {
+            return { image: { base64: bytesToBase64(bytes), mimeType: FORMAT_MIME_TYPES[format] }, changes };
+        }
+        if (format === 'jpeg') {
+            return { image: { base64: bytesToBase64(stripJpegMetadata(bytes)), mimeType: 'image/jpeg' }, changes: ['Removed location data'] };
+        }
+    }
+
+    const outputSize = { width: Math.round(uprightSize.width * scale), height: Math.round(uprightSize.height * scale) };
+    const { canvas, ctx } = createCanvas(Math.max(1, outputSize.width), Math.max(1, outputSize.height));
+    ctx.imageSmoothingQuality = 'high';
+    ctx.scale(scale, scale);
+    ctx.transform(...getOrientationTransform(orientation, decodedSize));
+    ctx.drawImage(source, 0, 0, decodedSize.width, decodedSize.height);
+
+    const mimeType = isConverted ? (hasTransparency(canvas) ? 'image/png' : 'image/jpeg') : FORMAT_MIME_TYPES[format];
+    if (isRotated) {
+        changes.push('Turned upright to match how the camera was held');
+    }
+    if (isConverted) {
+        changes.push(`Converted from ${FORMAT_LABELS[format]} to ${mimeType === 'image/png' ? 'PNG' : 'JPEG'}`);
+    }
+    if (scale < 1) {
+        changes.push(`Scaled down from ${uprightSize.width} × ${uprightSize.height} to ${outputSize.width} × ${outputSize.height} px`);
+    }
+    if (hasLocation) {
+        changes.push('Removed location data');
+    }
+    return { image: await canvasToBase64Image(canvas, mimeType, ENCODE_QUALITY), changes };
+};
@@ -0,0 +1,201 @@
+import { PNG_SIGNATURE } from './pngEncoder';
+import { createTiffReader, readTiffValue, TIFF_TAGS, TiffReader } from './tiffReader';
+
+export type InputImageFormat = 'jpeg' | 'png' | 'webp' | 'heic' | 'avif' | 'tiff';
+
+export const FORMAT_MIME_TYPES: Record<InputImageFormat, string> = {
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    webp: 'image/webp',
+    heic: 'image/heic',
+    avif: 'image/avif',
+    tiff: 'image/tiff',
+};
+
+export const FORMAT_LABELS: Record<InputImageFormat, string> = {
+    jpeg: 'JPEG',
+    png: 'PNG',
+    webp: 'WebP',
+    heic: 'HEIC',
+    avif: 'AVIF',
+    tiff: 'TIFF',
+};
+
+export interface ImageMetadata {
+    /** The EXIF orientation, 1 to 8; 1 means the pixels are already upright. */
+    orientation: number;
+    /** Whether the file records where it was taken. */
+    hasLocation: boolean;
+}
+
+const NO_METADATA: ImageMetadata = { orientation: 1, hasLocation: false };
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_JPEG_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_PNG_KEYWORD = 'XML:com.adobe.xmp';
+const XMP_LOCATION_PATTERN = /exif:GPS(Latitude|Longitude)/;
+const AVIF_BRANDS = ['avif', 'avis'];
+const HEIF_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'heif', 'mif1', 'msf1'];
+
+const JPEG_APP1 = 0xe1;
+const JPEG_START_OF_SCAN = 0xda;
+const JPEG_END_OF_IMAGE = 0xd9;
+
+const readAscii = (bytes: Uint8Array, start: number, length: number): string =>
+    String.fromCharCode(...bytes.subarray(start, start + length));
+
+const readLatin1 = (bytes: Uint8Array, start: number, end: number): string =>
+    new TextDecoder('latin1').decode(bytes.subarray(start, end));
+
+/**
+ * Identifies an image by its leading bytes, which unlike the file's MIME type cannot be
+ * missing or wrong; browsers often report HEIC photos with no type at all.
+ */
+export const detectImageFormat = (bytes: Uint8Array): InputImageFormat | null => {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+    if (PNG_SIGNATURE.every((value, i) => bytes[i] === value)) return 'png';
+    if (readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP') return 'webp';
+    if (readAscii(bytes, 0, 4) === 'II*\0' || readAscii(bytes, 0, 4) === 'MM\0*') return 'tiff';
+    if (readAscii(bytes, 4, 4) === 'ftyp') {
+        const boxSize = Math.min(new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(0), bytes.length);
+        // The major brand, then the compatible brands after the minor version.
+        const brands = [readAscii(bytes, 8, 4)];
+        for (let at = 16; at + 4 <= boxSize; at += 4) brands.push(readAscii(bytes, at, 4));
+        if (brands.some(brand => AVIF_BRANDS.includes(brand))) return 'avif';
+        if (brands.some(brand => HEIF_BRANDS.includes(brand))) return 'heic';
+    }
+    return null;
+};
+
+const readExif = (reader: TiffReader | null): ImageMetadata => {
+    if (!reader) return NO_METADATA;
+    const ifd0 = reader.readIfd(reader.firstIfdOffset);
+    const orientation = readTiffValue(reader, ifd0, TIFF_TAGS.orientation, 1);
+    const gpsOffset = readTiffValue(reader, ifd0, TIFF_TAGS.gpsIfd, 0);
+    const gps = reader.readIfd(gpsOffset);
+    return {
+        orientation: orientation >= 1 && orientation <= 8 ? orientation : 1,
+        hasLocation: gps.has(TIFF_TAGS.gpsLatitude) || gps.has(TIFF_TAGS.gpsLongitude),
+    };
+};
+
+const mergeMetadata = (a: ImageMetadata, b: ImageMetadata): ImageMetadata => ({
+    orientation: a.orientation !== 1 ? a.orientation : b.orientation,
+    hasLocation: a.hasLocation || b.hasLocation,
+});
+
+/**
+ * Calls `visit` with the marker and data range of each JPEG segment before the image data.
+ */
+const forEachJpegSegment = (bytes: Uint8Array, visit: (marker: number, start: number, end: number) => void) => {
+    let at = 2;
+    while (at + 4 <= bytes.length && bytes[at] === 0xff) {
+        const marker = bytes[at + 1];
+        if (marker === JPEG_START_OF_SCAN || marker === JPEG_END_OF_IMAGE) break;
+        const length = (bytes[at + 2] << 8) | bytes[at + 3];
+        visit(marker, at + 4, Math.min(at + 2 + length, bytes.length));
+        at += 2 + length;
+    }
+};
+
+const readJpegMetadata = (bytes: Uint8Array): ImageMetadata => {
+    let metadata = NO_METADATA;
+    forEachJpegSegment(bytes, (marker, start, end) => {
+        if (marker !== JPEG_APP1) return;
+        if (readAscii(bytes, start, EXIF_HEADER.length) === EXIF_HEADER) {
+            metadata = mergeMetadata(metadata, readExif(createTiffReader(bytes.subarray(0, end), start + EXIF_HEADER.length)));
+        } else if (readAscii(bytes, start, XMP_JPEG_HEADER.length) === XMP_JPEG_HEADER) {
+            metadata = mergeMetadata(metadata, { orientation: 1, hasLocation: XMP_LOCATION_PATTERN.test(readLatin1(bytes, start, end)) });
+        }
+    });
+    return metadata;
+};
+
+const readPngMetadata = (bytes: Uint8Array): ImageMetadata => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let metadata = NO_METADATA;
+    for (let at = PNG_SIGNATURE.length; at + 8 <= bytes.length;) {
+        const length = view.getUint32(at);
+        const type = readAscii(bytes, at + 4, 4);
+        const start = at + 8;
+        const end = Math.min(start + length, bytes.length);
+        if (type === 'eXIf') {
+            metadata = mergeMetadata(metadata, readExif(createTiffReader(bytes.subarray(0, end), start)));
+        } else if (type === 'iTXt' && readAscii(bytes, start, XMP_PNG_KEYWORD.length) === XMP_PNG_KEYWORD) {
+            metadata = mergeMetadata(metadata, { orientation: 1, hasLocation: XMP_LOCATION_PATTERN.test(readLatin1(bytes, start, end)) });
+        } else if (type === 'IEND') {
+            break;
+        }
+        at = end + 4;
+    }
+    return metadata;
+};
+
+const readWebpMetadata = (bytes: Uint8Array): ImageMetadata => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let metadata = NO_METADATA;
+    for (let at = 12; at + 8 <= bytes.length;) {
+        const type = readAscii(bytes, at, 4);
+        const length = view.getUint32(at + 4, true);
+        const start = at + 8;
+        const end = Math.min(start + length, bytes.length);
+        if (type === 'EXIF') {
+            // Some writers keep the JPEG-style header in front of the TIFF data.
+            const tiffStart = readAscii(bytes, start, EXIF_HEADER.length) === EXIF_HEADER ? start + EXIF_HEADER.length : start;
+            metadata = mergeMetadata(metadata, readExif(createTiffReader(bytes.subarray(0, end), tiffStart)));
+        } else if (type === 'XMP ') {
+            metadata = mergeMetadata(metadata, { orientation: 1, hasLocation: XMP_LOCATION_PATTERN.test(readLatin1(bytes, start, end)) });
+        }
+        // Chunks are padded to an even length.
+        at = end + (length % 2);
+    }
+    return metadata;
+};
+
+/**
+ * Finds location data in a HEIF container by its EXIF block. The orientation is left
+ * alone: HEIF stores it in the container, and browsers apply that themselves.
+ */
+const readHeifMetadata = (bytes: Uint8Array): ImageMetadata => {
+    const header = new TextEncoder().encode(EXIF_HEADER);
+    for (let at = 0; at + header.length < bytes.length; at++) {
+        if (bytes[at] !== header[0] || !header.every((value, i) => bytes[at + i] === value)) continue;
+        const reader = createTiffReader(bytes, at + header.length);
+        if (reader) return { orientation: 1, hasLocation: readExif(reader).hasLocation };
+    }
+    return NO_METADATA;
+};
+
+/**
+ * Reads the orientation and whether location data is present from an image's metadata.
+ */
+export const readImageMetadata = (bytes: Uint8Array, format: InputImageFormat): ImageMetadata => {
+    switch (format) {
+        case 'jpeg': return readJpegMetadata(bytes);
+        case 'png': return readPngMetadata(bytes);
+        case 'webp': return readWebpMetadata(bytes);
+        case 'tiff': return readExif(createTiffReader(bytes));
+        case 'heic':
+        case 'avif': return readHeifMetadata(bytes);
+    }
+};
+
+/**
+ * Removes the EXIF and XMP segments from a JPEG without re-encoding it, dropping the
+ * location and camera details along with them.
+ */
+export const stripJpegMetadata = (bytes: Uint8Array): Uint8Array => {
+    const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+    let end = 2;
+    forEachJpegSegment(bytes, (marker, start, segmentEnd) => {
+        if (marker !== JPEG_APP1) kept.push(bytes.subarray(start - 4, segmentEnd));
+        end = segmentEnd;
+    });
+    kept.push(bytes.subarray(end));
+    const output = new Uint8Array(kept.reduce((total, part) => total + part.length, 0));
+    kept.reduce((offset, part) => {
+        output.set(part, offset);
+        return offset + part.length;
+    }, 0);
+    return output;
+};
@@ -0,0 +1,177 @@
+import { Dimensions, ExportFormat } from '../types';
+import { canvasToBlob, createCanvas, fitImageToSize, getWhiteBorderRatio, loadImage } from './imageUtils';
+import { createZip, ZipEntry } from './zipService';
+import { getExtensionForMimeType } from './downloadUtils';
+
+export type MarketplaceId = 'amazon' | 'shopify' | 'etsy';
+
+type VariantSource = 'result' | 'product';
+
+interface ChannelVariantSpec {
+    name: string;
+    source: VariantSource;
+    size: Dimensions;
+    format: ExportFormat;
+    /** Padding color; white for marketplaces that require a pure white background. */
+    padColor?: string;
+    /** Whether this variant must have a pure white background. */
+    requiresWhiteBackground?: boolean;
+}
+
+export interface MarketplaceRules {
+    id: MarketplaceId;
+    label: string;
+    /** Minimum length of the longest edge, in pixels, for the source image. */
+    minLongestEdge: number;
+    /** Hard cap on file size, in bytes. */
+    maxFileBytes: number;
+    variants: ChannelVariantSpec[];
+}
+
+export const MARKETPLACE_RULES: MarketplaceRules[] = [
+    {
+        id: 'amazon',
+        label: 'Amazon',
+        minLongestEdge: 1000,
+        maxFileBytes: 10 * 1024 * 1024,
+        variants: [
+            { name: 'main', source: 'product', size: { width: 2000, height: 2000 }, format: 'image/jpeg', padColor: '#ffffff', requiresWhiteBackground: true },
+            { name: 'lifestyle', source: 'result', size: { width: 2000, height: 2000 }, format: 'image/jpeg' },
+        ],
+    },
+    {
+        id: 'shopify',
+        label: 'Shopify',
+        minLongestEdge: 800,
+        maxFileBytes: 20 * 1024 * 1024,
+        variants: [
+            { name: 'product', source: 'result', size: { width: 2048, height: 2048 }, format: 'image/jpeg' },
+            { name: 'product-white', source: 'product', size: { width: 2048, height: 2048 }, format: 'image/png', padColor: '#ffffff' },
+        ],
+    },
+    {
+        id: 'etsy',
+        label: 'Etsy',
+        minLongestEdge: 2000,
+        maxFileBytes: 1024 * 1024,
+        variants: [
+            { name: 'listing', source: 'result', size: { width: 2700, height: 2025 }, format: 'image/jpeg' },
+            { name: 'thumbnail-square', source: 'result', size: { width: 2000, height: 2000 }, format: 'image/jpeg' },
+        ],
+    },
+];
+
+export interface ValidationIssue {
+    marketplace: string;
+    variant: string | null;
+    rule: string;
+    passed: boolean;
+    detail: string;
+}
+
+export interface ChannelPackResult {
+    zip: Blob;
+    report: ValidationIssue[];
+}
+
+const MIN_QUALITY = 0.5;
+const QUALITY_STEP = 0.08;
+
+const formatBytes = (bytes: number): string =>
+    bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+/**
+ * Encodes an image, lowering the quality of lossy formats until it fits under `maxBytes`.
+ */
+const encodeWithinSize = async (src: string, format: ExportFormat, maxBytes: number): Promise<Blob> => {
+    const image = await loadImage(src);
+    const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+    if (format === 'image/jpeg') {
+        ctx.fillStyle = '#fff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.drawImage(image, 0, 0);
+
+    let quality = 0.92;
+    let blob = await canvasToBlob(canvas, format, quality);
+    while (blob.size > maxBytes && format !== 'image/png' && quality - QUALITY_STEP >= MIN_QUALITY) {
+        quality -= QUALITY_STEP;
+        blob = await canvasToBlob(canvas, format, quality);
+    }
+    return blob;
+};
+
+/**
+ * Formats the validation report as plain text for inclusion in the ZIP.
+ */
+export const formatValidationReport = (report: ValidationIssue[]): string => {
+    const lines = ['AI Photo Studio channel pack validation report', `Generated ${new Date().toISOString()}`, ''];
+    for (const issue of report) {
+        const target = issue.variant ? `${issue.marketplace} / ${issue.variant}` : issue.marketplace;
+        lines.push(`[${issue.passed ? 'PASS' : 'FAIL'}] ${target}: ${issue.rule} — ${issue.detail}`);
+    }
+    return lines.join('\n');
+};
+
+/**
+ * Builds a ZIP with correctly sized, padded and compressed variants for each selected
+ * marketplace, plus a report of every rule the images pass or fail. Variants that need
+ * the original product photo fall back to the generated result when it is not supplied.
+ */
+export const buildChannelPack = async (
+    resultImage: string,
+    productImage: string | null,
+    marketplaceIds: MarketplaceId[]
+): Promise<ChannelPackResult> => {
+    const encoder = new TextEncoder();
+    const entries: ZipEntry[] = [];
+    const report: ValidationIssue[] = [];
+    const resultElement = await loadImage(resultImage);
+    const longestEdge = Math.max(resultElement.naturalWidth, resultElement.naturalHeight);
+
+    for (const rules of MARKETPLACE_RULES.filter(r => marketplaceIds.includes(r.id))) {
+        report.push({
+            marketplace: rules.label,
+            variant: null,
+            rule: `Source longest edge ≥ ${rules.minLongestEdge} px`,
+            passed: longestEdge >= rules.minLongestEdge,
+            detail: longestEdge >= rules.minLongestEdge
+                ? `${longestEdge} px`
+                : `${longestEdge} px; variants are upscaled and may look soft`,
+        });
+
+        for (const variant of rules.variants) {
+            const source = variant.source === 'product' && productImage ? productImage : resultImage;
+            const sized = await fitImageToSize(source, variant.size, variant.padColor);
+            const blob = await encodeWithinSize(sized, variant.format, rules.maxFileBytes);
+            const fileName = `${rules.id}/${variant.name}.${getExtensionForMimeType(blob.type)}`;
+            entries.push({ name: fileName, data: new Uint8Array(await blob.arrayBuffer()) });
+
+            report.push({
+                marketplace: rules.label,
+                variant: variant.name,
+                rule: `File size ≤ ${formatBytes(rules.maxFileBytes)}`,
+                passed: blob.size <= rules.maxFileBytes,
+                detail: formatBytes(blob.size),
+            });
+
+            if (variant.requiresWhiteBackground) {
+                const whiteRatio = await getWhiteBorderRatio(sized);
+                const passed = whiteRatio >= 0.9;
+                report.push({
+                    marketplace: rules.label,
+                    variant: variant.name,
+                    rule: 'Pure white background (RGB 255, 255, 255)',
+                    passed,
+                    detail: passed
+                        ? `${Math.round(whiteRatio * 100)}% of the edge is white`
+                        : `only ${Math.round(whiteRatio * 100)}% of the edge is white; use a cut-out or white-background shot`,
+                });
+            }
+        }
+    }
+
+    entries.push({ name: 'validation-report.txt', data: encoder.encode(formatValidationReport(report)) });
+    entries.push({ name: 'validation-report.json', data: encoder.encode(JSON.stringify(report, null, 2)) });
+    return { zip: createZip(entries), report };
+};
@@ -0,0 +1,241 @@
+import { BadgeOverlayLayer, BadgeShape, OverlayLayer, TextOverlayLayer } from '../types';
+import { createCanvas, loadImage } from './imageUtils';
+
+/** Height of a badge relative to its width, per shape. */
+const BADGE_ASPECT: Record<BadgeShape, number> = {
+    circle: 1,
+    pill: 0.4,
+    starburst: 1,
+    ribbon: 0.3,
+};
+/** Share of the badge width its label may fill. */
+const BADGE_TEXT_WIDTH = 0.7;
+const STARBURST_POINTS = 16;
+const STARBURST_INNER_RADIUS = 0.84;
+const LINE_HEIGHT = 1.2;
+/** Guides within this distance (fraction of the image) snap the layer's center. */
+const SNAP_DISTANCE = 0.012;
+const GUIDE_POSITIONS = [1 / 3, 0.5, 2 / 3];
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface AlignmentGuides {
+    /** Fractions of the image width. */
+    vertical: number[];
+    /** Fractions of the image height. */
+    horizontal: number[];
+}
+
+export const createOverlayLayerId = (): string => `layer-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createTextLayer = (): TextOverlayLayer => ({
+    id: createOverlayLayerId(),
+    type: 'text',
+    x: 0.5,
+    y: 0.15,
+    rotation: 0,
+    text: 'Your headline',
+    fontFamily: 'Arial',
+    fontSize: 0.08,
+    bold: true,
+    color: '#ffffff',
+    strokeColor: '#000000',
+    strokeWidth: 0,
+    shadow: true,
+});
+
+export const createBadgeLayer = (): BadgeOverlayLayer => ({
+    id: createOverlayLayerId(),
+    type: 'badge',
+    x: 0.82,
+    y: 0.18,
+    rotation: -12,
+    shape: 'starburst',
+    text: 'NEW',
+    fontFamily: 'Arial',
+    size: 0.22,
+    fillColor: '#dc2626',
+    textColor: '#ffffff',
+});
+
+const fontFor = (family: string, size: number, bold: boolean) => `${bold ? 'bold ' : ''}${size}px "${family}", sans-serif`;
+
+/**
+ * The layer's unrotated size in pixels on an image of the given size.
+ */
+export const measureLayer = (ctx: CanvasRenderingContext2D, layer: OverlayLayer, width: number, height: number): { width: number, height: number } => {
+    if (layer.type === 'badge') {
+        const badgeWidth = layer.size * width;
+        return { width: badgeWidth, height: badgeWidth * BADGE_ASPECT[layer.shape] };
+    }
+    const fontSize = layer.fontSize * height;
+    const lines = layer.text.split('\n');
+    ctx.save();
+    ctx.font = fontFor(layer.fontFamily, fontSize, layer.bold);
+    const textWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+    ctx.restore();
+    const outline = layer.strokeWidth * fontSize * 2;
+    return { width: textWidth + outline, height: lines.length * fontSize * LINE_HEIGHT + outline };
+};
+
+const traceBadge = (ctx: CanvasRenderingContext2D, shape: BadgeShape, width: number, height: number) => {
+    ctx.beginPath();
+    if (shape === 'circle') {
+        ctx.arc(0, 0, width / 2, 0, Math.PI * 2);
+    } else if (shape === 'pill') {
+        ctx.roundRect(-width / 2, -height / 2, width, height, height / 2);
+    } else if (shape === 'starburst') {
+        for (let i = 0; i < STARBURST_POINTS * 2; i++) {
+            const radius = (width / 2) * (i % 2 === 0 ? 1 : STARBURST_INNER_RADIUS);
+            const angle = (i * Math.PI) / STARBURST_POINTS;
+            ctx.lineTo(Math.cos(angle) * radius, Math.sin(angle) * radius);
+        }
+        ctx.closePath();
+    } else {
+        // A banner with swallowtail notches at both ends.
+        const notch = height * 0.4;
+        ctx.moveTo(-width / 2, -height / 2);
+        ctx.lineTo(width / 2, -height / 2);
+        ctx.lineTo(width / 2 - notch, 0);
+        ctx.lineTo(width / 2, height / 2);
+        ctx.lineTo(-width / 2, height / 2);
+        ctx.lineTo(-width / 2 + notch, 0);
+        ctx.closePath();
+    }
+};
+
+const drawBadge = (ctx: CanvasRenderingContext2D, layer: BadgeOverlayLayer, width: number, height: number) => {
+    ctx.fillStyle = layer.fillColor;
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.35)';
+    ctx.shadowBlur = width * 0.04;
+    ctx.shadowOffsetY = width * 0.015;
+    traceBadge(ctx, layer.shape, width, height);
+    ctx.fill();
+    ctx.shadowColor = 'transparent';
+
+    const text = layer.text.trim();
+    if (!text) return;
+    const textArea = width * BADGE_TEXT_WIDTH;
+    let fontSize = height * (layer.shape === 'circle' || layer.shape === 'starburst' ? 0.32 : 0.55);
+    ctx.font = fontFor(layer.fontFamily, fontSize, true);
+    const textWidth = ctx.measureText(text).width;
+    if (textWidth > textArea) {
+        fontSize *= textArea / textWidth;
+        ctx.font = fontFor(layer.fontFamily, fontSize, true);
+    }
+    ctx.fillStyle = layer.textColor;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, 0, 0);
+};
+
+const drawText = (ctx: CanvasRenderingContext2D, layer: TextOverlayLayer, imageHeight: number) => {
+    const fontSize = layer.fontSize * imageHeight;
+    const lines = layer.text.split('\n');
+    const lineHeight = fontSize * LINE_HEIGHT;
+    const top = -((lines.length - 1) * lineHeight) / 2;
+    ctx.font = fontFor(layer.fontFamily, fontSize, layer.bold);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.lineJoin = 'round';
+
+    ctx.shadowBlur = fontSize * 0.15;
+    ctx.shadowOffsetY = fontSize * 0.05;
+    lines.forEach((line, index) => {
+        const y = top + index * lineHeight;
+        // With an outline only the stroke casts the shadow, or it would be cast twice.
+        ctx.shadowColor = layer.shadow ? 'rgba(0, 0, 0, 0.5)' : 'transparent';
+        if (layer.strokeWidth > 0) {
+            // The stroke is centered on the outline, so half of it is hidden under the fill.
+            ctx.strokeStyle = layer.strokeColor;
+            ctx.lineWidth = layer.strokeWidth * fontSize * 2;
+            ctx.strokeText(line, 0, y);
+            ctx.shadowColor = 'transparent';
+        }
+        ctx.fillStyle = layer.color;
+        ctx.fillText(line, 0, y);
+    });
+};
+
+/**
+ * Draws one layer onto a context covering an image of the given size.
+ */
+export const drawOverlayLayer = (ctx: CanvasRenderingContext2D, layer: OverlayLayer, width: number, height: number) => {
+    ctx.save();
+    ctx.translate(layer.x * width, layer.y * height);
+    ctx.rotate((layer.rotation * Math.PI) / 180);
+    if (layer.type === 'badge') {
+        const size = measureLayer(ctx, layer, width, height);
+        drawBadge(ctx, layer, size.width, size.height);
+    } else {
+        drawText(ctx, layer, height);
+    }
+    ctx.restore();
+};
+
+export const drawOverlayLayers = (ctx: CanvasRenderingContext2D, layers: OverlayLayer[], width: number, height: number) => {
+    layers.forEach(layer => drawOverlayLayer(ctx, layer, width, height));
+};
+
+/**
+ * Burns the overlay layers into the image. Returns the image unchanged when there are
+ * none, otherwise a PNG data URL at the image's resolution.
+ */
+export const flattenOverlays = async (imageUrl: string, layers: OverlayLayer[]): Promise<string> => {
+    if (layers.length === 0) {
+        return imageUrl;
+    }
+    const image = await loadImage(imageUrl);
+    const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+    ctx.drawImage(image, 0, 0);
+    drawOverlayLayers(ctx, layers, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Finds the topmost layer under a point given in image pixels.
+ */
+export const findLayerAt = (ctx: CanvasRenderingContext2D, layers: OverlayLayer[], point: Point, width: number, height: number): OverlayLayer | null => {
+    for (let i = layers.length - 1; i >= 0; i--) {
+        const layer = layers[i];
+        const size = measureLayer(ctx, layer, width, height);
+        // Rotate the point into the layer's frame so the box test stays axis-aligned.
+        const angle = (-layer.rotation * Math.PI) / 180;
+        const dx = point.x - layer.x * width;
+        const dy = point.y - layer.y * height;
+        const localX = dx * Math.cos(angle) - dy * Math.sin(angle);
+        const localY = dx * Math.sin(angle) + dy * Math.cos(angle);
+        if (Math.abs(localX) <= size.width / 2 && Math.abs(localY) <= size.height / 2) {
+            return layer;
+        }
+    }
+    return null;
+};
+
+/**
+ * Snaps a layer's center to the image's center and thirds, and to the centers of the
+ * other layers, returning the guides it snapped to.
+ */
+export const snapToGuides = (position: Point, layerId: string, layers: OverlayLayer[]): Point & { guides: AlignmentGuides } => {
+    const others = layers.filter(layer => layer.id !== layerId);
+    const snap = (value: number, targets: number[]): { value: number, guide: number | null } => {
+        const nearest = targets.reduce<number | null>(
+            (best, target) => (Math.abs(target - value) <= SNAP_DISTANCE && (best === null || Math.abs(target - value) < Math.abs(best - value)) ? target : best),
+            null
+        );
+        return { value: nearest ?? value, guide: nearest };
+    };
+    const x = snap(position.x, [...GUIDE_POSITIONS, ...others.map(layer => layer.x)]);
+    const y = snap(position.y, [...GUIDE_POSITIONS, ...others.map(layer => layer.y)]);
+    return {
+        x: x.value,
+        y: y.value,
+        guides: {
+            vertical: x.guide === null ? [] : [x.guide],
+            horizontal: y.guide === null ? [] : [y.guide],
+        },
+    };
+};
@@ -0,0 +1,86 @@
+import { crc32 } from './binaryUtils';
+
+export const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const MAX_STORED_BLOCK = 0xffff;
+
+const adler32 = (data: Uint8Array): number => {
+    let a = 1;
+    let b = 0;
+    for (let i = 0; i < data.length; i++) {
+        a = (a + data[i]) % 65521;
+        b = (b + a) % 65521;
+    }
+    return ((b << 16) | a) >>> 0;
+};
+
+/**
+ * Wraps raw bytes in a zlib stream made of uncompressed deflate blocks.
+ */
+const zlibStore = (data: Uint8Array): Uint8Array => {
+    const blockCount = Math.max(1, Math.ceil(data.length / MAX_STORED_BLOCK));
+    const out = new Uint8Array(2 + data.length + blockCount * 5 + 4);
+    const view = new DataView(out.buffer);
+    out[0] = 0x78;
+    out[1] = 0x01;
+    let offset = 2;
+    for (let block = 0; block < blockCount; block++) {
+        const start = block * MAX_STORED_BLOCK;
+        const length = Math.min(MAX_STORED_BLOCK, data.length - start);
+        out[offset] = block === blockCount - 1 ? 1 : 0;
+        view.setUint16(offset + 1, length, true);
+        view.setUint16(offset + 3, ~length & 0xffff, true);
+        out.set(data.subarray(start, start + length), offset + 5);
+        offset += 5 + length;
+    }
+    view.setUint32(offset, adler32(data));
+    return out;
+};
+
+/**
+ * Builds a single PNG chunk (length, type, data, CRC).
+ */
+export const createPngChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) {
+        chunk[4 + i] = type.charCodeAt(i);
+    }
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+};
+
+/**
+ * Encodes 8-bit RGB pixel data as a PNG file. Works without a DOM, so it can be
+ * used from Node as well as the browser.
+ */
+export const encodeRgbPng = (width: number, height: number, rgb: Uint8Array): Uint8Array => {
+    const rowLength = width * 3;
+    const raw = new Uint8Array((rowLength + 1) * height);
+    for (let y = 0; y < height; y++) {
+        raw[y * (rowLength + 1)] = 0; // filter: none
+        raw.set(rgb.subarray(y * rowLength, (y + 1) * rowLength), y * (rowLength + 1) + 1);
+    }
+
+    const header = new Uint8Array(13);
+    const hv = new DataView(header.buffer);
+    hv.setUint32(0, width);
+    hv.setUint32(4, height);
+    header[8] = 8; // bit depth
+    header[9] = 2; // color type: truecolor
+    const chunks = [
+        PNG_SIGNATURE,
+        createPngChunk('IHDR', header),
+        createPngChunk('IDAT', zlibStore(raw)),
+        createPngChunk('IEND', new Uint8Array(0)),
+    ];
+
+    const png = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        png.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return png;
+};
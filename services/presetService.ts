@@ -0,0 +1,215 @@
+import {
+    AspectRatio,
+    BackgroundType,
+    Base64Image,
+    CameraPerspective,
+    DepthOfField,
+    Dimensions,
+    FocalLength,
+    LightingStyle,
+    Mood,
+    SceneSettings,
+    Season,
+    ShadowStyle,
+    StylePreset,
+    StyleReference,
+    StyleSettings,
+} from '../types';
+import { DEFAULT_SCENE_SETTINGS, MIN_STYLE_REFERENCE_WEIGHT } from '../constants';
+import { getStore, PRESET_STORE, promisifyRequest } from './database';
+import { ALL_STYLE_ASPECTS, createStyleReferenceId, fromLegacyStyleImage } from './styleReferenceService';
+
+export const PRESET_FILE_FORMAT = 'ai-photo-studio/style-presets';
+/**
+ * Version history:
+ * 1 – style settings, reference image, locked prompt and free-text `negativeInstructions`.
+ * 2 – adds `settings.scene`; negative instructions move into `settings.scene.doNotList`.
+ * 3 – the single `styleReferenceImage` becomes a `styleReferences` board of tagged, weighted images.
+ */
+export const PRESET_FILE_VERSION = 3;
+
+interface PresetFile {
+    format: typeof PRESET_FILE_FORMAT;
+    version: number;
+    exportedAt: string;
+    presets: StylePreset[];
+}
+
+const getPresetStore = (mode: IDBTransactionMode) => getStore(PRESET_STORE, mode);
+
+export const createPresetId = (): string => `preset-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Saves (or overwrites) a preset in local storage.
+ */
+export const savePreset = async (preset: StylePreset): Promise<void> => {
+    const store = await getPresetStore('readwrite');
+    await promisifyRequest(store.put(preset));
+};
+
+/**
+ * Lists every saved preset, sorted by name. A record that cannot be read is left out
+ * rather than hiding the others.
+ */
+export const listPresets = async (): Promise<StylePreset[]> => {
+    const store = await getPresetStore('readonly');
+    const records = await promisifyRequest(store.getAll() as IDBRequest<unknown[]>);
+    // Presets saved before version 2 still carry free-text negative instructions, and
+    // those saved before version 3 a single style image; parsing upgrades both.
+    return records
+        .flatMap((record, index) => {
+            try {
+                return [parsePreset(isRecord(record) && 'negativeInstructions' in record ? migrateV1Preset({ ...record }) : record, index)];
+            } catch (error) {
+                console.warn(`Skipping unreadable preset #${index + 1}:`, error);
+                return [];
+            }
+        })
+        .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const deletePreset = async (id: string): Promise<void> => {
+    const store = await getPresetStore('readwrite');
+    await promisifyRequest(store.delete(id));
+};
+
+/**
+ * Serializes presets into the shareable, versioned JSON file format.
+ */
+export const serializePresets = (presets: StylePreset[]): string => {
+    const file: PresetFile = {
+        format: PRESET_FILE_FORMAT,
+        version: PRESET_FILE_VERSION,
+        exportedAt: new Date().toISOString(),
+        presets,
+    };
+    return JSON.stringify(file, null, 2);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isEnumValue = <T extends string>(values: Record<string, T>, value: unknown): value is T =>
+    Object.values(values).includes(value as T);
+
+const isDimensions = (value: unknown): value is Dimensions =>
+    isRecord(value) && Number.isFinite(value.width) && Number.isFinite(value.height) && (value.width as number) > 0 && (value.height as number) > 0;
+
+const isBase64Image = (value: unknown): value is Base64Image =>
+    isRecord(value) && typeof value.base64 === 'string' && typeof value.mimeType === 'string' && value.mimeType.startsWith('image/');
+
+/**
+ * Keeps the well-formed references of a board, dropping unknown aspects and clamping weights.
+ */
+const parseStyleReferences = (value: unknown[]): StyleReference[] =>
+    value.flatMap((reference): StyleReference[] => {
+        if (!isRecord(reference) || !isBase64Image(reference.image)) return [];
+        const aspects = Array.isArray(reference.aspects)
+            ? ALL_STYLE_ASPECTS.filter(aspect => (reference.aspects as unknown[]).includes(aspect))
+            : [];
+        const weight = Number(reference.weight);
+        return [{
+            id: typeof reference.id === 'string' && reference.id ? reference.id : createStyleReferenceId(),
+            image: reference.image,
+            aspects: aspects.length > 0 ? aspects : ALL_STYLE_ASPECTS,
+            weight: Number.isFinite(weight) ? Math.min(1, Math.max(MIN_STYLE_REFERENCE_WEIGHT, weight)) : 1,
+        }];
+    });
+
+const parseScene = (value: unknown): SceneSettings => {
+    if (!isRecord(value)) return DEFAULT_SCENE_SETTINGS;
+    const pick = <T extends string>(values: Record<string, T>, field: unknown, fallback: T): T =>
+        isEnumValue(values, field) ? field : fallback;
+    return {
+        background: pick(BackgroundType, value.background, DEFAULT_SCENE_SETTINGS.background),
+        colorPalette: typeof value.colorPalette === 'string' ? value.colorPalette : '',
+        props: typeof value.props === 'string' ? value.props : '',
+        mood: pick(Mood, value.mood, DEFAULT_SCENE_SETTINGS.mood),
+        season: pick(Season, value.season, DEFAULT_SCENE_SETTINGS.season),
+        depthOfField: pick(DepthOfField, value.depthOfField, DEFAULT_SCENE_SETTINGS.depthOfField),
+        focalLength: pick(FocalLength, value.focalLength, DEFAULT_SCENE_SETTINGS.focalLength),
+        shadowStyle: pick(ShadowStyle, value.shadowStyle, DEFAULT_SCENE_SETTINGS.shadowStyle),
+        doNotList: Array.isArray(value.doNotList)
+            ? value.doNotList.filter((item): item is string => typeof item === 'string')
+            : DEFAULT_SCENE_SETTINGS.doNotList,
+    };
+};
+
+/**
+ * Validates style settings read from a file, filling in scene defaults.
+ * @param name What the settings belong to, e.g. `Preset "Summer"`, for the error message.
+ */
+export const parseStyleSettings = (value: unknown, name: string): StyleSettings => {
+    if (
+        !isRecord(value) ||
+        !isEnumValue(AspectRatio, value.aspectRatio) ||
+        !isEnumValue(LightingStyle, value.lightingStyle) ||
+        !isEnumValue(CameraPerspective, value.cameraPerspective)
+    ) {
+        throw new Error(`${name} has missing or unknown style settings.`);
+    }
+    return {
+        aspectRatio: value.aspectRatio,
+        customAspectRatio: isDimensions(value.customAspectRatio) ? value.customAspectRatio : undefined,
+        outputSize: isDimensions(value.outputSize) ? value.outputSize : null,
+        lightingStyle: value.lightingStyle,
+        cameraPerspective: value.cameraPerspective,
+        scene: parseScene(value.scene),
+    };
+};
+
+/**
+ * Upgrades a version 1 preset: its free-text negative instructions become entries in
+ * the scene's "do not" list.
+ */
+const migrateV1Preset = (value: Record<string, unknown>): Record<string, unknown> => {
+    const settings = isRecord(value.settings) ? value.settings : {};
+    const negativeInstructions = typeof value.negativeInstructions === 'string' ? value.negativeInstructions : '';
+    const doNotList = negativeInstructions.split('\n').map(line => line.trim()).filter(Boolean);
+    return {
+        ...value,
+        settings: { ...settings, scene: { ...DEFAULT_SCENE_SETTINGS, doNotList: [...DEFAULT_SCENE_SETTINGS.doNotList, ...doNotList] } },
+    };
+};
+
+const parsePreset = (value: unknown, index: number): StylePreset => {
+    if (!isRecord(value) || typeof value.name !== 'string' || !value.name.trim()) {
+        throw new Error(`Preset #${index + 1} has no name.`);
+    }
+    const name = value.name.trim();
+    return {
+        id: typeof value.id === 'string' && value.id ? value.id : createPresetId(),
+        name,
+        createdAt: typeof value.createdAt === 'number' ? value.createdAt : Date.now(),
+        settings: parseStyleSettings(value.settings, `Preset "${name}"`),
+        styleReferences: Array.isArray(value.styleReferences)
+            ? parseStyleReferences(value.styleReferences)
+            : fromLegacyStyleImage(isBase64Image(value.styleReferenceImage) ? value.styleReferenceImage : null),
+        lockedPrompt: typeof value.lockedPrompt === 'string' && value.lockedPrompt.trim() ? value.lockedPrompt : null,
+    };
+};
+
+/**
+ * Parses and validates a preset file. Presets keep their ids, so importing an updated
+ * file from a teammate replaces the older copies instead of duplicating them.
+ */
+export const parsePresetFile = (text: string): StylePreset[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (!isRecord(data) || data.format !== PRESET_FILE_FORMAT) {
+        throw new Error('The file is not an AI Photo Studio preset file.');
+    }
+    if (typeof data.version !== 'number' || data.version > PRESET_FILE_VERSION) {
+        throw new Error(`Preset file version ${String(data.version)} is not supported. Please update the app.`);
+    }
+    if (!Array.isArray(data.presets)) {
+        throw new Error('The preset file does not contain any presets.');
+    }
+    const version = data.version;
+    return data.presets
+        .map(preset => (version < 2 && isRecord(preset) ? migrateV1Preset(preset) : preset))
+        .map(parsePreset);
+};
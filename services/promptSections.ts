@@ -0,0 +1,117 @@
+import { SceneSettings } from '../types';
+
+export type PromptSectionId = 'scene' | 'lighting' | 'camera' | 'styling' | 'constraints';
+
+export interface PromptSectionDefinition {
+    id: PromptSectionId;
+    label: string;
+    /** Generated sections are written by the prompt model; the rest are built locally. */
+    isGenerated: boolean;
+}
+
+export const PROMPT_SECTIONS: PromptSectionDefinition[] = [
+    { id: 'scene', label: 'Scene & Background', isGenerated: true },
+    { id: 'lighting', label: 'Lighting', isGenerated: true },
+    { id: 'camera', label: 'Camera', isGenerated: true },
+    { id: 'styling', label: 'Palette, Props & Mood', isGenerated: true },
+    { id: 'constraints', label: 'Do Not', isGenerated: false },
+];
+
+export type PromptSections = Partial<Record<PromptSectionId, string>>;
+
+const HEADING_PATTERN = /^#{2,4}\s*(.+?)\s*:?\s*$/;
+
+const findSection = (heading: string) => {
+    const normalized = heading.replace(/\*/g, '').trim().toLowerCase();
+    return PROMPT_SECTIONS.find(section => section.label.toLowerCase() === normalized);
+};
+
+/**
+ * Splits a prompt written as `### Label` sections into its parts. Returns null if the
+ * text has no recognizable section headings (e.g. a hand-written or legacy prompt).
+ * Any text before the first heading is treated as part of the scene description.
+ */
+export const parsePromptSections = (text: string): PromptSections | null => {
+    const sections: PromptSections = {};
+    let current: PromptSectionId | null = null;
+    let preamble = '';
+    let found = false;
+    const lines: string[] = [];
+
+    const flush = () => {
+        const body = lines.join('\n').trim();
+        if (current) {
+            sections[current] = body;
+        } else {
+            preamble = body;
+        }
+        lines.length = 0;
+    };
+
+    for (const line of text.split('\n')) {
+        const match = HEADING_PATTERN.exec(line.trim());
+        const section = match && findSection(match[1]);
+        if (section) {
+            flush();
+            current = section.id;
+            found = true;
+        } else {
+            lines.push(line);
+        }
+    }
+    flush();
+    if (found && preamble) {
+        sections.scene = sections.scene ? `${preamble}\n\n${sections.scene}` : preamble;
+    }
+    return found ? sections : null;
+};
+
+/**
+ * Joins sections back into a single prompt in the canonical order, skipping empty ones.
+ */
+export const formatPromptSections = (sections: PromptSections): string =>
+    PROMPT_SECTIONS
+        .filter(({ id }) => sections[id]?.trim())
+        .map(({ id, label }) => `### ${label}\n${sections[id]!.trim()}`)
+        .join('\n\n');
+
+/**
+ * Replaces (or adds) one section of a sectioned prompt. An unsectioned prompt is kept
+ * whole and the section is appended after it.
+ */
+export const setPromptSection = (prompt: string, id: PromptSectionId, text: string): string => {
+    const sections = parsePromptSections(prompt);
+    if (sections) {
+        return formatPromptSections({ ...sections, [id]: text });
+    }
+    const label = PROMPT_SECTIONS.find(section => section.id === id)!.label;
+    const body = prompt.trim();
+    if (!text.trim()) return body;
+    return body ? `${body}\n\n### ${label}\n${text.trim()}` : `### ${label}\n${text.trim()}`;
+};
+
+/**
+ * Merges a freshly generated prompt into the current one. Sections the user edited
+ * (those that differ from `previousGenerated`) are kept; everything else is replaced.
+ * Without a sectioned current and previous prompt to compare, the whole prompt is replaced.
+ */
+export const mergeRegeneratedPrompt = (generated: string, current: string, previousGenerated: string | null): string => {
+    const next = parsePromptSections(generated);
+    const currentSections = parsePromptSections(current);
+    const previousSections = previousGenerated ? parsePromptSections(previousGenerated) : null;
+    if (!next || !currentSections || !previousSections) return generated;
+
+    const merged: PromptSections = { ...next };
+    for (const { id, isGenerated } of PROMPT_SECTIONS) {
+        if (isGenerated && currentSections[id] !== undefined && currentSections[id] !== previousSections[id]) {
+            merged[id] = currentSections[id];
+        }
+    }
+    return formatPromptSections(merged);
+};
+
+/**
+ * Builds the locally maintained "Do Not" section from the scene's constraint list.
+ */
+export const buildConstraintsSection = (scene: SceneSettings | undefined): string =>
+    (scene?.doNotList ?? []).map(item => item.trim()).filter(Boolean).map(item => `- ${item}`).join('\n');
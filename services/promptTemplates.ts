@@ -0,0 +1,171 @@
+import { BrandKit, FidelityDifference, SceneSettings, StyleAspect, StyleReference, StyleSettings } from '../types';
+import { DEFAULT_SCENE_SETTINGS, describeAspectRatio } from '../constants';
+import { PROMPT_SECTIONS } from './promptSections';
+
+const AUTO_VALUES = ['Auto', 'Any', ''];
+
+/**
+ * Lists the scene parameters the user actually set; "Auto" values are left to the model.
+ */
+const describeSceneParameters = (scene: SceneSettings): string => {
+    const parameters: [string, string][] = [
+        ['Background / Surface', scene.background],
+        ['Color Palette', scene.colorPalette.trim()],
+        ['Props', scene.props.trim()],
+        ['Mood', scene.mood],
+        ['Season', scene.season],
+        ['Depth of Field', scene.depthOfField],
+        ['Lens Focal Length', scene.focalLength],
+        ['Shadow Style', scene.shadowStyle],
+    ];
+    return parameters
+        .filter(([, value]) => !AUTO_VALUES.includes(value))
+        .map(([label, value]) => `- **${label}:** ${value}`)
+        .join('\n');
+};
+
+const STYLE_ASPECT_DESCRIPTIONS: Record<StyleAspect, string> = {
+    color: 'color palette (dominant and accent colors)',
+    texture: 'surface textures and materials',
+    lighting: 'quality, direction and contrast of the light',
+    composition: 'composition, framing and use of space',
+};
+
+/**
+ * Introduces one style reference to the model; sent as a text part right before its image.
+ */
+export const describeStyleReference = (reference: StyleReference, index: number): string =>
+    `Style reference ${index + 1} (weight ${Math.round(reference.weight * 100)}%): borrow only its ${reference.aspects.map(aspect => STYLE_ASPECT_DESCRIPTIONS[aspect]).join('; ')}.`;
+
+/**
+ * Turns the brand kit into mandatory guidelines for the prompt writer. Returns an empty
+ * string when the kit has nothing that affects the scene.
+ */
+export const describeBrandGuidelines = (kit: BrandKit | null): string => {
+    if (!kit) return '';
+    const guidelines = [
+        kit.primaryColors.length > 0 && `- **Primary colors:** ${kit.primaryColors.join(', ')}. Build the palette around these.`,
+        kit.secondaryColors.length > 0 && `- **Secondary colors:** ${kit.secondaryColors.join(', ')}. Use only as accents.`,
+        kit.forbiddenColors.length > 0 && `- **Forbidden colors:** ${kit.forbiddenColors.join(', ')}. None of these may appear anywhere in the scene.`,
+        kit.approvedBackgrounds.length > 0 && `- **Approved backgrounds:** ${kit.approvedBackgrounds.join('; ')}. The set must be one of these.`,
+        kit.typeface.trim() && `- **Typeface:** any lettering in the scene, such as signage or packaging props, is set in ${kit.typeface.trim()}.`,
+        kit.logo.enabled && kit.logo.image && `- **Logo area:** keep the ${kit.logo.corner.replace('-', ' ')} corner free of important detail; the brand logo is placed there afterwards.`,
+    ].filter(Boolean);
+    return guidelines.join('\n');
+};
+
+/**
+ * Builds the instructions sent to the prompt-generation model. Shared by every
+ * provider so the studio's creative direction stays identical across backends.
+ */
+export const buildPromptGenerationInstructions = (
+    settings: StyleSettings,
+    styleReferences: StyleReference[],
+    brandKit: BrandKit | null = null
+): string => {
+    const { lightingStyle, cameraPerspective, scene = DEFAULT_SCENE_SETTINGS } = settings;
+    const aspectRatio = describeAspectRatio(settings);
+    const sceneParameters = describeSceneParameters(scene);
+    const brandGuidelines = describeBrandGuidelines(brandKit);
+    const sectionHeadings = PROMPT_SECTIONS.filter(section => section.isGenerated).map(section => `### ${section.label}`);
+
+    return `You are an expert creative director for a high-end product photography studio using an advanced AI editor. Your mission is to craft a detailed, evocative, and highly specific prompt to transform a given product photo.
+
+The final image must be a professional-grade product shot. The product should be the clear hero of the image, perfectly integrated into a compelling scene.
+
+**User-defined Parameters:**
+- **Aspect Ratio:** ${aspectRatio} (The final composition must adhere to this.)
+- **Lighting Style:** ${lightingStyle}
+- **Camera Perspective:** ${cameraPerspective}
+${sceneParameters}
+
+Any parameter not listed is yours to choose so that it best suits the product.
+${brandGuidelines ? `
+**Brand Guidelines (mandatory, these override any conflicting parameter or style reference):**
+${brandGuidelines}
+` : ''}
+**Your Task:**
+Synthesize these parameters into a single, masterful prompt. Describe the scene, lighting, and camera work with rich, sensory language. Honor every listed parameter exactly.
+
+*Example:* For "Studio Lighting," instead of a generic phrase, describe it as: "A professional studio shot with a large, diffused key light creating soft, flattering highlights, minimal shadows filled in with ambient bounce light, and a subtle rim light to define the product's edges against a clean, seamless background."
+
+${styleReferences.length > 0 ? `
+**Style Reference Analysis:**
+${styleReferences.length === 1 ? 'A style reference image has been provided' : `${styleReferences.length} style reference images have been provided`}, each introduced by a line naming what to borrow from it and its weight. Your prompt MUST incorporate their combined aesthetic.
+1.  **Analyze the Essence:** From each reference, deconstruct only the elements it is tagged for: color palette (dominant and accent colors), textures (e.g., grainy, smooth, metallic, organic), lighting, or composition. Ignore everything else in that image.
+2.  **Balance by Weight:** Where references pull in different directions, follow the higher-weight ones; lower-weight references contribute accents.
+3.  **Translate the Context:** Imagine a new scene inspired by the references that would perfectly showcase the user's product. Describe this environment. For instance, if a reference is a sun-drenched beach, the prompt might describe the product resting on weathered driftwood with soft, natural morning light.
+4.  **Integrate and Enhance:** Weave the analyzed style elements and the new context seamlessly with the user-defined parameters. The user's choices for lighting and perspective are the primary guide, but they should be interpreted through the lens of the references' style.
+` : ''}
+
+**Final Output Requirement:**
+Generate ONLY the final prompt, split into exactly these sections, in this order, each heading on its own line followed by one paragraph:
+${sectionHeadings.join('\n')}
+
+Describe the set, surface and background under "${PROMPT_SECTIONS[0].label}"; the light and shadows under "Lighting"; the angle, lens and depth of field under "Camera"; and colors, props, mood and season under "${PROMPT_SECTIONS[3].label}". Do not include any other headings, preambles, or explanations. The output must be ready to be fed directly into the image generation model.`;
+};
+
+/**
+ * Wraps a follow-up instruction so the image model edits the current result
+ * instead of re-imagining the whole shot.
+ */
+export const buildRefinementPrompt = (instruction: string): string => `You are retouching an existing product photograph. Apply ONLY the following change and keep everything else exactly as it is: the product itself, its labels and logos, the composition, framing and lighting.
+
+**Requested change:** ${instruction}
+
+Return the complete edited photograph at the same aspect ratio.`;
+
+/**
+ * Instructions for the vision pass that checks whether a result still shows the exact
+ * product. The first image is the original product photo, the second the result.
+ */
+export const buildFidelityCheckPrompt = (): string => `You are a meticulous quality inspector for e-commerce product photography. Two images are provided: the ORIGINAL product photo, followed by a GENERATED photo that must show the exact same product in a new scene.
+
+Ignore the background, scene, props, lighting and camera angle. Compare ONLY the product itself and list every difference in:
+- **text:** label text, typography, spelling, numbers
+- **logo:** brand marks, their shape, placement or colors
+- **color:** the product's own colors and finishes
+- **geometry:** shape, proportions, parts added or missing
+
+Rate each difference as "minor" (hard to notice) or "major" (a customer would notice). Then give an overall fidelity score from 0 (a different product) to 1 (identical product). Report only real differences; an empty list is a valid answer.`;
+
+/**
+ * Re-sends the original brief after a failed fidelity check, naming what went wrong.
+ */
+export const buildFidelityRetryPrompt = (prompt: string, differences: FidelityDifference[]): string => {
+    const issues = differences.length
+        ? differences.map(difference => `- ${difference.category}: ${difference.description}`).join('\n')
+        : '- the product no longer matched the original photo closely enough';
+    return `${prompt}
+
+**Product fidelity is critical.** A previous attempt altered the product:
+${issues}
+Reproduce the product exactly as in the supplied photo: same shape, colors, label text and logos.`;
+};
+
+/**
+ * Wraps a studio prompt so the model paints only the empty set. The supplied image is a
+ * blank canvas that fixes the frame; the product is composited onto the result locally.
+ */
+export const buildBackgroundPrompt = (prompt: string): string => `The supplied image is a blank canvas that only sets the frame. Replace it entirely with the empty set described in the brief below, photographed before the product arrives.
+
+Leave a clear, uncluttered area in the lower middle of the frame with a surface a product can stand on, lit and in focus as the brief describes. Do not draw any product, packaging, bottle, box, label, logo or text; props from the brief may appear around the empty area. Keep the canvas's size and aspect ratio.
+
+**Scene brief:**
+${prompt}`;
+
+/**
+ * Instructions for producing a product mask used to cut the product out of its photo.
+ */
+export const buildSegmentationPrompt = (): string => `Create a segmentation mask for this product photograph. Return an image of exactly the same size and framing in which every pixel belonging to the product, including its labels, caps, handles and any transparent or reflective parts, is pure white, and every other pixel (backdrop, surface, shadows, reflections on the floor, props) is pure black.
+
+Do not move, resize or crop anything. Use no gray tones, text or other marks.`;
+
+/**
+ * Instructions for a masked edit. The first image is the photo, the second the mask.
+ */
+export const buildInpaintingPrompt = (instruction: string): string => `You are retouching a product photograph. Two images are provided: the photograph, followed by a black-and-white mask of the same size. Edit ONLY the region that is white in the mask; the black region must remain exactly as it is.
+
+**Change to make inside the masked region:** ${instruction}
+
+Blend the edit seamlessly with the surrounding lighting, perspective and color. Return the complete photograph at its original size and aspect ratio.`;
@@ -0,0 +1,279 @@
+import { ApiError, GenerateContentResponse, Part, Type } from "@google/genai";
+import { Base64Image, BrandKit, FidelityCategory, FidelityDifference, GenerationDiagnostics, StyleReference, StyleSettings } from '../../types';
+import { buildFidelityCheckPrompt, buildPromptGenerationInstructions, buildSegmentationPrompt, describeStyleReference } from '../promptTemplates';
+import { sortByWeight } from '../styleReferenceService';
+import { isAbortError } from '../abortUtils';
+import { AuthError, NetworkError, NoImageError, QuotaError, SafetyBlockError, StudioError } from '../studioErrors';
+import { GEMINI_MODELS, GeminiTransport } from './geminiTransport';
+import { ImageEditResult, ImageProvider, VisionFidelityResult } from './types';
+
+const FIDELITY_CATEGORIES: FidelityCategory[] = ['text', 'logo', 'color', 'geometry', 'other'];
+
+/** Finish reasons meaning the output was withheld by a content filter. */
+const SAFETY_FINISH_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+/** Ratings at this probability count as the reason for a block even when not flagged `blocked`. */
+const BLOCKING_PROBABILITIES = ['HIGH'];
+
+const fidelityResponseSchema = {
+    type: Type.OBJECT,
+    properties: {
+        score: { type: Type.NUMBER, description: 'Overall product fidelity from 0 to 1.' },
+        differences: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    category: { type: Type.STRING, enum: FIDELITY_CATEGORIES },
+                    description: { type: Type.STRING },
+                    severity: { type: Type.STRING, enum: ['minor', 'major'] },
+                },
+                required: ['category', 'description', 'severity'],
+            },
+        },
+    },
+    required: ['score', 'differences'],
+};
+
+/**
+ * Turns the reference board into parts, strongest first, each image preceded by a line
+ * saying what to take from it.
+ */
+const buildStyleReferenceParts = (styleReferences: StyleReference[]): Part[] =>
+    sortByWeight(styleReferences).flatMap((reference, index) => [
+        { text: describeStyleReference(reference, index) },
+        {
+            inlineData: {
+                data: reference.image.base64,
+                mimeType: reference.image.mimeType,
+            }
+        },
+    ]);
+
+/**
+ * Reads the wait a 429 response asks for, e.g. `"retryDelay": "23s"`, in milliseconds.
+ */
+const parseRetryDelay = (message: string): number | null => {
+    const match = message.match(/retryDelay["']?\s*:\s*["']?(\d+(?:\.\d+)?)s/i);
+    return match ? Math.round(Number(match[1]) * 1000) : null;
+};
+
+/**
+ * Maps errors from the Gemini API onto the studio's typed errors.
+ * @param error The error object caught from the API call.
+ * @param context A string describing the operation that failed (e.g., "prompt generation").
+ * @returns A typed error, the original error if it is already typed or a cancellation,
+ * or a generic error for anything unrecognized.
+ */
+const handleGeminiError = (error: unknown, context: string): Error => {
+    // Cancellation is expected, not a failure
+    if (isAbortError(error) || error instanceof StudioError) {
+        return error as Error;
+    }
+    console.error(`Error during ${context}:`, error);
+    const status = error instanceof ApiError ? error.status : null;
+    const message = error instanceof Error ? error.message : String(error);
+    const lowerMessage = message.toLowerCase();
+    if (status === 401 || status === 403 || lowerMessage.includes('api key not valid')) {
+        return new AuthError(undefined, { cause: error });
+    }
+    if (status === 429 || lowerMessage.includes('resource_exhausted') || lowerMessage.includes('rate limit')) {
+        return new QuotaError(parseRetryDelay(message), { cause: error });
+    }
+    if (status !== null && status >= 500) {
+        return new NetworkError(`The Gemini service is temporarily unavailable (HTTP ${status}). Please try again.`, { cause: error });
+    }
+    // fetch rejects with a TypeError when the request never reached the server.
+    if (error instanceof TypeError || lowerMessage.includes('failed to fetch') || lowerMessage.includes('network')) {
+        return new NetworkError(undefined, { cause: error });
+    }
+    return new Error(`An unexpected error occurred during ${context}. Please check the console for details.`, { cause: error });
+};
+
+/**
+ * Collects the model's text, finish reason and the safety categories that stopped it
+ * from a response.
+ */
+const collectDiagnostics = (response: GenerateContentResponse): GenerationDiagnostics => {
+    const candidate = response.candidates?.[0];
+    const modelText = (candidate?.content?.parts ?? [])
+        .filter(part => part.text && !part.thought)
+        .map(part => part.text.trim())
+        .join('\n')
+        .trim();
+    const ratings = [...(response.promptFeedback?.safetyRatings ?? []), ...(candidate?.safetyRatings ?? [])];
+    const blockedCategories = ratings
+        .filter(rating => rating.category && (rating.blocked || BLOCKING_PROBABILITIES.includes(rating.probability)))
+        .map(rating => rating.category as string);
+    return {
+        modelText: modelText || null,
+        finishReason: candidate?.finishReason ?? null,
+        blockReason: response.promptFeedback?.blockReason ?? null,
+        blockedCategories: [...new Set(blockedCategories)],
+    };
+};
+
+/**
+ * Throws a SafetyBlockError if the prompt or the first candidate was withheld by a content filter.
+ */
+const throwIfBlocked = (diagnostics: GenerationDiagnostics) => {
+    if (diagnostics.blockReason) {
+        throw new SafetyBlockError(diagnostics.blockReason, diagnostics);
+    }
+    if (diagnostics.finishReason && SAFETY_FINISH_REASONS.includes(diagnostics.finishReason)) {
+        throw new SafetyBlockError(diagnostics.finishReason, diagnostics);
+    }
+};
+
+/**
+ * Creates the Gemini-backed provider. Requests go through `transport`: the studio proxy
+ * by default, or straight to Google with a personal key.
+ */
+export const createGeminiProvider = (transport: GeminiTransport): ImageProvider => {
+
+    const generateDescriptivePrompt = async (
+        settings: StyleSettings,
+        styleReferences: StyleReference[],
+        brandKit: BrandKit | null,
+        signal?: AbortSignal
+    ): Promise<string> => {
+        const parts: Part[] = [
+            { text: buildPromptGenerationInstructions(settings, styleReferences, brandKit) },
+            ...buildStyleReferenceParts(styleReferences),
+        ];
+
+        try {
+            const response = await transport('prompt', { parts }, signal);
+
+            if (!response.text) {
+                throwIfBlocked(collectDiagnostics(response));
+                throw new Error("The model returned an empty prompt.");
+            }
+
+            return response.text.trim();
+        } catch (error) {
+            throw handleGeminiError(error, "prompt generation");
+        }
+    };
+
+    /**
+     * Sends multimodal parts to the image model and returns the first image it produces,
+     * along with any text the model wrote. A response without an image is reported as a
+     * safety block or a NoImageError carrying the model's diagnostics.
+     */
+    const generateImage = async (parts: Part[], context: string, signal?: AbortSignal): Promise<ImageEditResult> => {
+        try {
+            const response = await transport('image', { parts }, signal);
+
+            const diagnostics = collectDiagnostics(response);
+            // Find the first image part in the response
+            const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.mimeType?.startsWith('image/'));
+            if (imagePart) {
+                const { mimeType, data } = imagePart.inlineData;
+                return { imageUrl: `data:${mimeType};base64,${data}`, diagnostics };
+            }
+
+            throwIfBlocked(diagnostics);
+            throw new NoImageError(diagnostics);
+        } catch (error) {
+            throw handleGeminiError(error, context);
+        }
+    };
+
+    const editProductImage = async (
+        productImage: Base64Image,
+        prompt: string,
+        styleReferences: StyleReference[],
+        signal?: AbortSignal
+    ): Promise<ImageEditResult> => {
+        const parts: Part[] = [
+            {
+                inlineData: {
+                    data: productImage.base64,
+                    mimeType: productImage.mimeType,
+                }
+            },
+            { text: prompt },
+            ...buildStyleReferenceParts(styleReferences),
+        ];
+
+        return generateImage(parts, "image generation", signal);
+    };
+
+    const inpaintImage = async (
+        image: Base64Image,
+        mask: Base64Image,
+        prompt: string,
+        signal?: AbortSignal
+    ): Promise<string> => {
+        const parts: Part[] = [
+            {
+                inlineData: {
+                    data: image.base64,
+                    mimeType: image.mimeType,
+                }
+            },
+            {
+                inlineData: {
+                    data: mask.base64,
+                    mimeType: mask.mimeType,
+                }
+            },
+            { text: prompt },
+        ];
+
+        return (await generateImage(parts, "masked editing", signal)).imageUrl;
+    };
+
+    const segmentProduct = async (image: Base64Image, signal?: AbortSignal): Promise<string> => {
+        const parts: Part[] = [
+            {
+                inlineData: {
+                    data: image.base64,
+                    mimeType: image.mimeType,
+                }
+            },
+            { text: buildSegmentationPrompt() },
+        ];
+
+        return (await generateImage(parts, "background removal", signal)).imageUrl;
+    };
+
+    const compareProductFidelity = async (
+        original: Base64Image,
+        result: Base64Image,
+        signal?: AbortSignal
+    ): Promise<VisionFidelityResult> => {
+        try {
+            const response = await transport('prompt', {
+                parts: [
+                    { text: buildFidelityCheckPrompt() },
+                    { inlineData: { data: original.base64, mimeType: original.mimeType } },
+                    { inlineData: { data: result.base64, mimeType: result.mimeType } },
+                ],
+                responseSchema: fidelityResponseSchema,
+            }, signal);
+
+            const parsed = JSON.parse(response.text ?? '{}') as { score?: unknown, differences?: unknown };
+            const differences = Array.isArray(parsed.differences) ? parsed.differences as FidelityDifference[] : [];
+            return {
+                score: Math.min(1, Math.max(0, Number(parsed.score) || 0)),
+                differences: differences.filter(difference => FIDELITY_CATEGORIES.includes(difference.category)),
+            };
+        } catch (error) {
+            throw handleGeminiError(error, "fidelity check");
+        }
+    };
+
+    return {
+        id: 'gemini',
+        label: 'Gemini',
+        promptModel: GEMINI_MODELS.prompt,
+        imageModel: GEMINI_MODELS.image,
+        generateDescriptivePrompt,
+        editProductImage,
+        inpaintImage,
+        segmentProduct,
+        compareProductFidelity,
+    };
+};
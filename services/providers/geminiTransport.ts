@@ -0,0 +1,74 @@
+import { ApiError, GenerateContentParameters, GenerateContentResponse, GoogleGenAI, Modality, Part } from "@google/genai";
+
+/**
+ * Which model a request is for. Callers choose a role rather than a model name so the
+ * proxy decides what each request may run on.
+ */
+export type GeminiModelRole = 'prompt' | 'image';
+
+export const GEMINI_MODELS: Record<GeminiModelRole, string> = {
+    prompt: 'gemini-2.5-flash',
+    image: 'gemini-2.5-flash-image-preview',
+};
+
+/**
+ * The serializable part of a generateContent call, as sent to the proxy.
+ */
+export interface GeminiRequest {
+    parts: Part[];
+    /** Asks the prompt model for JSON matching this schema instead of free text. */
+    responseSchema?: object;
+}
+
+/**
+ * Sends one request to Gemini and resolves with its response. API failures reject
+ * with the SDK's `ApiError`, whichever way the request travelled.
+ */
+export type GeminiTransport = (role: GeminiModelRole, request: GeminiRequest, signal?: AbortSignal) => Promise<GenerateContentResponse>;
+
+/**
+ * Header carrying the browser's anonymous id, which the proxy counts request limits against.
+ */
+export const CLIENT_ID_HEADER = 'X-Studio-Client';
+
+/**
+ * Expands a request into SDK parameters. Image requests always ask for image and text
+ * output; a schema switches the prompt model to JSON.
+ */
+export const toGenerateContentParameters = (role: GeminiModelRole, request: GeminiRequest, signal?: AbortSignal): GenerateContentParameters => ({
+    model: GEMINI_MODELS[role],
+    contents: { parts: request.parts },
+    config: {
+        abortSignal: signal,
+        ...(role === 'image' ? { responseModalities: [Modality.IMAGE, Modality.TEXT] } : {}),
+        ...(role === 'prompt' && request.responseSchema ? { responseMimeType: 'application/json', responseSchema: request.responseSchema } : {}),
+    },
+});
+
+/**
+ * Calls Gemini with the given key. Used by the proxy, and by the browser only when the
+ * user has entered a personal key for local use.
+ */
+export const createDirectTransport = (apiKey: string): GeminiTransport => {
+    const ai = new GoogleGenAI({ apiKey });
+    return (role, request, signal) => ai.models.generateContent(toGenerateContentParameters(role, request, signal));
+};
+
+/**
+ * Sends requests to the studio proxy, which holds the API key server-side.
+ * @param baseUrl Where the proxy's routes are mounted, e.g. "/api".
+ */
+export const createProxyTransport = (baseUrl: string, clientId: string): GeminiTransport => async (role, request, signal) => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/${role}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', [CLIENT_ID_HEADER]: clientId },
+        body: JSON.stringify(request),
+        signal,
+    });
+    if (!response.ok) {
+        // The body is Google's error JSON (or the proxy's own in the same shape), which is
+        // what the SDK puts in ApiError messages too.
+        throw new ApiError({ message: await response.text(), status: response.status });
+    }
+    return Object.assign(new GenerateContentResponse(), await response.json());
+};
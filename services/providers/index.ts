@@ -0,0 +1,81 @@
+import { getClientId, loadPersonalApiKey } from '../apiKeyStorage';
+import { createGeminiProvider } from './geminiProvider';
+import { createDirectTransport, createProxyTransport, GeminiTransport } from './geminiTransport';
+import { createMockProvider } from './mockProvider';
+import { ImageProvider, ImageProviderId } from './types';
+
+export type { ImageEditResult, ImageProvider, ImageProviderId, VisionFidelityResult } from './types';
+
+const PROVIDER_IDS: ImageProviderId[] = ['gemini', 'mock'];
+
+const DEFAULT_PROXY_URL = '/api';
+
+/**
+ * A personal key entered in settings always selects Gemini. Otherwise reads
+ * `IMAGE_PROVIDER` from the environment; when that is not set, Gemini is used if the
+ * studio proxy is configured and the offline mock otherwise.
+ */
+export const resolveProviderId = (): ImageProviderId => {
+    if (loadPersonalApiKey()) {
+        return 'gemini';
+    }
+    const configured = (process.env.IMAGE_PROVIDER || '').toLowerCase();
+    if (PROVIDER_IDS.includes(configured as ImageProviderId)) {
+        return configured as ImageProviderId;
+    }
+    if (configured) {
+        console.warn(`Unknown IMAGE_PROVIDER "${configured}". Expected one of: ${PROVIDER_IDS.join(', ')}.`);
+    }
+    return process.env.STUDIO_PROXY_URL ? 'gemini' : 'mock';
+};
+
+/**
+ * Where the studio proxy is served; it also fetches images for URL import.
+ */
+export const getStudioProxyUrl = (): string => (process.env.STUDIO_PROXY_URL || DEFAULT_PROXY_URL).replace(/\/$/, '');
+
+/**
+ * Calls Google directly with the personal key when there is one, and the studio proxy,
+ * which holds the shared key, otherwise.
+ */
+const resolveGeminiTransport = (): GeminiTransport => {
+    const personalKey = loadPersonalApiKey();
+    return personalKey
+        ? createDirectTransport(personalKey)
+        : createProxyTransport(getStudioProxyUrl(), getClientId());
+};
+
+const createProvider = (id: ImageProviderId): ImageProvider => {
+    switch (id) {
+        case 'mock': return createMockProvider();
+        case 'gemini':
+        default: return createGeminiProvider(resolveGeminiTransport());
+    }
+};
+
+let activeProvider: ImageProvider | null = null;
+
+/**
+ * Returns the configured provider, creating it on first use.
+ */
+export const getImageProvider = (): ImageProvider => {
+    if (!activeProvider) {
+        activeProvider = createProvider(resolveProviderId());
+    }
+    return activeProvider;
+};
+
+/**
+ * Drops the active provider so the next request picks one again, e.g. after the
+ * personal key changed.
+ */
+export const resetImageProvider = () => {
+    activeProvider = null;
+};
+
+/**
+ * Replaces the active provider, e.g. to inject a mock from scripts or tests.
+ */
+export const setImageProvider = (provider: ImageProvider) => {
+    activeProvider = provider;
+};
@@ -0,0 +1,170 @@
+import { Base64Image, BrandKit, CameraPerspective, LightingStyle, StyleReference, StyleSettings } from '../../types';
+import { bytesToBase64, hashString } from '../binaryUtils';
+import { encodeRgbPng } from '../pngEncoder';
+import { DEFAULT_SCENE_SETTINGS, STYLE_ASPECT_OPTIONS, describeAspectRatio } from '../../constants';
+import { formatPromptSections } from '../promptSections';
+import { abortableDelay } from '../abortUtils';
+import { EMPTY_DIAGNOSTICS } from '../studioErrors';
+import { ImageEditResult, ImageProvider, VisionFidelityResult } from './types';
+
+const MOCK_LATENCY_MS = 600;
+const MOCK_IMAGE_SIZE = 384;
+
+const LIGHTING_DESCRIPTIONS: Record<LightingStyle, string> = {
+    [LightingStyle.STUDIO]: 'a large diffused key light, gentle fill and a subtle rim light against a seamless backdrop',
+    [LightingStyle.NATURAL]: 'soft window light falling across the scene from the left',
+    [LightingStyle.CINEMATIC]: 'moody, high-contrast light with a teal and amber color grade',
+    [LightingStyle.DRAMATIC]: 'a single hard spotlight carving deep shadows',
+    [LightingStyle.SOFT]: 'a dreamy, low-contrast glow with blooming highlights',
+    [LightingStyle.HIGH_KEY]: 'bright, nearly shadowless light on a pure white set',
+};
+
+const PERSPECTIVE_DESCRIPTIONS: Record<CameraPerspective, string> = {
+    [CameraPerspective.EYE_LEVEL]: 'a straight-on, eye-level camera',
+    [CameraPerspective.HIGH_ANGLE]: 'a camera looking down from a high angle',
+    [CameraPerspective.LOW_ANGLE]: 'a heroic low-angle camera',
+    [CameraPerspective.CLOSE_UP]: 'a tight close-up that fills the frame',
+    [CameraPerspective.WIDE_SHOT]: 'a wide shot that reveals the surrounding set',
+    [CameraPerspective.DUTCH_ANGLE]: 'a playful tilted Dutch angle',
+};
+
+/**
+ * Derives a color from a seed so each distinct input gets its own palette.
+ */
+const seedToColor = (seed: number, shift: number): [number, number, number] => {
+    const value = (seed >>> shift) & 0xffffff;
+    return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+};
+
+/**
+ * Synthesizes a placeholder "product shot": a seeded gradient backdrop with a
+ * centered block standing in for the product.
+ */
+const synthesizeImage = (seed: number): string => {
+    const size = MOCK_IMAGE_SIZE;
+    const from = seedToColor(seed, 0);
+    const to = seedToColor(Math.imul(seed, 2654435761) >>> 0, 4);
+    const product = seedToColor(Math.imul(seed ^ 0x9e3779b9, 40503) >>> 0, 8);
+    const inset = size / 4;
+    const rgb = new Uint8Array(size * size * 3);
+
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            const i = (y * size + x) * 3;
+            const isProduct = x >= inset && x < size - inset && y >= inset && y < size - inset;
+            const isShadow = !isProduct && y >= size - inset && y < size - inset + 12 && x >= inset + 8 && x < size - inset + 8;
+            const t = (x + y) / (2 * size);
+            for (let c = 0; c < 3; c++) {
+                if (isProduct) {
+                    rgb[i + c] = product[c];
+                } else {
+                    const background = from[c] * (1 - t) + to[c] * t;
+                    rgb[i + c] = isShadow ? background * 0.6 : background;
+                }
+            }
+        }
+    }
+
+    return `data:image/png;base64,${bytesToBase64(encodeRgbPng(size, size, rgb))}`;
+};
+
+/**
+ * Synthesizes a mask matching the block that stands in for the product in `synthesizeImage`.
+ */
+const synthesizeMask = (): string => {
+    const size = MOCK_IMAGE_SIZE;
+    const inset = size / 4;
+    const rgb = new Uint8Array(size * size * 3);
+    for (let y = inset; y < size - inset; y++) {
+        rgb.fill(255, (y * size + inset) * 3, (y * size + size - inset) * 3);
+    }
+    return `data:image/png;base64,${bytesToBase64(encodeRgbPng(size, size, rgb))}`;
+};
+
+/**
+ * Creates an offline provider that returns canned prompts and synthesized images.
+ * Output depends only on the inputs, so the same request always yields the same result.
+ */
+export const createMockProvider = (latencyMs = MOCK_LATENCY_MS): ImageProvider => {
+    const generateDescriptivePrompt = async (
+        settings: StyleSettings,
+        styleReferences: StyleReference[],
+        brandKit: BrandKit | null,
+        signal?: AbortSignal
+    ): Promise<string> => {
+        await abortableDelay(latencyMs, signal);
+        const { lightingStyle, cameraPerspective, scene = DEFAULT_SCENE_SETTINGS } = settings;
+        const aspectRatio = describeAspectRatio(settings);
+        const choose = (value: string, fallback: string) => (['Auto', 'Any', ''].includes(value.trim()) ? fallback : value.trim().toLowerCase());
+        const borrowedAspects = STYLE_ASPECT_OPTIONS
+            .filter(option => styleReferences.some(reference => reference.aspects.includes(option.value)))
+            .map(option => option.label.toLowerCase());
+        const styleSentence = borrowedAspects.length > 0
+            ? ` Borrow the ${borrowedAspects.join(', ')} of the supplied style references.`
+            : '';
+        const brandColors = brandKit ? [...brandKit.primaryColors, ...brandKit.secondaryColors] : [];
+        const brandSentence = brandColors.length > 0 ? ` Keep to the brand colors ${brandColors.join(', ')}.` : '';
+        const background = brandKit?.approvedBackgrounds[0] ?? scene.background;
+        return formatPromptSections({
+            scene: `A professional ${aspectRatio} product photograph. The product is the clear hero, resting on a ${choose(background, 'clean seamless')} surface.`,
+            lighting: `Lit with ${LIGHTING_DESCRIPTIONS[lightingStyle]}, casting a ${choose(scene.shadowStyle, 'soft contact shadow')}.`,
+            camera: `Captured with ${PERSPECTIVE_DESCRIPTIONS[cameraPerspective]} through a ${choose(scene.focalLength, '50mm')} lens with ${choose(scene.depthOfField, 'medium')} depth of field.`,
+            styling: `A ${choose(scene.mood, 'clean & minimal')} mood in a ${choose(scene.colorPalette, 'neutral')} palette${scene.props.trim() ? `, styled with ${scene.props.trim()}` : ''}${choose(scene.season, '') ? `, evoking ${scene.season.toLowerCase()}` : ''}.${styleSentence}${brandSentence}`,
+        });
+    };
+
+    const editProductImage = async (
+        productImage: Base64Image,
+        prompt: string,
+        styleReferences: StyleReference[],
+        signal?: AbortSignal
+    ): Promise<ImageEditResult> => {
+        await abortableDelay(latencyMs, signal);
+        const styleKey = styleReferences.map(reference => `${reference.image.base64}:${reference.aspects.join(',')}:${reference.weight}`).join('|');
+        const seed = hashString(`${prompt}|${productImage.base64}|${styleKey}`);
+        return { imageUrl: synthesizeImage(seed), diagnostics: EMPTY_DIAGNOSTICS };
+    };
+
+    const inpaintImage = async (
+        image: Base64Image,
+        mask: Base64Image,
+        prompt: string,
+        signal?: AbortSignal
+    ): Promise<string> => {
+        await abortableDelay(latencyMs, signal);
+        return synthesizeImage(hashString(`${prompt}|${image.base64}|${mask.base64}`));
+    };
+
+    const segmentProduct = async (_image: Base64Image, signal?: AbortSignal): Promise<string> => {
+        await abortableDelay(latencyMs, signal);
+        return synthesizeMask();
+    };
+
+    const compareProductFidelity = async (
+        original: Base64Image,
+        result: Base64Image,
+        signal?: AbortSignal
+    ): Promise<VisionFidelityResult> => {
+        await abortableDelay(latencyMs, signal);
+        // A stable pseudo-score between 0.6 and 1 so both outcomes show up in the UI.
+        const score = 0.6 + (hashString(`${original.base64}|${result.base64}`) % 41) / 100;
+        return {
+            score,
+            differences: score < 0.8
+                ? [{ category: 'text', description: 'Label text is blurred compared to the original (mock).', severity: 'major' }]
+                : [],
+        };
+    };
+
+    return {
+        id: 'mock',
+        label: 'Offline mock',
+        promptModel: 'mock-prompt',
+        imageModel: 'mock-image',
+        generateDescriptivePrompt,
+        editProductImage,
+        inpaintImage,
+        segmentProduct,
+        compareProductFidelity,
+    };
+};
@@ -0,0 +1,67 @@
+import { Base64Image, BrandKit, FidelityDifference, GenerationDiagnostics, StyleReference, StyleSettings } from '../../types';
+
+export type ImageProviderId = 'gemini' | 'mock';
+
+/**
+ * A vision model's comparison of a result against the original product photo.
+ */
+export interface VisionFidelityResult {
+    /** 0 (a different product) to 1 (identical). */
+    score: number;
+    differences: FidelityDifference[];
+}
+
+/**
+ * An edited image together with what the model said while producing it.
+ */
+export interface ImageEditResult {
+    imageUrl: string;
+    diagnostics: GenerationDiagnostics;
+}
+
+/**
+ * A backend capable of writing studio prompts and editing product images.
+ * `generateDescriptivePrompt` and `editProductImage` in `geminiService.ts`
+ * delegate to whichever provider is configured.
+ */
+export interface ImageProvider {
+    readonly id: ImageProviderId;
+    readonly label: string;
+    readonly promptModel: string;
+    readonly imageModel: string;
+
+    /**
+     * Writes a descriptive image-editing prompt from the style settings, reference board
+     * and brand kit, if any. Rejects with an AbortError if `signal` is aborted first.
+     */
+    generateDescriptivePrompt(
+        settings: StyleSettings,
+        styleReferences: StyleReference[],
+        brandKit: BrandKit | null,
+        signal?: AbortSignal
+    ): Promise<string>;
+
+    /**
+     * Edits the product image according to the prompt and style references and returns
+     * the result as a data URL with the model's commentary. Failures are reported as the
+     * typed errors in `studioErrors.ts`; safety blocks and text-only answers carry the
+     * model's diagnostics.
+     */
+    editProductImage(productImage: Base64Image, prompt: string, styleReferences: StyleReference[], signal?: AbortSignal): Promise<ImageEditResult>;
+
+    /**
+     * Edits only the area of `image` that is white in `mask` and returns the result as a data URL.
+     */
+    inpaintImage(image: Base64Image, mask: Base64Image, prompt: string, signal?: AbortSignal): Promise<string>;
+
+    /**
+     * Returns a black-and-white mask of `image` as a data URL: white where the product is,
+     * black everywhere else.
+     */
+    segmentProduct(image: Base64Image, signal?: AbortSignal): Promise<string>;
+
+    /**
+     * Compares the product in `result` with the original photo and lists what changed.
+     */
+    compareProductFidelity(original: Base64Image, result: Base64Image, signal?: AbortSignal): Promise<VisionFidelityResult>;
+}
@@ -0,0 +1,84 @@
+import { abortableDelay, createAbortError, throwIfAborted } from './abortUtils';
+import { QuotaError, TimeoutError, isTransientError } from './studioErrors';
+
+export interface RetryOptions {
+    /** Attempts after the first one. */
+    retries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    /** Limit for each attempt; a slower attempt is aborted and fails with a TimeoutError. */
+    timeoutMs?: number;
+    /** Cancels the current attempt and any retries still to come. */
+    signal?: AbortSignal;
+}
+
+const DEFAULT_RETRY_OPTIONS: Required<Omit<RetryOptions, 'signal'>> = {
+    retries: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 16000,
+    timeoutMs: 90000,
+};
+
+/**
+ * Longest wait a quota error may ask for before we give up instead of retrying.
+ */
+const MAX_RETRY_AFTER_MS = 30000;
+
+/**
+ * "Full jitter" backoff: a random delay up to the exponential cap, so requests that
+ * failed together do not all retry at the same moment.
+ */
+export const getBackoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number =>
+    Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+
+/**
+ * Runs one attempt with its own signal, aborted when the caller's signal fires or the
+ * time limit passes. Settles as soon as either happens, even if the operation itself
+ * ignores its signal.
+ */
+const runWithTimeout = async <T>(
+    operation: (signal: AbortSignal) => Promise<T>,
+    timeoutMs: number,
+    signal?: AbortSignal
+): Promise<T> => {
+    throwIfAborted(signal);
+    const controller = new AbortController();
+    let timedOut = false;
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+    const stopped = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener('abort', () => reject(timedOut ? new TimeoutError(timeoutMs) : createAbortError()), { once: true });
+    });
+    try {
+        return await Promise.race([operation(controller.signal), stopped]);
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
+};
+
+/**
+ * Runs an operation with a per-attempt timeout, retrying transient failures (network,
+ * quota, timeout) with exponential backoff and jitter. Honors a quota error's requested
+ * wait. Rejects with an AbortError as soon as `signal` fires.
+ */
+export const withRetry = async <T>(operation: (signal: AbortSignal) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+    const { retries, baseDelayMs, maxDelayMs, timeoutMs } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+    const { signal } = options;
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await runWithTimeout(operation, timeoutMs, signal);
+        } catch (error) {
+            if (attempt >= retries || !isTransientError(error)) throw error;
+            const retryAfterMs = error instanceof QuotaError ? error.retryAfterMs : null;
+            if (retryAfterMs !== null && retryAfterMs > MAX_RETRY_AFTER_MS) throw error;
+            const delay = Math.max(retryAfterMs ?? 0, getBackoffDelay(attempt, baseDelayMs, maxDelayMs));
+            console.warn(`Attempt ${attempt + 1} of ${retries + 1} failed; retrying in ${Math.round(delay)}ms.`, error);
+            await abortableDelay(delay, signal);
+        }
+    }
+};
@@ -0,0 +1,97 @@
+import { GenerationDiagnostics } from '../types';
+
+export type StudioErrorKind = 'auth' | 'quota' | 'safety' | 'no-image' | 'network' | 'timeout';
+
+/**
+ * A failure the studio can explain to the user. Transient errors may succeed if the
+ * same request is simply sent again, so they are retried with backoff.
+ */
+export class StudioError extends Error {
+    readonly kind: StudioErrorKind;
+    readonly isTransient: boolean;
+
+    constructor(kind: StudioErrorKind, message: string, isTransient: boolean, options?: ErrorOptions) {
+        super(message, options);
+        this.name = new.target.name;
+        this.kind = kind;
+        this.isTransient = isTransient;
+    }
+}
+
+export class AuthError extends StudioError {
+    constructor(message = 'Invalid API Key. Please check if the API key is configured correctly.', options?: ErrorOptions) {
+        super('auth', message, false, options);
+    }
+}
+
+export class QuotaError extends StudioError {
+    /** How long the service asked us to wait, when it said. */
+    readonly retryAfterMs: number | null;
+
+    constructor(retryAfterMs: number | null = null, options?: ErrorOptions) {
+        super('quota', 'You have exceeded your API request limit. Please wait and try again later.', true, options);
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+export const EMPTY_DIAGNOSTICS: GenerationDiagnostics = {
+    modelText: null,
+    finishReason: null,
+    blockReason: null,
+    blockedCategories: [],
+};
+
+export class SafetyBlockError extends StudioError {
+    /** The provider's reason code, e.g. "SAFETY" or "PROHIBITED_CONTENT". */
+    readonly reason: string;
+    readonly diagnostics: GenerationDiagnostics;
+
+    constructor(reason: string, diagnostics: GenerationDiagnostics = EMPTY_DIAGNOSTICS, options?: ErrorOptions) {
+        super('safety', `The request was blocked by the model's safety filters (${reason}). Try rewording the prompt or using a different image.`, false, options);
+        this.reason = reason;
+        this.diagnostics = diagnostics;
+    }
+}
+
+export class NoImageError extends StudioError {
+    readonly diagnostics: GenerationDiagnostics;
+
+    constructor(diagnostics: GenerationDiagnostics = EMPTY_DIAGNOSTICS, options?: ErrorOptions) {
+        super(
+            'no-image',
+            diagnostics.modelText
+                ? 'The AI model answered with text instead of an image.'
+                : 'The AI model did not return an image. Try adjusting your prompt or using a different image.',
+            false,
+            options
+        );
+        this.diagnostics = diagnostics;
+    }
+}
+
+export class NetworkError extends StudioError {
+    constructor(message = 'Could not reach the image service. Check your connection and try again.', options?: ErrorOptions) {
+        super('network', message, true, options);
+    }
+}
+
+export class TimeoutError extends StudioError {
+    constructor(timeoutMs: number, options?: ErrorOptions) {
+        super('timeout', `The request took longer than ${Math.round(timeoutMs / 1000)} seconds and was stopped.`, true, options);
+    }
+}
+
+/**
+ * The model's own account of a failed image request, when the error carries one.
+ */
+export const getErrorDiagnostics = (error: unknown): GenerationDiagnostics | null =>
+    error instanceof SafetyBlockError || error instanceof NoImageError ? error.diagnostics : null;
+
+export const isTransientError = (error: unknown): boolean => error instanceof StudioError && error.isTransient;
+
+/**
+ * False for failures that sending the same request again cannot fix: a bad key or a
+ * safety block. Unclassified errors are assumed worth another try.
+ */
+export const canRetryRequest = (error: unknown): boolean =>
+    !(error instanceof AuthError || error instanceof SafetyBlockError);
@@ -0,0 +1,31 @@
+import { Base64Image, StyleAspect, StyleReference } from '../types';
+import { DEFAULT_STYLE_REFERENCE_WEIGHT, STYLE_ASPECT_OPTIONS } from '../constants';
+
+export const ALL_STYLE_ASPECTS: StyleAspect[] = STYLE_ASPECT_OPTIONS.map(option => option.value);
+
+export const createStyleReferenceId = (): string => `style-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createStyleReference = (
+    image: Base64Image,
+    aspects: StyleAspect[] = ALL_STYLE_ASPECTS,
+    weight = DEFAULT_STYLE_REFERENCE_WEIGHT
+): StyleReference => ({
+    id: createStyleReferenceId(),
+    image,
+    aspects,
+    weight,
+});
+
+/**
+ * Converts the single style image saved by older versions into a board with one
+ * full-weight reference that contributes everything.
+ */
+export const fromLegacyStyleImage = (image: Base64Image | null): StyleReference[] =>
+    image ? [createStyleReference(image, ALL_STYLE_ASPECTS, 1)] : [];
+
+/**
+ * Orders references strongest first. The models attend most to the images they see
+ * first, so this is the order they are sent in.
+ */
+export const sortByWeight = (references: StyleReference[]): StyleReference[] =>
+    [...references].sort((a, b) => b.weight - a.weight);
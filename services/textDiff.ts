@@ -0,0 +1,58 @@
+export type DiffPartType = 'equal' | 'added' | 'removed';
+
+export interface DiffPart {
+    type: DiffPartType;
+    text: string;
+}
+
+/**
+ * Splits text into words and the whitespace between them, so joining the tokens
+ * reproduces the original text exactly.
+ */
+const tokenize = (text: string): string[] => text.split(/(\s+)/).filter(token => token.length > 0);
+
+/**
+ * Computes a word-level diff between two texts using the longest common subsequence.
+ * Adjacent parts of the same type are merged.
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+    const a = tokenize(before);
+    const b = tokenize(after);
+    const width = b.length + 1;
+    // lengths[i * width + j] = LCS length of a[i..] and b[j..]
+    const lengths = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i * width + j] = a[i] === b[j]
+                ? lengths[(i + 1) * width + j + 1] + 1
+                : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+        }
+    }
+
+    const parts: DiffPart[] = [];
+    const push = (type: DiffPartType, text: string) => {
+        const last = parts[parts.length - 1];
+        if (last?.type === type) {
+            last.text += text;
+        } else {
+            parts.push({ type, text });
+        }
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            push('equal', a[i]);
+            i++;
+            j++;
+        } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+            push('removed', a[i++]);
+        } else {
+            push('added', b[j++]);
+        }
+    }
+    while (i < a.length) push('removed', a[i++]);
+    while (j < b.length) push('added', b[j++]);
+    return parts;
+};
@@ -0,0 +1,219 @@
+import { createTiffReader, readTiffValue, TIFF_TAGS, TiffEntry, TiffReader } from './tiffReader';
+
+/**
+ * Decoded pixels in RGBA order, ready for `ImageData`.
+ */
+export interface DecodedImage {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+}
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_LZW = 5;
+const COMPRESSION_DEFLATE = 8;
+const COMPRESSION_DEFLATE_LEGACY = 32946;
+const COMPRESSION_PACKBITS = 32773;
+
+const PHOTOMETRIC_WHITE_IS_ZERO = 0;
+const PHOTOMETRIC_BLACK_IS_ZERO = 1;
+const PHOTOMETRIC_RGB = 2;
+const PHOTOMETRIC_PALETTE = 3;
+
+const PREDICTOR_HORIZONTAL = 2;
+
+const LZW_CLEAR = 256;
+const LZW_END = 257;
+const LZW_MAX_CODE_WIDTH = 12;
+
+/**
+ * Decodes TIFF's LZW variant: codes are written most significant bit first and widen one
+ * code early.
+ */
+const decodeLzw = (input: Uint8Array, outputLength: number): Uint8Array => {
+    const output = new Uint8Array(outputLength);
+    let outputAt = 0;
+    let table: Uint8Array[] = [];
+    let codeWidth = 9;
+    let bitAt = 0;
+    let previous: Uint8Array | null = null;
+    const resetTable = () => {
+        table = Array.from({ length: 258 }, (_, i) => new Uint8Array([i]));
+        codeWidth = 9;
+        previous = null;
+    };
+    const readCode = (): number => {
+        const byteAt = bitAt >> 3;
+        const window = (input[byteAt] << 16) | ((input[byteAt + 1] ?? 0) << 8) | (input[byteAt + 2] ?? 0);
+        const code = (window >> (24 - (bitAt & 7) - codeWidth)) & ((1 << codeWidth) - 1);
+        bitAt += codeWidth;
+        return code;
+    };
+
+    resetTable();
+    while (bitAt + codeWidth <= input.length * 8 && outputAt < outputLength) {
+        const code = readCode();
+        if (code === LZW_END) break;
+        if (code === LZW_CLEAR) {
+            resetTable();
+            continue;
+        }
+        let entry: Uint8Array;
+        if (code < table.length) {
+            entry = table[code];
+        } else if (code === table.length && previous) {
+            entry = new Uint8Array(previous.length + 1);
+            entry.set(previous);
+            entry[previous.length] = previous[0];
+        } else {
+            throw new Error('The TIFF image data is corrupt.');
+        }
+        output.set(entry.subarray(0, outputLength - outputAt), outputAt);
+        outputAt += entry.length;
+        if (previous) {
+            const added = new Uint8Array(previous.length + 1);
+            added.set(previous);
+            added[previous.length] = entry[0];
+            table.push(added);
+        }
+        previous = entry;
+        if (table.length >= (1 << codeWidth) - 1 && codeWidth < LZW_MAX_CODE_WIDTH) {
+            codeWidth++;
+        }
+    }
+    return output;
+};
+
+const decodePackBits = (input: Uint8Array, outputLength: number): Uint8Array => {
+    const output = new Uint8Array(outputLength);
+    let outputAt = 0;
+    for (let at = 0; at < input.length && outputAt < outputLength;) {
+        const header = (input[at++] << 24) >> 24;
+        if (header >= 0) {
+            output.set(input.subarray(at, at + header + 1).subarray(0, outputLength - outputAt), outputAt);
+            outputAt += header + 1;
+            at += header + 1;
+        } else if (header !== -128) {
+            output.fill(input[at++], outputAt, Math.min(outputAt + 1 - header, outputLength));
+            outputAt += 1 - header;
+        }
+    }
+    return output;
+};
+
+const inflate = async (input: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([input]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const decompressStrip = async (compression: number, input: Uint8Array, outputLength: number): Promise<Uint8Array> => {
+    switch (compression) {
+        case COMPRESSION_NONE: return input;
+        case COMPRESSION_LZW: return decodeLzw(input, outputLength);
+        case COMPRESSION_DEFLATE:
+        case COMPRESSION_DEFLATE_LEGACY: return inflate(input);
+        case COMPRESSION_PACKBITS: return decodePackBits(input, outputLength);
+        default: throw new Error(`TIFF compression type ${compression} is not supported. Save the file uncompressed or with LZW.`);
+    }
+};
+
+const readAll = (reader: TiffReader, entry: TiffEntry | undefined): number[] => (entry ? reader.readNumbers(entry) : []);
+
+/**
+ * Decodes the first image of a baseline TIFF: 8- or 16-bit grayscale, RGB or palette
+ * color, in strips, uncompressed or compressed with LZW, Deflate or PackBits. Also
+ * returns its EXIF orientation, which the caller applies.
+ */
+export const decodeTiff = async (bytes: Uint8Array): Promise<{ image: DecodedImage, orientation: number }> => {
+    const reader = createTiffReader(bytes);
+    if (!reader) {
+        throw new Error('The file is not a valid TIFF image.');
+    }
+    const ifd = reader.readIfd(reader.firstIfdOffset);
+    const value = (tag: number, fallback: number) => readTiffValue(reader, ifd, tag, fallback);
+    const width = value(TIFF_TAGS.imageWidth, 0);
+    const height = value(TIFF_TAGS.imageLength, 0);
+    const samplesPerPixel = value(TIFF_TAGS.samplesPerPixel, 1);
+    const bitsPerSample = value(TIFF_TAGS.bitsPerSample, 1);
+    const photometric = value(TIFF_TAGS.photometricInterpretation, PHOTOMETRIC_BLACK_IS_ZERO);
+    const compression = value(TIFF_TAGS.compression, COMPRESSION_NONE);
+    const predictor = value(TIFF_TAGS.predictor, 1);
+    const rowsPerStrip = value(TIFF_TAGS.rowsPerStrip, height);
+    const stripOffsets = readAll(reader, ifd.get(TIFF_TAGS.stripOffsets));
+    const stripByteCounts = readAll(reader, ifd.get(TIFF_TAGS.stripByteCounts));
+
+    if (!width || !height) {
+        throw new Error('The TIFF image has no size.');
+    }
+    if (ifd.has(TIFF_TAGS.tileWidth) || stripOffsets.length === 0) {
+        throw new Error('Tiled TIFF images are not supported. Save the file with strips instead.');
+    }
+    if (value(TIFF_TAGS.planarConfiguration, 1) !== 1) {
+        throw new Error('TIFF images with separate color planes are not supported.');
+    }
+    if (bitsPerSample !== 8 && bitsPerSample !== 16) {
+        throw new Error(`${bitsPerSample}-bit TIFF images are not supported. Save the file with 8 or 16 bits per channel.`);
+    }
+    if (![PHOTOMETRIC_WHITE_IS_ZERO, PHOTOMETRIC_BLACK_IS_ZERO, PHOTOMETRIC_RGB, PHOTOMETRIC_PALETTE].includes(photometric)) {
+        throw new Error('Only grayscale, RGB and palette TIFF images are supported. Convert CMYK or Lab files to RGB.');
+    }
+
+    const bytesPerSample = bitsPerSample / 8;
+    const rowLength = width * samplesPerPixel * bytesPerSample;
+    const raw = new Uint8Array(rowLength * height);
+    for (let strip = 0; strip < stripOffsets.length; strip++) {
+        const rowsInStrip = Math.min(rowsPerStrip, height - strip * rowsPerStrip);
+        if (rowsInStrip <= 0) break;
+        const start = stripOffsets[strip];
+        const input = bytes.subarray(start, start + (stripByteCounts[strip] ?? bytes.length - start));
+        const decoded = await decompressStrip(compression, input, rowLength * rowsInStrip);
+        raw.set(decoded.subarray(0, rowLength * rowsInStrip), strip * rowsPerStrip * rowLength);
+    }
+
+    const view = new DataView(raw.buffer);
+    const sampleCount = width * height * samplesPerPixel;
+    const maxValue = (1 << bitsPerSample) - 1;
+    const samples = new Uint16Array(sampleCount);
+    for (let i = 0; i < sampleCount; i++) {
+        samples[i] = bytesPerSample === 1 ? raw[i] : view.getUint16(i * 2, reader.littleEndian);
+    }
+    if (predictor === PREDICTOR_HORIZONTAL) {
+        // Each sample was stored as the difference from the same channel of the pixel before it.
+        for (let y = 0; y < height; y++) {
+            const rowStart = y * width * samplesPerPixel;
+            for (let i = samplesPerPixel; i < width * samplesPerPixel; i++) {
+                samples[rowStart + i] = (samples[rowStart + i] + samples[rowStart + i - samplesPerPixel]) & maxValue;
+            }
+        }
+    }
+
+    const colorMap = photometric === PHOTOMETRIC_PALETTE ? readAll(reader, ifd.get(TIFF_TAGS.colorMap)) : [];
+    const paletteSize = colorMap.length / 3;
+    const to8Bit = (sample: number) => (bytesPerSample === 1 ? sample : sample >> 8);
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let pixel = 0; pixel < width * height; pixel++) {
+        const at = pixel * samplesPerPixel;
+        const out = pixel * 4;
+        if (photometric === PHOTOMETRIC_RGB) {
+            data[out] = to8Bit(samples[at]);
+            data[out + 1] = to8Bit(samples[at + 1]);
+            data[out + 2] = to8Bit(samples[at + 2]);
+            data[out + 3] = samplesPerPixel > 3 ? to8Bit(samples[at + 3]) : 255;
+        } else if (photometric === PHOTOMETRIC_PALETTE) {
+            const index = samples[at];
+            data[out] = colorMap[index] >> 8;
+            data[out + 1] = colorMap[paletteSize + index] >> 8;
+            data[out + 2] = colorMap[paletteSize * 2 + index] >> 8;
+            data[out + 3] = 255;
+        } else {
+            const gray = to8Bit(photometric === PHOTOMETRIC_WHITE_IS_ZERO ? maxValue - samples[at] : samples[at]);
+            data[out] = gray;
+            data[out + 1] = gray;
+            data[out + 2] = gray;
+            data[out + 3] = samplesPerPixel > 1 ? to8Bit(samples[at + 1]) : 255;
+        }
+    }
+
+    const orientation = value(TIFF_TAGS.orientation, 1);
+    return { image: { width, height, data }, orientation: orientation >= 1 && orientation <= 8 ? orientation : 1 };
+};
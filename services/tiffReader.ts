@@ -0,0 +1,105 @@
+/**
+ * Tags read from TIFF files and the EXIF blocks of other formats, which share the layout.
+ */
+export const TIFF_TAGS = {
+    imageWidth: 256,
+    imageLength: 257,
+    bitsPerSample: 258,
+    compression: 259,
+    photometricInterpretation: 262,
+    stripOffsets: 273,
+    orientation: 274,
+    samplesPerPixel: 277,
+    rowsPerStrip: 278,
+    stripByteCounts: 279,
+    planarConfiguration: 284,
+    predictor: 317,
+    colorMap: 320,
+    tileWidth: 322,
+    gpsIfd: 34853,
+    gpsLatitude: 2,
+    gpsLongitude: 4,
+} as const;
+
+export interface TiffEntry {
+    tag: number;
+    type: number;
+    count: number;
+    /** Where the entry's values start in the buffer. */
+    valueOffset: number;
+}
+
+export interface TiffReader {
+    bytes: Uint8Array;
+    littleEndian: boolean;
+    firstIfdOffset: number;
+    /** Reads the directory at `offset`, relative to the TIFF header. */
+    readIfd(offset: number): Map<number, TiffEntry>;
+    /** The entry's values as numbers; empty for unknown types or values past the end of the data. */
+    readNumbers(entry: TiffEntry): number[];
+}
+
+/** Bytes per value for each TIFF field type. */
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+/**
+ * Opens TIFF-structured data whose header starts at `start`, or returns null if there is none.
+ */
+export const createTiffReader = (bytes: Uint8Array, start = 0): TiffReader | null => {
+    if (bytes.length < start + 8) return null;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const byteOrder = view.getUint16(start);
+    if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return null;
+    const littleEndian = byteOrder === 0x4949;
+    if (view.getUint16(start + 2, littleEndian) !== 42) return null;
+
+    const readIfd = (offset: number): Map<number, TiffEntry> => {
+        const entries = new Map<number, TiffEntry>();
+        const at = start + offset;
+        if (offset === 0 || at + 2 > bytes.length) return entries;
+        const entryCount = view.getUint16(at, littleEndian);
+        for (let i = 0; i < entryCount; i++) {
+            const entryAt = at + 2 + i * 12;
+            if (entryAt + 12 > bytes.length) break;
+            const tag = view.getUint16(entryAt, littleEndian);
+            const type = view.getUint16(entryAt + 2, littleEndian);
+            const count = view.getUint32(entryAt + 4, littleEndian);
+            // Values of four bytes or fewer are stored in the entry itself.
+            const size = (TYPE_SIZES[type] ?? 0) * count;
+            const valueOffset = size <= 4 ? entryAt + 8 : start + view.getUint32(entryAt + 8, littleEndian);
+            entries.set(tag, { tag, type, count, valueOffset });
+        }
+        return entries;
+    };
+
+    const readNumber = (type: number, at: number): number => {
+        switch (type) {
+            case 3: return view.getUint16(at, littleEndian);
+            case 4: return view.getUint32(at, littleEndian);
+            case 5: return view.getUint32(at, littleEndian) / view.getUint32(at + 4, littleEndian);
+            case 6: return view.getInt8(at);
+            case 8: return view.getInt16(at, littleEndian);
+            case 9: return view.getInt32(at, littleEndian);
+            case 10: return view.getInt32(at, littleEndian) / view.getInt32(at + 4, littleEndian);
+            case 11: return view.getFloat32(at, littleEndian);
+            case 12: return view.getFloat64(at, littleEndian);
+            default: return view.getUint8(at);
+        }
+    };
+
+    const readNumbers = ({ type, count, valueOffset }: TiffEntry): number[] => {
+        const size = TYPE_SIZES[type];
+        if (!size || valueOffset + size * count > bytes.length) return [];
+        return Array.from({ length: count }, (_, i) => readNumber(type, valueOffset + i * size));
+    };
+
+    return { bytes, littleEndian, firstIfdOffset: view.getUint32(start + 4, littleEndian), readIfd, readNumbers };
+};
+
+/**
+ * The first value of `tag` in a directory, or `fallback` when it is missing.
+ */
+export const readTiffValue = (reader: TiffReader, ifd: Map<number, TiffEntry>, tag: number, fallback: number): number => {
+    const entry = ifd.get(tag);
+    return entry ? reader.readNumbers(entry)[0] ?? fallback : fallback;
+};
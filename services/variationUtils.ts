@@ -0,0 +1,80 @@
+import { CompositeSource, FidelityReport, GeneratedVariation, HistoryResultRef, ImageVersion, OverlayLayer } from '../types';
+
+/**
+ * Creates a variation whose version timeline starts with the generated image.
+ */
+export const createVariation = (
+    id: string,
+    imageUrl: string,
+    createdAt: number,
+    details: Pick<ImageVersion, 'composite' | 'modelNote' | 'overlays' | 'historyRef'> = {}
+): GeneratedVariation => ({
+    id,
+    versions: [{ id: `${id}-v0`, imageUrl, instruction: null, createdAt, ...details }],
+    activeVersionIndex: 0,
+    isFavorite: false,
+    createdAt,
+});
+
+export const getActiveVersion = (variation: GeneratedVariation): ImageVersion =>
+    variation.versions[variation.activeVersionIndex];
+
+/**
+ * Chains a refined image onto the active version, carrying its overlay layers over.
+ * Versions after the active one are discarded, like redo history after a new edit.
+ */
+export const appendVersion = (
+    variation: GeneratedVariation,
+    imageUrl: string,
+    instruction: string,
+    fidelity?: FidelityReport,
+    modelNote?: string,
+    historyRef?: HistoryResultRef
+): GeneratedVariation => {
+    const createdAt = Date.now();
+    const { overlays } = getActiveVersion(variation);
+    const versions = [
+        ...variation.versions.slice(0, variation.activeVersionIndex + 1),
+        { id: `${variation.id}-v${createdAt}`, imageUrl, instruction, createdAt, fidelity, overlays, modelNote, historyRef },
+    ];
+    return { ...variation, versions, activeVersionIndex: versions.length - 1 };
+};
+
+/**
+ * Records the fidelity report for one version of a variation: null while checking,
+ * undefined if the check could not run.
+ */
+export const setVersionFidelity = (
+    variation: GeneratedVariation,
+    versionId: string,
+    fidelity: FidelityReport | null | undefined
+): GeneratedVariation => ({
+    ...variation,
+    versions: variation.versions.map(version => (version.id === versionId ? { ...version, fidelity } : version)),
+});
+
+/**
+ * Replaces a composited version's image after its layout changed. The version keeps its
+ * place in the timeline, since the scene and product are unchanged.
+ */
+export const setVersionComposite = (
+    variation: GeneratedVariation,
+    versionId: string,
+    imageUrl: string,
+    composite: CompositeSource
+): GeneratedVariation => ({
+    ...variation,
+    versions: variation.versions.map(version => (version.id === versionId ? { ...version, imageUrl, composite } : version)),
+});
+
+/**
+ * Replaces the text and badge layers drawn over one version. The image itself is untouched.
+ */
+export const setVersionOverlays = (
+    variation: GeneratedVariation,
+    versionId: string,
+    overlays: OverlayLayer[]
+): GeneratedVariation => ({
+    ...variation,
+    versions: variation.versions.map(version => (version.id === versionId ? { ...version, overlays } : version)),
+});
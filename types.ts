@@ -3,6 +3,12 @@ export enum AspectRatio {
     SQUARE = '1:1',
     PORTRAIT = '3:4',
     LANDSCAPE = '16:9',
+    PORTRAIT_4_5 = '4:5',
+    PORTRAIT_2_3 = '2:3',
+    LANDSCAPE_3_2 = '3:2',
+    STORY = '9:16',
+    ULTRAWIDE = '21:9',
+    CUSTOM = 'Custom',
 }
 
 export enum LightingStyle {
@@ -23,8 +29,384 @@ export enum CameraPerspective {
     DUTCH_ANGLE = 'Dutch Angle',
 }
 
+export enum BackgroundType {
+    AUTO = 'Auto',
+    SEAMLESS_PAPER = 'Seamless paper',
+    MARBLE = 'Marble',
+    WOOD = 'Wood',
+    CONCRETE = 'Concrete',
+    LINEN = 'Linen / fabric',
+    NATURE = 'Outdoor / nature',
+    LIFESTYLE_INTERIOR = 'Lifestyle interior',
+    GRADIENT = 'Color gradient',
+}
+
+export enum Mood {
+    AUTO = 'Auto',
+    CLEAN = 'Clean & minimal',
+    LUXURIOUS = 'Luxurious',
+    WARM = 'Warm & cozy',
+    FRESH = 'Fresh & airy',
+    PLAYFUL = 'Playful',
+    BOLD = 'Bold & edgy',
+    RUSTIC = 'Rustic',
+}
+
+export enum Season {
+    ANY = 'Any',
+    SPRING = 'Spring',
+    SUMMER = 'Summer',
+    AUTUMN = 'Autumn',
+    WINTER = 'Winter',
+    HOLIDAY = 'Holiday',
+}
+
+export enum DepthOfField {
+    AUTO = 'Auto',
+    SHALLOW = 'Shallow (blurred background)',
+    MEDIUM = 'Medium',
+    DEEP = 'Deep (everything sharp)',
+}
+
+export enum FocalLength {
+    AUTO = 'Auto',
+    WIDE_35 = '35mm',
+    NORMAL_50 = '50mm',
+    PORTRAIT_85 = '85mm',
+    MACRO_100 = '100mm macro',
+    TELE_135 = '135mm',
+}
+
+export enum ShadowStyle {
+    AUTO = 'Auto',
+    SOFT = 'Soft contact shadow',
+    HARD = 'Hard cast shadow',
+    FLOATING = 'Floating with drop shadow',
+    NONE = 'No shadow',
+}
+
+/**
+ * The structured scene description that drives prompt generation. "Auto"/"Any"
+ * values and empty strings leave the choice to the prompt model.
+ */
+export interface SceneSettings {
+    background: BackgroundType;
+    colorPalette: string;
+    props: string;
+    mood: Mood;
+    season: Season;
+    depthOfField: DepthOfField;
+    focalLength: FocalLength;
+    shadowStyle: ShadowStyle;
+    /** Constraints the image model must respect, e.g. "No text or watermarks". */
+    doNotList: string[];
+}
+
+/** A width/height pair, used both for ratios (4 × 5) and pixel sizes (1080 × 1350). */
+export interface Dimensions {
+    width: number;
+    height: number;
+}
+
 export interface StyleSettings {
     aspectRatio: AspectRatio;
+    /** The ratio used when `aspectRatio` is `AspectRatio.CUSTOM`. */
+    customAspectRatio?: Dimensions;
+    /** Exact pixel size of the delivered image; null keeps the model's native size. */
+    outputSize?: Dimensions | null;
     lightingStyle: LightingStyle;
     cameraPerspective: CameraPerspective;
+    /** Missing on entries saved before the structured prompt builder existed. */
+    scene?: SceneSettings;
+}
+
+export interface Base64Image {
+    base64: string;
+    mimeType: string;
+}
+
+/**
+ * What happens when the product photo does not fill the aspect ratio: cut it down, or
+ * extend it with a background color so none of the product is lost.
+ */
+export type CropFit = 'crop' | 'pad';
+
+export interface CropOptions {
+    /** Frame the detected product instead of the middle of the photo. */
+    autoFrame: boolean;
+    /** Space kept around the detected product, as a share of its longer side. */
+    margin: number;
+    fit: CropFit;
+    /** Fill for padding and rotated corners; null uses the photo's own border color. */
+    padColor: string | null;
+    /** Clockwise rotation in degrees. */
+    rotation: number;
+}
+
+export type BatchItemStatus = 'queued' | 'processing' | 'done' | 'error';
+
+export interface BatchItem {
+    id: string;
+    fileName: string;
+    sourceImage: Base64Image;
+    status: BatchItemStatus;
+    resultImage: string | null;
+    error: string | null;
+    attempts: number;
+}
+
+export type StudioMode = 'single' | 'cutout' | 'batch';
+
+/**
+ * How single shots are produced: the model redraws the product into the scene ("edit"),
+ * or it paints only the scene and the product cut-out is composited locally ("composite").
+ */
+export type GenerationStrategy = 'edit' | 'composite';
+
+/**
+ * Placement of a product cut-out on a generated background.
+ */
+export interface CompositeLayout {
+    /** Horizontal center of the product, from 0 (left edge) to 1 (right edge). */
+    x: number;
+    /** Where the product's base rests, from 0 (top edge) to 1 (bottom edge). */
+    y: number;
+    /** Product height as a fraction of the image height. */
+    scale: number;
+    /** Clockwise tilt in degrees, around the product's base. */
+    rotation: number;
+    /** Contact shadow opacity, 0–1. */
+    shadow: number;
+    /** Floor reflection opacity, 0–1. */
+    reflection: number;
+    /** How far the product's color cast is pulled toward the scene's, 0–1. */
+    colorMatch: number;
+}
+
+/**
+ * What a composited version was built from, so it can be re-laid out without regenerating.
+ */
+export interface CompositeSource {
+    backgroundUrl: string;
+    cutoutUrl: string;
+    layout: CompositeLayout;
+}
+
+export type OverlayCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface LogoOverlaySettings {
+    enabled: boolean;
+    image: Base64Image | null;
+    corner: OverlayCorner;
+    /** 0–1. */
+    opacity: number;
+    /** Logo width as a fraction of the image width. */
+    size: number;
+}
+
+export interface WatermarkSettings {
+    enabled: boolean;
+    text: string;
+    /** A corner, or repeated diagonally across the whole image. */
+    position: OverlayCorner | 'tiled';
+    /** 0–1. */
+    opacity: number;
+}
+
+/**
+ * Brand guidelines: fed to the prompt writer, and enforced locally on every result
+ * with logo and watermark overlays and a palette check.
+ */
+export interface BrandKit {
+    enabled: boolean;
+    /** Hex colors, e.g. "#1a2b3c". */
+    primaryColors: string[];
+    secondaryColors: string[];
+    forbiddenColors: string[];
+    /** Free-text backgrounds the brand approves, e.g. "white marble". */
+    approvedBackgrounds: string[];
+    /** Typeface for any lettering in the scene and for the watermark. */
+    typeface: string;
+    logo: LogoOverlaySettings;
+    watermark: WatermarkSettings;
+}
+
+export type FidelityCategory = 'text' | 'logo' | 'color' | 'geometry' | 'other';
+
+export interface FidelityDifference {
+    category: FidelityCategory;
+    description: string;
+    severity: 'minor' | 'major';
+}
+
+/**
+ * How faithfully a result reproduces the original product. Scores run from 0 (unrelated)
+ * to 1 (identical).
+ */
+export interface FidelityReport {
+    /** Weighted combination of the scores below. */
+    score: number;
+    /** The vision model's judgement; null if that pass failed. */
+    visionScore: number | null;
+    /** Perceptual-hash similarity of the product region. */
+    perceptualScore: number;
+    /** Color-histogram similarity of the product region. */
+    histogramScore: number;
+    differences: FidelityDifference[];
+    threshold: number;
+    isFlagged: boolean;
+    checkedAt: number;
+}
+
+export type BadgeShape = 'circle' | 'pill' | 'starburst' | 'ribbon';
+
+interface OverlayLayerBase {
+    id: string;
+    /** Center of the layer, as a fraction of the image width and height. */
+    x: number;
+    y: number;
+    /** Degrees clockwise. */
+    rotation: number;
+}
+
+export interface TextOverlayLayer extends OverlayLayerBase {
+    type: 'text';
+    /** May span several lines. */
+    text: string;
+    fontFamily: string;
+    /** Line height as a fraction of the image height. */
+    fontSize: number;
+    bold: boolean;
+    color: string;
+    strokeColor: string;
+    /** Outline width as a fraction of the font size; 0 for none. */
+    strokeWidth: number;
+    shadow: boolean;
+}
+
+export interface BadgeOverlayLayer extends OverlayLayerBase {
+    type: 'badge';
+    shape: BadgeShape;
+    text: string;
+    fontFamily: string;
+    /** Badge width as a fraction of the image width. */
+    size: number;
+    fillColor: string;
+    textColor: string;
+}
+
+/**
+ * Text or a promotional badge drawn over a result. Layers are kept separate from the
+ * image and only flattened into it on export.
+ */
+export type OverlayLayer = TextOverlayLayer | BadgeOverlayLayer;
+
+/**
+ * Where a result is kept in the local history: the entry and its index in `resultImages`.
+ */
+export interface HistoryResultRef {
+    entryId: string;
+    index: number;
+}
+
+export interface ImageVersion {
+    id: string;
+    imageUrl: string;
+    /** The refinement instruction that produced this version; null for the original generation. */
+    instruction: string | null;
+    createdAt: number;
+    /** Undefined until checked; null while a check is running. */
+    fidelity?: FidelityReport | null;
+    /** Set when the image was composited locally rather than drawn by the model. */
+    composite?: CompositeSource;
+    /** Bottom to top. */
+    overlays?: OverlayLayer[];
+    /** Text the image model returned alongside the image, if any. */
+    modelNote?: string;
+    /** Set when this version is saved in the history, so overlay edits are saved with it. */
+    historyRef?: HistoryResultRef;
+}
+
+/**
+ * What the image model reported about a request besides the image itself.
+ */
+export interface GenerationDiagnostics {
+    /** Text parts of the response, joined; the model often explains a refusal here. */
+    modelText: string | null;
+    /** The candidate's finish reason, e.g. "STOP" or "IMAGE_SAFETY". */
+    finishReason: string | null;
+    /** Set when the prompt itself was rejected before anything was generated. */
+    blockReason: string | null;
+    /** Harm categories that were blocked or rated high, e.g. "HARM_CATEGORY_DANGEROUS_CONTENT". */
+    blockedCategories: string[];
+}
+
+export interface GeneratedVariation {
+    id: string;
+    versions: ImageVersion[];
+    activeVersionIndex: number;
+    isFavorite: boolean;
+    createdAt: number;
+}
+
+export type StyleAspect = 'color' | 'texture' | 'lighting' | 'composition';
+
+/**
+ * One image on the style reference board and what it should contribute to the look.
+ */
+export interface StyleReference {
+    id: string;
+    image: Base64Image;
+    /** What to borrow from this image; never empty. */
+    aspects: StyleAspect[];
+    /** Influence relative to the other references, 0.1–1. */
+    weight: number;
+}
+
+export interface HistoryEntry {
+    id: string;
+    createdAt: number;
+    productImage: Base64Image;
+    settings: StyleSettings;
+    styleReferences: StyleReference[];
+    prompt: string;
+    resultImages: string[];
+    /** Overlay layers for each of `resultImages`; missing in entries saved before overlays were kept. */
+    resultOverlays?: OverlayLayer[][];
+    providerId: string;
+    promptModel: string;
+    imageModel: string;
+}
+
+/**
+ * A named "house style": everything needed to reproduce a look on another product.
+ */
+export interface StylePreset {
+    id: string;
+    name: string;
+    createdAt: number;
+    settings: StyleSettings;
+    styleReferences: StyleReference[];
+    /** When set, this prompt is used as-is instead of generating a new one. */
+    lockedPrompt: string | null;
+}
+
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp' | 'image/avif';
+
+export interface ExportOptions {
+    format: ExportFormat;
+    /** Encoder quality from 0 to 1; ignored by lossless formats. */
+    quality: number;
+    /** Target width in pixels, keeping the aspect ratio; null keeps the current width. */
+    width: number | null;
+    convertToSrgb: boolean;
+    embedMetadata: boolean;
+    fileNameTemplate: string;
+}
+
+export interface ExportMetadata {
+    sku: string;
+    prompt: string;
+    settings: StyleSettings;
+    model: string;
 }
@@ -4,11 +4,21 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The API key stays with the proxy (server/proxy.ts) and is never inlined into the
+    // client bundle; the studio only learns where the proxy is.
+    const proxyTarget = `http://localhost:${env.PROXY_PORT || 8787}`;
+    const studioProxyUrl = env.STUDIO_PROXY_URL ?? (env.GEMINI_API_KEY ? '/api' : '');
     return {
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.STUDIO_PROXY_URL': JSON.stringify(studioProxyUrl),
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER ?? '')
+      },
+      server: {
+        proxy: { '/api': proxyTarget }
+      },
+      preview: {
+        proxy: { '/api': proxyTarget }
       },
       resolve: {
         alias: {